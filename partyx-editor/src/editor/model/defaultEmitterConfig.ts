@@ -0,0 +1,33 @@
+import { PARTICLE_CONFIG_VERSION } from 'partyx-library'
+import type { ParticleEmitterConfig } from 'partyx-library'
+
+/** Name of the built-in particle texture registered by the preview. */
+export const DEFAULT_PARTICLE_TEXTURE = 'partyx:particle'
+
+export const defaultEmitterConfig: ParticleEmitterConfig = {
+  version: PARTICLE_CONFIG_VERSION,
+  particleClass: 'ParticleItem',
+  initialSize: 200,
+  maxParticles: 1000,
+  spawnOptions: {
+    position: {
+      x: [-20, 20],
+      y: [-20, 20],
+      velocityX: [-80, 80],
+      velocityY: [-220, -120],
+    },
+    scale: { start: [0.6, 1], end: 0.1 },
+    alpha: { start: 1, end: 0 },
+    color: { start: 0xfde047, end: 0xef4444 },
+    lifespan: [1, 1.8],
+    texture: DEFAULT_PARTICLE_TEXTURE,
+  },
+  updateOptions: {
+    interval: 16,
+    spawnRate: { value: 80 },
+    environment: { gravity: 60 },
+  },
+}
+
+export const createDefaultEmitterConfig = (): ParticleEmitterConfig =>
+  structuredClone(defaultEmitterConfig)
@@ -0,0 +1,38 @@
+import { validateEmitterConfig } from 'partyx-library'
+import type { ParticleEmitterConfig } from 'partyx-library'
+import { normalizePreviewConfig } from '../../preview/model/previewConfig'
+import { createDefaultEmitterConfig } from './defaultEmitterConfig'
+import type { ProjectConfig } from './projectTypes'
+
+export const createDefaultProjectConfig = (): ProjectConfig => ({
+  preview: normalizePreviewConfig(undefined),
+  emitter: createDefaultEmitterConfig(),
+})
+
+export const normalizeEmitterConfig = (config: unknown): ParticleEmitterConfig => {
+  if (config === undefined) return createDefaultEmitterConfig()
+
+  try {
+    validateEmitterConfig(config)
+    return config
+  } catch (error) {
+    console.warn('Invalid emitter config, falling back to defaults', error)
+    return createDefaultEmitterConfig()
+  }
+}
+
+/**
+ * Turn whatever is stored in a project into a usable config.
+ * Projects saved before the emitter config existed stored preview settings at the top level.
+ */
+export const normalizeProjectConfig = (config: unknown): ProjectConfig => {
+  if (!config || typeof config !== 'object') return createDefaultProjectConfig()
+
+  const candidate = config as Record<string, unknown>
+  const isLegacy = !('preview' in candidate) && !('emitter' in candidate)
+
+  return {
+    preview: normalizePreviewConfig(isLegacy ? candidate : candidate.preview),
+    emitter: normalizeEmitterConfig(isLegacy ? undefined : candidate.emitter),
+  }
+}
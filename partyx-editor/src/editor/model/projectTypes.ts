@@ -1,7 +1,15 @@
+import type { ParticleEmitterConfig } from 'partyx-library'
+import type { PreviewConfig } from '../../preview/model/previewConfig'
+
+export type ProjectConfig = {
+  preview: PreviewConfig
+  emitter: ParticleEmitterConfig
+}
+
 export type Project = {
   id: string
   name: string
   createdAt: number
   updatedAt: number
-  config: unknown
+  config: ProjectConfig
 }
@@ -1,4 +1,5 @@
 import type { Project } from '../model/projectTypes'
+import { normalizeProjectConfig } from '../model/projectConfig'
 
 const STORAGE_KEY = 'partyx:projects'
 
@@ -9,7 +10,10 @@ const readAll = (): Project[] => {
   try {
     const parsed = JSON.parse(raw)
     if (!Array.isArray(parsed)) return []
-    return parsed as Project[]
+    return (parsed as Project[]).map(project => ({
+      ...project,
+      config: normalizeProjectConfig(project.config),
+    }))
   } catch (error) {
     console.error('Failed to parse projects from localStorage', error)
     return []
@@ -40,7 +44,7 @@ export const create = (project: Project): Project => {
 
 export const update = (
   id: string,
-  patch: Partial<Omit<Project, 'id' | 'createdAt'>> & { config?: unknown; name?: string },
+  patch: Partial<Omit<Project, 'id' | 'createdAt'>>,
 ): Project | null => {
   const projects = readAll()
   const index = projects.findIndex((p) => p.id === id)
@@ -1,12 +1,8 @@
 import { nanoid } from 'nanoid'
 import { create } from 'zustand'
-import type { Project } from '../model/projectTypes'
+import type { Project, ProjectConfig } from '../model/projectTypes'
+import { createDefaultProjectConfig } from '../model/projectConfig'
 import * as repo from '../persistence/localStorageRepo'
-import {
-  defaultPreviewConfig,
-  normalizePreviewConfig,
-  type PreviewConfig,
-} from '../../preview/model/previewConfig'
 
 type ProjectState = {
   projects: Project[]
@@ -16,7 +12,7 @@ type ProjectState = {
   deleteProject: (id: string) => void
   setActiveProject: (id: string | null) => void
   updateProjectMeta: (id: string, patch: { name?: string }) => void
-  updateProjectConfig: (id: string, patch: Partial<PreviewConfig>) => void
+  updateProjectConfig: (id: string, patch: Partial<ProjectConfig>) => void
 }
 
 export const useProjectStore = create<ProjectState>((set, get) => ({
@@ -39,7 +35,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       name,
       createdAt: now,
       updatedAt: now,
-      config: { ...defaultPreviewConfig },
+      config: createDefaultProjectConfig(),
     }
 
     const saved = repo.create(newProject)
@@ -64,12 +60,12 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       projects: state.projects.map((p) => (p.id === id ? updated : p)),
     }))
   },
-  updateProjectConfig: (id: string, patch: Partial<PreviewConfig>) => {
+  updateProjectConfig: (id: string, patch: Partial<ProjectConfig>) => {
     const current = get().projects.find((p) => p.id === id)
     if (!current) return
 
-    const mergedConfig = {
-      ...normalizePreviewConfig(current.config),
+    const mergedConfig: ProjectConfig = {
+      ...current.config,
       ...patch,
     }
 
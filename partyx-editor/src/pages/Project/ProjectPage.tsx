@@ -3,7 +3,6 @@ import { Link, useParams } from 'react-router-dom'
 import useProjectStore from '../../editor/store/useProjectStore'
 import PreviewCanvas from '../../preview/components/PreviewCanvas'
 import ParametersPanel from '../../preview/components/ParametersPanel'
-import { normalizePreviewConfig } from '../../preview/model/previewConfig'
 
 function ProjectPage() {
   const { id } = useParams<{ id: string }>()
@@ -23,7 +22,6 @@ function ProjectPage() {
   }, [id, setActiveProject])
 
   const project = useMemo(() => projects.find((p) => p.id === id) ?? null, [projects, id])
-  const previewConfig = useMemo(() => normalizePreviewConfig(project?.config), [project?.config])
 
   if (!project) {
     return (
@@ -60,10 +58,10 @@ function ProjectPage() {
 
         <div className="grid grid-cols-1 gap-6 lg:grid-cols-[1fr_360px]">
           <div className="min-h-[420px]">
-            <PreviewCanvas config={previewConfig} />
+            <PreviewCanvas config={project.config} />
           </div>
           <div className="min-h-[420px]">
-            <ParametersPanel projectId={project.id} config={previewConfig} />
+            <ParametersPanel projectId={project.id} config={project.config} />
           </div>
         </div>
       </div>
@@ -1,29 +1,110 @@
-import type { Application } from 'pixi.js'
-import { ParticleEmitter } from 'partyx-library'
-import type { ParticleEmitterOptions } from 'partyx-library'
-import type { PreviewConfig } from 'src/preview/model/previewConfig'
+import type { Application, Texture } from 'pixi.js'
+import { Graphics } from 'pixi.js'
+import {
+  ParticleEmitter,
+  ParticleRegistry,
+  configToEmitterOptions,
+  parseEmitterConfig,
+} from 'partyx-library'
+import type {
+  ParticleEmitterConfig,
+  ParticleEmitterConfigUpdate,
+  ParticleEmitterOptions,
+} from 'partyx-library'
+import { DEFAULT_PARTICLE_TEXTURE } from '../editor/model/defaultEmitterConfig'
 
 export class PartyxHandler {
   private emitter?: ParticleEmitter
+  private app?: Application
+  private config?: ParticleEmitterConfig
+  private options?: ParticleEmitterOptions
+  private defaultTexture?: Texture
+  private readonly registry = new ParticleRegistry()
+  private readonly origin = { x: 0, y: 0 }
 
-  public async attach(app: Application, emitterOptions: PreviewConfig): Promise<ParticleEmitter> {
+  public async attach(
+    app: Application,
+    emitterConfig: ParticleEmitterConfig,
+  ): Promise<ParticleEmitter> {
     if (this.emitter) {
       return this.emitter
     }
-    this.emitter = new ParticleEmitter(emitterOptions)
-    app.stage.addChild(this.emitter)
+    this.app = app
+    this.registerDefaultTexture(app)
+
+    this.options = this.resolveOptions(emitterConfig)
+    this.emitter = this.createEmitter(this.options)
+    this.config = emitterConfig
 
     return this.emitter
   }
 
-  public async updateConfig(emitterOptions: PreviewConfig): Promise<void> {
-    if (!this.emitter) {
+  public async updateConfig(emitterConfig: ParticleEmitterConfig): Promise<void> {
+    if (!this.app || !this.emitter) {
       throw new Error('Emitter not initialized. Call attach() first.')
     }
+    if (emitterConfig === this.config) {
+      return
+    }
+
+    // Keep the running emitter if the new config can't be loaded
+    let options: ParticleEmitterOptions
+    try {
+      options = this.resolveOptions(emitterConfig)
+    } catch (error) {
+      console.error('Failed to apply emitter config', error)
+      return
+    }
 
-    //Handle config updates here
+    if (options.ClassType !== this.options?.ClassType || options.seed !== this.options.seed) {
+      // The pool is tied to the particle class and the random sequence to the seed,
+      // a new emitter is needed
+      this.emitter.destroy()
+      this.emitter = this.createEmitter(options)
+    } else {
+      try {
+        this.emitter.updateConfig(
+          {
+            spawnOptions: diffPatch(
+              this.options.spawnOptions,
+              options.spawnOptions,
+            ) as ParticleEmitterConfigUpdate['spawnOptions'],
+            updateOptions: diffPatch(
+              this.options.updateOptions,
+              options.updateOptions,
+            ) as ParticleEmitterConfigUpdate['updateOptions'],
+            initialSize: options.initialSize,
+            maxParticles: options.maxParticles ?? -1,
+            contentFrame: options.contentFrame ?? null,
+          },
+          'all',
+        )
+      } catch (error) {
+        console.error('Failed to apply emitter config', error)
+        return
+      }
+    }
+
+    this.options = options
+    this.config = emitterConfig
+  }
 
-    //this.emitter.updateConfig(emitterOptions);
+  /**
+   * Move the emitter to a point of the stage (e.g. the center of the preview).
+   */
+  public setOrigin(x: number, y: number) {
+    this.origin.x = x
+    this.origin.y = y
+    this.emitter?.position.set(x, y)
+  }
+
+  /**
+   * Restart the emitter from scratch, replaying its burst schedule.
+   */
+  public restart() {
+    if (!this.emitter) return
+    this.emitter.stop()
+    this.emitter.start(true)
   }
 
   public destroy(): void {
@@ -31,5 +112,68 @@ export class PartyxHandler {
       this.emitter.destroy()
       this.emitter = undefined
     }
+    this.defaultTexture?.destroy(true)
+    this.defaultTexture = undefined
+    this.config = undefined
+    this.options = undefined
+    this.app = undefined
+  }
+
+  private resolveOptions(emitterConfig: ParticleEmitterConfig): ParticleEmitterOptions {
+    const options = configToEmitterOptions(parseEmitterConfig(emitterConfig), this.registry)
+    options.ticker = this.app!.ticker
+    return options
+  }
+
+  private createEmitter(options: ParticleEmitterOptions): ParticleEmitter {
+    const emitter = new ParticleEmitter(options)
+    emitter.position.set(this.origin.x, this.origin.y)
+    this.app!.stage.addChild(emitter)
+    emitter.start(true)
+
+    return emitter
   }
+
+  private registerDefaultTexture(app: Application) {
+    const dot = new Graphics().circle(0, 0, 8).fill(0xffffff)
+    this.defaultTexture = app.renderer.generateTexture(dot)
+    dot.destroy()
+
+    this.registry.registerTexture(DEFAULT_PARTICLE_TEXTURE, this.defaultTexture)
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEqual(value, b[index]))
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length && keys.every(key => isEqual(a[key], b[key]))
+  }
+  return false
 }
+
+/**
+ * Build the smallest patch for `ParticleEmitter.updateConfig()` that turns `prev` into `next`:
+ * unchanged keys are left out and keys missing from `next` are sent as `undefined` so the
+ * deep merge removes them.
+ */
+const diffPatch = (prev: unknown, next: unknown): unknown => {
+  if (!isPlainObject(prev) || !isPlainObject(next)) return next
+
+  const patch: Record<string, unknown> = {}
+  for (const key of Object.keys(prev)) {
+    if (!(key in next)) patch[key] = undefined
+  }
+  for (const [key, value] of Object.entries(next)) {
+    if (!isEqual(prev[key], value)) patch[key] = diffPatch(prev[key], value)
+  }
+  return patch
+}
+
+export default PartyxHandler
@@ -1,20 +1,79 @@
-import type { PreviewConfig } from '../model/previewConfig'
+import type {
+  ParticleOverflowPolicy,
+  ParticleRectangleConfig,
+  ParticleSpace,
+  ParticleSpawnConfig,
+  ParticleUpdateOptions,
+} from 'partyx-library'
+import type { ProjectConfig } from '../../editor/model/projectTypes'
 import useProjectStore from '../../editor/store/useProjectStore'
+import AlphaFields from './parameters/AlphaFields'
+import BoundaryFields from './parameters/BoundaryFields'
+import BurstsFields from './parameters/BurstsFields'
+import CollidersFields from './parameters/CollidersFields'
+import ColorFields from './parameters/ColorFields'
+import EmissionShapeFields from './parameters/EmissionShapeFields'
+import FixedStepFields from './parameters/FixedStepFields'
+import ForceFieldsFields from './parameters/ForceFieldsFields'
+import NumberField from './parameters/NumberField'
+import PolarVelocityFields from './parameters/PolarVelocityFields'
+import RangeField from './parameters/RangeField'
+import ScaleFields from './parameters/ScaleFields'
+import SelectField from './parameters/SelectField'
+import Section from './parameters/Section'
+import SubEmittersFields from './parameters/SubEmittersFields'
+import TrailFields from './parameters/TrailFields'
+import Vector1PhysicsFields from './parameters/Vector1PhysicsFields'
+import Vector2PhysicsFields from './parameters/Vector2PhysicsFields'
+import { labelClassName } from './parameters/fieldStyles'
+import { withKey } from './parameters/withKey'
 
 type ParametersPanelProps = {
   projectId: string
-  config: PreviewConfig
+  config: ProjectConfig
 }
 
+type Environment = NonNullable<ParticleUpdateOptions['environment']>
+
 function ParametersPanel({ projectId, config }: ParametersPanelProps) {
-  const updateProjectConfig = useProjectStore((state) => state.updateProjectConfig)
+  const updateProjectConfig = useProjectStore(state => state.updateProjectConfig)
+  const emitter = config.emitter
+  const spawnOptions = emitter.spawnOptions
+  const updateOptions = emitter.updateOptions
+  const environment = updateOptions.environment ?? {}
+  const contentFrame = emitter.contentFrame
 
   const handleBackgroundChange = (value: string) => {
-    updateProjectConfig(projectId, { backgroundColor: value })
+    updateProjectConfig(projectId, { preview: { ...config.preview, backgroundColor: value } })
+  }
+
+  const setSpawn = <K extends keyof ParticleSpawnConfig>(
+    key: K,
+    value: ParticleSpawnConfig[K] | undefined,
+  ) => {
+    updateProjectConfig(projectId, {
+      emitter: { ...emitter, spawnOptions: withKey(spawnOptions, key, value) },
+    })
+  }
+
+  const setUpdate = <K extends keyof ParticleUpdateOptions>(
+    key: K,
+    value: ParticleUpdateOptions[K] | undefined,
+  ) => {
+    updateProjectConfig(projectId, {
+      emitter: { ...emitter, updateOptions: withKey(updateOptions, key, value) },
+    })
+  }
+
+  const setContentFrame = (value: ParticleRectangleConfig | undefined) => {
+    updateProjectConfig(projectId, { emitter: withKey(emitter, 'contentFrame', value) })
   }
 
-  const handleSpeedChange = (value: number) => {
-    updateProjectConfig(projectId, { rotationSpeed: value })
+  const setEnvironment = <K extends keyof Environment>(
+    key: K,
+    value: Environment[K] | undefined,
+  ) => {
+    setUpdate('environment', withKey(environment, key, value))
   }
 
   return (
@@ -30,34 +89,255 @@ function ParametersPanel({ projectId, config }: ParametersPanelProps) {
           <div className="mt-2 flex items-center gap-3">
             <input
               type="color"
-              value={config.backgroundColor}
-              onChange={(e) => handleBackgroundChange(e.target.value)}
+              value={config.preview.backgroundColor}
+              onChange={e => handleBackgroundChange(e.target.value)}
               className="h-10 w-14 cursor-pointer rounded border border-slate-200 bg-white"
             />
             <input
               type="text"
-              value={config.backgroundColor}
-              onChange={(e) => handleBackgroundChange(e.target.value)}
+              value={config.preview.backgroundColor}
+              onChange={e => handleBackgroundChange(e.target.value)}
               className="flex-1 rounded border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:border-indigo-400 focus:outline-none focus:ring-2 focus:ring-indigo-100"
             />
           </div>
         </label>
+      </div>
 
-        <label className="block text-sm font-medium text-slate-700">
-          Rotation speed
-          <div className="mt-2">
+      <div className="space-y-2 overflow-y-auto">
+        <Section title="Position" defaultOpen>
+          <Vector2PhysicsFields
+            value={spawnOptions.position}
+            onChange={value => setSpawn('position', value)}
+          />
+          <PolarVelocityFields
+            value={spawnOptions.position}
+            onChange={value => setSpawn('position', value)}
+          />
+          <SelectField<ParticleSpace>
+            label="Space"
+            value={updateOptions.space ?? 'local'}
+            options={[
+              { value: 'local', label: 'Local (move with the emitter)' },
+              { value: 'world', label: 'World (stay behind)' },
+            ]}
+            onChange={value => setUpdate('space', value === 'local' ? undefined : value)}
+          />
+        </Section>
+
+        <Section title="Emission shape">
+          <EmissionShapeFields
+            value={spawnOptions.emissionShape}
+            onChange={value => setSpawn('emissionShape', value)}
+          />
+        </Section>
+
+        <Section title="Scale">
+          <ScaleFields value={spawnOptions.scale} onChange={value => setSpawn('scale', value)} />
+        </Section>
+
+        <Section title="Rotation">
+          <label className="flex items-center justify-between gap-2">
+            <span className={labelClassName}>Enabled (radians)</span>
             <input
-              type="range"
-              min="0"
-              max="3"
-              step="0.1"
-              value={config.rotationSpeed}
-              onChange={(e) => handleSpeedChange(Number.parseFloat(e.target.value))}
-              className="w-full"
+              type="checkbox"
+              checked={spawnOptions.rotation !== undefined}
+              onChange={e => setSpawn('rotation', e.target.checked ? { value: 0 } : undefined)}
+            />
+          </label>
+          {spawnOptions.rotation && (
+            <Vector1PhysicsFields
+              value={spawnOptions.rotation}
+              step={0.1}
+              onChange={value => setSpawn('rotation', value)}
+            />
+          )}
+        </Section>
+
+        <Section title="Alpha">
+          <AlphaFields value={spawnOptions.alpha} onChange={value => setSpawn('alpha', value)} />
+        </Section>
+
+        <Section title="Color">
+          <ColorFields value={spawnOptions.color} onChange={value => setSpawn('color', value)} />
+        </Section>
+
+        <Section title="Lifespan">
+          <RangeField
+            label="Lifespan (seconds)"
+            value={spawnOptions.lifespan}
+            step={0.1}
+            optional
+            defaultValue={1}
+            onChange={value => setSpawn('lifespan', value)}
+          />
+        </Section>
+
+        <Section title="Spawn rate">
+          <Vector1PhysicsFields
+            value={updateOptions.spawnRate}
+            onChange={value => setUpdate('spawnRate', value)}
+          />
+          <SelectField<ParticleOverflowPolicy>
+            label="When full"
+            value={updateOptions.overflow ?? 'drop'}
+            options={[
+              { value: 'drop', label: 'Drop new particles' },
+              { value: 'oldest', label: 'Recycle the oldest' },
+              { value: 'closestToDeath', label: 'Recycle the closest to death' },
+              { value: 'random', label: 'Recycle a random one' },
+            ]}
+            onChange={value => setUpdate('overflow', value === 'drop' ? undefined : value)}
+          />
+        </Section>
+
+        <Section title="Bursts">
+          <BurstsFields
+            value={updateOptions.bursts}
+            onChange={value => setUpdate('bursts', value)}
+          />
+        </Section>
+
+        <Section title="Timing">
+          <NumberField
+            label="Update interval (ms)"
+            value={updateOptions.interval}
+            min={0}
+            onChange={value => setUpdate('interval', value ?? 0)}
+          />
+          <FixedStepFields
+            value={updateOptions.fixedStep}
+            onChange={value => setUpdate('fixedStep', value)}
+          />
+          <NumberField
+            label="Spawn duration (ms)"
+            value={updateOptions.spawnDuration}
+            min={0}
+            optional
+            defaultValue={1000}
+            onChange={value => setUpdate('spawnDuration', value)}
+          />
+          <NumberField
+            label="Prewarm (s)"
+            value={updateOptions.prewarm}
+            step={0.5}
+            min={0}
+            optional
+            defaultValue={2}
+            onChange={value => setUpdate('prewarm', value)}
+          />
+          <NumberField
+            label="Random seed"
+            value={emitter.seed}
+            min={0}
+            optional
+            onChange={value =>
+              updateProjectConfig(projectId, { emitter: withKey(emitter, 'seed', value) })
+            }
+          />
+        </Section>
+
+        <Section title="Environment">
+          <label className="flex items-center justify-between gap-2">
+            <span className={labelClassName}>Affected by particle surface</span>
+            <input
+              type="checkbox"
+              checked={environment.affectSurface ?? false}
+              onChange={e => setEnvironment('affectSurface', e.target.checked || undefined)}
+            />
+          </label>
+          <NumberField
+            label="Gravity"
+            value={environment.gravity}
+            optional
+            onChange={value => setEnvironment('gravity', value)}
+          />
+          <NumberField
+            label="Air resistance"
+            value={environment.airResistance}
+            step={0.1}
+            optional
+            onChange={value => setEnvironment('airResistance', value)}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              label="Wind X"
+              value={environment.windX}
+              optional
+              onChange={value => setEnvironment('windX', value)}
+            />
+            <NumberField
+              label="Wind Y"
+              value={environment.windY}
+              optional
+              onChange={value => setEnvironment('windY', value)}
             />
-            <div className="mt-1 text-xs text-slate-500">{config.rotationSpeed.toFixed(2)}x</div>
           </div>
-        </label>
+        </Section>
+
+        <Section title="Force fields">
+          <ForceFieldsFields
+            value={updateOptions.forceFields}
+            onChange={value => setUpdate('forceFields', value)}
+          />
+        </Section>
+
+        <Section title="Collisions">
+          <label className="flex items-center justify-between gap-2">
+            <span className={labelClassName}>Content frame</span>
+            <input
+              type="checkbox"
+              checked={contentFrame !== undefined}
+              onChange={e =>
+                setContentFrame(
+                  e.target.checked ? { x: -300, y: -300, width: 600, height: 600 } : undefined,
+                )
+              }
+            />
+          </label>
+          {contentFrame && (
+            <div className="grid grid-cols-2 gap-2">
+              {(['x', 'y', 'width', 'height'] as const).map(key => (
+                <NumberField
+                  key={key}
+                  label={key}
+                  value={contentFrame[key]}
+                  onChange={value => setContentFrame({ ...contentFrame, [key]: value ?? 0 })}
+                />
+              ))}
+            </div>
+          )}
+          <BoundaryFields
+            value={updateOptions.boundary}
+            onChange={value => setUpdate('boundary', value)}
+          />
+          <RangeField
+            label="Particle collision radius"
+            value={spawnOptions.collisionRadius}
+            optional
+            defaultValue={4}
+            onChange={value => setSpawn('collisionRadius', value)}
+          />
+          <CollidersFields
+            value={updateOptions.colliders}
+            onChange={value => setUpdate('colliders', value)}
+          />
+        </Section>
+
+        <Section title="Sub-emitters">
+          <SubEmittersFields
+            value={spawnOptions.subEmitters}
+            texture={spawnOptions.texture}
+            onChange={value => setSpawn('subEmitters', value)}
+          />
+        </Section>
+
+        <Section title="Trail">
+          <TrailFields
+            value={spawnOptions.trail}
+            texture={spawnOptions.texture}
+            onChange={value => setSpawn('trail', value)}
+          />
+        </Section>
       </div>
     </div>
   )
@@ -1,10 +1,10 @@
 import { useEffect, useRef } from 'react'
-import type { PreviewConfig } from '../model/previewConfig'
+import type { ProjectConfig } from '../../editor/model/projectTypes'
 import PixiAppHost from '../pixi/PixiAppHost'
 import PartyxAdapter from '../../partyx/PartyxHandler'
 
 type PreviewCanvasProps = {
-  config: PreviewConfig
+  config: ProjectConfig
 }
 
 function PreviewCanvas({ config }: PreviewCanvasProps) {
@@ -36,6 +36,13 @@ function PreviewCanvas({ config }: PreviewCanvasProps) {
       <div className="pointer-events-none absolute left-3 top-3 rounded bg-slate-800/70 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate-200">
         Preview
       </div>
+      <button
+        type="button"
+        onClick={() => adapterRef.current.restart()}
+        className="absolute right-3 top-3 rounded bg-slate-800/70 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate-200 hover:bg-slate-700"
+      >
+        Replay
+      </button>
     </div>
   )
 }
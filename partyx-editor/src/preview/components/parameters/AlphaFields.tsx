@@ -0,0 +1,52 @@
+import type { ParticleSpawnConfig } from 'partyx-library'
+import KeyframesFields from './KeyframesFields'
+import SelectField from './SelectField'
+import StartEndFields from './StartEndFields'
+
+type AlphaValue = ParticleSpawnConfig['alpha']
+type AlphaMode = 'none' | 'startEnd' | 'curve'
+
+type AlphaFieldsProps = {
+  value: AlphaValue
+  onChange: (value: AlphaValue) => void
+}
+
+const getAlphaMode = (value: AlphaValue): AlphaMode => {
+  if (value === undefined) return 'none'
+  if ('keyframes' in value) return 'curve'
+  return 'startEnd'
+}
+
+const alphaDefaults: Record<AlphaMode, AlphaValue> = {
+  none: undefined,
+  startEnd: { start: 1, end: 0 },
+  curve: {
+    keyframes: [
+      { time: 0, value: 0 },
+      { time: 0.2, value: 1 },
+      { time: 0.8, value: 1 },
+      { time: 1, value: 0 },
+    ],
+  },
+}
+
+function AlphaFields({ value, onChange }: AlphaFieldsProps) {
+  return (
+    <>
+      <SelectField
+        label="Mode"
+        value={getAlphaMode(value)}
+        options={[
+          { value: 'none', label: 'Opaque' },
+          { value: 'startEnd', label: 'Start → end' },
+          { value: 'curve', label: 'Curve' },
+        ]}
+        onChange={next => onChange(alphaDefaults[next])}
+      />
+      {value && 'keyframes' in value && <KeyframesFields value={value} onChange={onChange} />}
+      {value && 'start' in value && <StartEndFields value={value} onChange={onChange} />}
+    </>
+  )
+}
+
+export default AlphaFields
@@ -0,0 +1,95 @@
+import type {
+  ParticleBoundaryBehavior,
+  ParticleBoundaryEdgeName,
+  ParticleBoundaryOptions,
+} from 'partyx-library'
+import NumberField from './NumberField'
+import SelectField from './SelectField'
+import { labelClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type BoundaryFieldsProps = {
+  value: ParticleBoundaryOptions | undefined
+  onChange: (value: ParticleBoundaryOptions | undefined) => void
+}
+
+const behaviorOptions: { value: ParticleBoundaryBehavior; label: string }[] = [
+  { value: 'kill', label: 'Kill' },
+  { value: 'bounce', label: 'Bounce' },
+  { value: 'wrap', label: 'Wrap around' },
+  { value: 'clamp', label: 'Clamp (slide)' },
+  { value: 'stick', label: 'Stick' },
+  { value: 'none', label: 'None' },
+]
+
+const edges: ParticleBoundaryEdgeName[] = ['left', 'right', 'top', 'bottom']
+
+/**
+ * Editor for the content frame boundary: a behavior for all edges, overridable per edge.
+ */
+function BoundaryFields({ value, onChange }: BoundaryFieldsProps) {
+  const set = <K extends keyof ParticleBoundaryOptions>(
+    key: K,
+    next: ParticleBoundaryOptions[K] | undefined,
+  ) => {
+    if (value) onChange(withKey(value, key, next))
+  }
+
+  return (
+    <>
+      <label className="flex items-center justify-between gap-2">
+        <span className={labelClassName}>Edge behaviors (kill when fully outside otherwise)</span>
+        <input
+          type="checkbox"
+          checked={value !== undefined}
+          onChange={e => onChange(e.target.checked ? { behavior: 'bounce' } : undefined)}
+        />
+      </label>
+      {value && (
+        <>
+          <SelectField
+            label="All edges"
+            value={value.behavior ?? 'kill'}
+            options={behaviorOptions}
+            onChange={next => set('behavior', next)}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {edges.map(edge => {
+              const option = value[edge]
+              return (
+                <SelectField<ParticleBoundaryBehavior | 'inherit'>
+                  key={edge}
+                  label={edge}
+                  value={(typeof option === 'string' ? option : option?.behavior) ?? 'inherit'}
+                  options={[{ value: 'inherit', label: 'Same as all edges' }, ...behaviorOptions]}
+                  onChange={next => set(edge, next === 'inherit' ? undefined : next)}
+                />
+              )
+            })}
+            <NumberField
+              label="Restitution"
+              value={value.restitution}
+              min={0}
+              max={1}
+              step={0.05}
+              optional
+              defaultValue={1}
+              onChange={next => set('restitution', next)}
+            />
+            <NumberField
+              label="Friction"
+              value={value.friction}
+              min={0}
+              max={1}
+              step={0.05}
+              optional
+              onChange={next => set('friction', next)}
+            />
+          </div>
+        </>
+      )}
+    </>
+  )
+}
+
+export default BoundaryFields
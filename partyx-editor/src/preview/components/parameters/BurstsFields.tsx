@@ -0,0 +1,82 @@
+import type { ParticleBurst } from 'partyx-library'
+import NumberField from './NumberField'
+import RangeField from './RangeField'
+import { toggleClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type BurstsFieldsProps = {
+  value: ParticleBurst[] | undefined
+  onChange: (value: ParticleBurst[] | undefined) => void
+}
+
+/**
+ * Editor for the burst schedule: one group of fields per burst.
+ */
+function BurstsFields({ value = [], onChange }: BurstsFieldsProps) {
+  const setBurst = (index: number, burst: ParticleBurst) =>
+    onChange(value.map((b, i) => (i === index ? burst : b)))
+
+  const removeBurst = (index: number) => {
+    const next = value.filter((_, i) => i !== index)
+    onChange(next.length ? next : undefined)
+  }
+
+  return (
+    <div className="space-y-3">
+      {value.map((burst, index) => (
+        <div key={index} className="space-y-2 rounded border border-slate-100 p-2">
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              label="Time (ms)"
+              value={burst.time}
+              min={0}
+              onChange={next => setBurst(index, { ...burst, time: next ?? 0 })}
+            />
+            <RangeField
+              label="Count"
+              value={burst.count}
+              onChange={next => setBurst(index, { ...burst, count: next ?? 0 })}
+            />
+            <NumberField
+              label="Repeat (-1 forever)"
+              value={burst.repeat}
+              min={-1}
+              optional
+              onChange={next => setBurst(index, withKey(burst, 'repeat', next))}
+            />
+            <NumberField
+              label="Interval (ms)"
+              value={burst.interval}
+              min={0}
+              optional
+              defaultValue={500}
+              onChange={next => setBurst(index, withKey(burst, 'interval', next))}
+            />
+            <NumberField
+              label="Probability"
+              value={burst.probability}
+              min={0}
+              max={1}
+              step={0.05}
+              optional
+              defaultValue={1}
+              onChange={next => setBurst(index, withKey(burst, 'probability', next))}
+            />
+          </div>
+          <button type="button" onClick={() => removeBurst(index)} className={toggleClassName}>
+            Remove burst
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...value, { time: 0, count: 20 }])}
+        className={toggleClassName}
+      >
+        Add burst
+      </button>
+    </div>
+  )
+}
+
+export default BurstsFields
@@ -0,0 +1,123 @@
+import type { ParticleColliderBehavior, ParticleColliderOptions } from 'partyx-library'
+import NumberField from './NumberField'
+import PointsField from './PointsField'
+import SelectField from './SelectField'
+import { toggleClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type ColliderType = 'rectangle' | 'circle' | 'line' | 'polygon'
+
+type CollidersFieldsProps = {
+  value: ParticleColliderOptions[] | undefined
+  onChange: (value: ParticleColliderOptions[] | undefined) => void
+}
+
+const colliderDefaults: Record<ColliderType, ParticleColliderOptions> = {
+  rectangle: { type: 'rectangle', x: -150, y: 150, width: 300, height: 40 },
+  circle: { type: 'circle', x: 0, y: 150, radius: 50 },
+  line: { type: 'line', x1: -200, y1: 150, x2: 200, y2: 150 },
+  polygon: { type: 'polygon', points: [-200, 150, 200, 150, 0, 250] },
+}
+
+const numberKeys: Record<ColliderType, string[]> = {
+  rectangle: ['x', 'y', 'width', 'height'],
+  circle: ['x', 'y', 'radius'],
+  line: ['x1', 'y1', 'x2', 'y2'],
+  polygon: [],
+}
+
+/**
+ * Editor for the collider list: one group of fields per collider.
+ */
+function CollidersFields({ value = [], onChange }: CollidersFieldsProps) {
+  const setCollider = (index: number, collider: ParticleColliderOptions) =>
+    onChange(value.map((c, i) => (i === index ? collider : c)))
+
+  const removeCollider = (index: number) => {
+    const next = value.filter((_, i) => i !== index)
+    onChange(next.length ? next : undefined)
+  }
+
+  return (
+    <div className="space-y-3">
+      {value.map((collider, index) => {
+        const type = collider.type as ColliderType
+        const fields = collider as Record<string, unknown>
+        const set = (key: string, next: unknown) =>
+          setCollider(index, withKey(fields, key, next) as ParticleColliderOptions)
+
+        return (
+          <div key={index} className="space-y-2 rounded border border-slate-100 p-2">
+            <div className="grid grid-cols-2 gap-2">
+              <SelectField<ColliderType>
+                label="Shape"
+                value={type}
+                options={[
+                  { value: 'rectangle', label: 'Rectangle' },
+                  { value: 'circle', label: 'Circle' },
+                  { value: 'line', label: 'Line' },
+                  { value: 'polygon', label: 'Polygon' },
+                ]}
+                onChange={next => setCollider(index, colliderDefaults[next])}
+              />
+              <SelectField<ParticleColliderBehavior>
+                label="On contact"
+                value={collider.behavior ?? 'bounce'}
+                options={[
+                  { value: 'bounce', label: 'Bounce' },
+                  { value: 'kill', label: 'Kill' },
+                ]}
+                onChange={next => set('behavior', next === 'bounce' ? undefined : next)}
+              />
+              {numberKeys[type]?.map(key => (
+                <NumberField
+                  key={key}
+                  label={key}
+                  value={fields[key] as number | undefined}
+                  onChange={next => set(key, next ?? 0)}
+                />
+              ))}
+              <NumberField
+                label="Restitution"
+                value={collider.restitution}
+                min={0}
+                max={1}
+                step={0.05}
+                optional
+                defaultValue={1}
+                onChange={next => set('restitution', next)}
+              />
+              <NumberField
+                label="Friction"
+                value={collider.friction}
+                min={0}
+                max={1}
+                step={0.05}
+                optional
+                onChange={next => set('friction', next)}
+              />
+            </div>
+            {type === 'polygon' && (
+              <PointsField
+                points={fields.points as number[]}
+                onChange={points => set('points', points)}
+              />
+            )}
+            <button type="button" onClick={() => removeCollider(index)} className={toggleClassName}>
+              Remove collider
+            </button>
+          </div>
+        )
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...value, colliderDefaults.rectangle])}
+        className={toggleClassName}
+      >
+        Add collider
+      </button>
+    </div>
+  )
+}
+
+export default CollidersFields
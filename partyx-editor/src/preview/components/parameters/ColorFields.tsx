@@ -0,0 +1,94 @@
+import type { ParticleSpawnConfig } from 'partyx-library'
+import ColorInput from './ColorInput'
+import GradientFields from './GradientFields'
+import SelectField from './SelectField'
+import StartEndFields from './StartEndFields'
+import { toggleClassName } from './fieldStyles'
+
+type ColorValue = ParticleSpawnConfig['color']
+type ColorMode = 'none' | 'single' | 'list' | 'startEnd' | 'gradient'
+
+type ColorFieldsProps = {
+  value: ColorValue
+  onChange: (value: ColorValue) => void
+}
+
+const getColorMode = (value: ColorValue): ColorMode => {
+  if (value === undefined) return 'none'
+  if (typeof value === 'number') return 'single'
+  if (Array.isArray(value)) return 'list'
+  if ('gradient' in value) return 'gradient'
+  return 'startEnd'
+}
+
+const colorDefaults: Record<ColorMode, ColorValue> = {
+  none: undefined,
+  single: 0xffffff,
+  list: [0xffffff, 0xfde047],
+  startEnd: { start: 0xffffff, end: 0x000000 },
+  gradient: {
+    gradient: [
+      { time: 0, color: 0xfde047 },
+      { time: 0.4, color: 0xf97316 },
+      { time: 0.7, color: 0xef4444 },
+      { time: 1, color: 0x6b7280 },
+    ],
+  },
+}
+
+function ColorFields({ value, onChange }: ColorFieldsProps) {
+  const mode = getColorMode(value)
+
+  return (
+    <>
+      <SelectField
+        label="Mode"
+        value={mode}
+        options={[
+          { value: 'none', label: 'No tint' },
+          { value: 'single', label: 'Single color' },
+          { value: 'list', label: 'Random from list' },
+          { value: 'startEnd', label: 'Start → end' },
+          { value: 'gradient', label: 'Gradient' },
+        ]}
+        onChange={next => onChange(colorDefaults[next])}
+      />
+      {typeof value === 'number' && <ColorInput value={value} onChange={onChange} />}
+      {Array.isArray(value) && (
+        <div className="space-y-2">
+          {value.map((color, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <ColorInput
+                value={color}
+                onChange={next => onChange(value.map((c, i) => (i === index ? next : c)))}
+              />
+              <button
+                type="button"
+                disabled={value.length <= 1}
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className={toggleClassName}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange([...value, 0xffffff])}
+            className={toggleClassName}
+          >
+            Add color
+          </button>
+        </div>
+      )}
+      {value !== undefined && typeof value === 'object' && !Array.isArray(value) && (
+        <>
+          {'gradient' in value && <GradientFields value={value} onChange={onChange} />}
+          {'start' in value && <StartEndFields value={value} kind="color" onChange={onChange} />}
+        </>
+      )}
+    </>
+  )
+}
+
+export default ColorFields
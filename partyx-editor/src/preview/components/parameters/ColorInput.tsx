@@ -0,0 +1,22 @@
+type ColorInputProps = {
+  value: number
+  onChange: (value: number) => void
+}
+
+export const colorToHex = (color: number) =>
+  `#${Math.round(color).toString(16).padStart(6, '0').slice(-6)}`
+
+export const hexToColor = (hex: string) => Number.parseInt(hex.replace('#', ''), 16)
+
+function ColorInput({ value, onChange }: ColorInputProps) {
+  return (
+    <input
+      type="color"
+      value={colorToHex(value)}
+      onChange={e => onChange(hexToColor(e.target.value))}
+      className="h-8 w-full cursor-pointer rounded border border-slate-200 bg-white"
+    />
+  )
+}
+
+export default ColorInput
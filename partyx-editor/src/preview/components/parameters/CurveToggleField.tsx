@@ -0,0 +1,43 @@
+import type { ParticleOptionKeyframes } from 'partyx-library'
+import KeyframesFields from './KeyframesFields'
+import { labelClassName } from './fieldStyles'
+
+type CurveToggleFieldProps = {
+  label: string
+  value: ParticleOptionKeyframes | undefined
+  onChange: (value: ParticleOptionKeyframes | undefined) => void
+  defaultCurve?: ParticleOptionKeyframes
+}
+
+const flatCurve: ParticleOptionKeyframes = {
+  keyframes: [
+    { time: 0, value: 1 },
+    { time: 1, value: 1 },
+  ],
+}
+
+/**
+ * Optional keyframe curve with an enable checkbox.
+ */
+function CurveToggleField({
+  label,
+  value,
+  onChange,
+  defaultCurve = flatCurve,
+}: CurveToggleFieldProps) {
+  return (
+    <div className="space-y-1">
+      <label className="flex items-center justify-between gap-2">
+        <span className={labelClassName}>{label}</span>
+        <input
+          type="checkbox"
+          checked={value !== undefined}
+          onChange={e => onChange(e.target.checked ? defaultCurve : undefined)}
+        />
+      </label>
+      {value && <KeyframesFields value={value} onChange={onChange} />}
+    </div>
+  )
+}
+
+export default CurveToggleField
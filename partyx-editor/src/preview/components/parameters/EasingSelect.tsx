@@ -0,0 +1,26 @@
+import { easings } from 'partyx-library'
+import { inputClassName } from './fieldStyles'
+
+type EasingSelectProps = {
+  value: string | undefined
+  onChange: (value: string | undefined) => void
+}
+
+function EasingSelect({ value, onChange }: EasingSelectProps) {
+  return (
+    <select
+      value={value ?? 'linear'}
+      onChange={e => onChange(e.target.value === 'linear' ? undefined : e.target.value)}
+      className={inputClassName}
+      aria-label="Easing"
+    >
+      {Object.keys(easings).map(name => (
+        <option key={name} value={name}>
+          {name}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export default EasingSelect
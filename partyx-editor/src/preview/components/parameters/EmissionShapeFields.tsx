@@ -0,0 +1,116 @@
+import type { ParticleEmissionShapeOptions } from 'partyx-library'
+import NumberField from './NumberField'
+import PointsField from './PointsField'
+import RangeField from './RangeField'
+import SelectField from './SelectField'
+import { labelClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type ShapeValue = ParticleEmissionShapeOptions | undefined
+type ShapeType = 'none' | 'point' | 'circle' | 'ring' | 'rectangle' | 'line' | 'polygon' | 'path'
+
+type EmissionShapeFieldsProps = {
+  value: ShapeValue
+  onChange: (value: ShapeValue) => void
+}
+
+const shapeDefaults: Record<ShapeType, ShapeValue> = {
+  none: undefined,
+  point: { type: 'point' },
+  circle: { type: 'circle', radius: 50 },
+  ring: { type: 'ring', radius: 80, innerRadius: 50 },
+  rectangle: { type: 'rectangle', width: 200, height: 100 },
+  line: { type: 'line', x1: -100, y1: 0, x2: 100, y2: 0 },
+  polygon: { type: 'polygon', points: [0, -80, 76, -25, 47, 65, -47, 65, -76, -25] },
+  path: { type: 'path', points: [-150, 0, -75, -100, 75, 100, 150, 0] },
+}
+
+const numberKeys: Partial<Record<ShapeType, string[]>> = {
+  circle: ['radius'],
+  ring: ['radius', 'innerRadius'],
+  rectangle: ['width', 'height'],
+  line: ['x1', 'y1', 'x2', 'y2'],
+  path: ['samples'],
+}
+
+function EmissionShapeFields({ value, onChange }: EmissionShapeFieldsProps) {
+  const type = (value?.type ?? 'none') as ShapeType
+  const shape = value as Record<string, unknown> | undefined
+
+  const set = (key: string, next: unknown) => {
+    if (value) onChange(withKey(value as Record<string, unknown>, key, next) as ShapeValue)
+  }
+
+  return (
+    <>
+      <SelectField
+        label="Shape"
+        value={type}
+        options={[
+          { value: 'none', label: 'None (position only)' },
+          { value: 'point', label: 'Point' },
+          { value: 'circle', label: 'Circle' },
+          { value: 'ring', label: 'Ring' },
+          { value: 'rectangle', label: 'Rectangle' },
+          { value: 'line', label: 'Line' },
+          { value: 'polygon', label: 'Polygon' },
+          { value: 'path', label: 'Bezier path' },
+        ]}
+        onChange={next => onChange(shapeDefaults[next])}
+      />
+      {shape && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {numberKeys[type]?.map(key => (
+              <NumberField
+                key={key}
+                label={key}
+                value={shape[key] as number | undefined}
+                min={key === 'samples' ? 1 : undefined}
+                optional={key === 'samples'}
+                defaultValue={16}
+                onChange={next => set(key, next)}
+              />
+            ))}
+          </div>
+          {(type === 'circle' || type === 'rectangle' || type === 'polygon') && (
+            <label className="flex items-center justify-between gap-2">
+              <span className={labelClassName}>Emit from edge only</span>
+              <input
+                type="checkbox"
+                checked={shape.edge === true}
+                onChange={e => set('edge', e.target.checked || undefined)}
+              />
+            </label>
+          )}
+          {(type === 'circle' || type === 'ring') && (
+            <label className="flex items-center justify-between gap-2">
+              <span className={labelClassName}>Uniform area distribution</span>
+              <input
+                type="checkbox"
+                checked={shape.uniform !== false}
+                onChange={e => set('uniform', e.target.checked ? undefined : false)}
+              />
+            </label>
+          )}
+          {(type === 'polygon' || type === 'path') && (
+            <PointsField
+              key={type}
+              points={shape.points as number[]}
+              onChange={points => set('points', points)}
+            />
+          )}
+          <RangeField
+            label="Outward velocity"
+            value={value?.normalVelocity}
+            optional
+            defaultValue={100}
+            onChange={next => set('normalVelocity', next)}
+          />
+        </>
+      )}
+    </>
+  )
+}
+
+export default EmissionShapeFields
@@ -0,0 +1,81 @@
+import type { ParticleFixedStepOptions, ParticleFixedStepPolicy } from 'partyx-library'
+import NumberField from './NumberField'
+import SelectField from './SelectField'
+import { labelClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type FixedStepFieldsProps = {
+  value: ParticleFixedStepOptions | undefined
+  onChange: (value: ParticleFixedStepOptions | undefined) => void
+}
+
+function FixedStepFields({ value, onChange }: FixedStepFieldsProps) {
+  const set = <K extends keyof ParticleFixedStepOptions>(
+    key: K,
+    next: ParticleFixedStepOptions[K] | undefined,
+  ) => {
+    if (value) onChange(withKey(value, key, next))
+  }
+
+  return (
+    <>
+      <label className="flex items-center justify-between gap-2">
+        <span className={labelClassName}>Fixed timestep</span>
+        <input
+          type="checkbox"
+          checked={value !== undefined}
+          onChange={e => onChange(e.target.checked ? { step: 1000 / 60 } : undefined)}
+        />
+      </label>
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              label="Step (ms)"
+              value={value.step}
+              min={1}
+              onChange={next => set('step', next ?? 1000 / 60)}
+            />
+            <NumberField
+              label="Max substeps"
+              value={value.maxSubsteps}
+              min={1}
+              optional
+              defaultValue={5}
+              onChange={next => set('maxSubsteps', next)}
+            />
+          </div>
+          <SelectField<ParticleFixedStepPolicy>
+            label="Dropped time"
+            value={value.dropPolicy ?? 'discard'}
+            options={[
+              { value: 'discard', label: 'Discard' },
+              { value: 'slowdown', label: 'Slow down and catch up' },
+            ]}
+            onChange={next => set('dropPolicy', next === 'discard' ? undefined : next)}
+          />
+          {value.dropPolicy === 'slowdown' && (
+            <NumberField
+              label="Max catch-up (ms)"
+              value={value.maxCatchUp}
+              min={0}
+              optional
+              defaultValue={value.step * (value.maxSubsteps ?? 5)}
+              onChange={next => set('maxCatchUp', next)}
+            />
+          )}
+          <label className="flex items-center justify-between gap-2">
+            <span className={labelClassName}>Interpolate between steps</span>
+            <input
+              type="checkbox"
+              checked={value.interpolate ?? false}
+              onChange={e => set('interpolate', e.target.checked || undefined)}
+            />
+          </label>
+        </>
+      )}
+    </>
+  )
+}
+
+export default FixedStepFields
@@ -0,0 +1,116 @@
+import type { ParticleForceFalloff, ParticleForceFieldOptions } from 'partyx-library'
+import NumberField from './NumberField'
+import SelectField from './SelectField'
+import { toggleClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type FieldType = 'attractor' | 'repulsor' | 'vortex' | 'directional' | 'turbulence'
+
+type ForceFieldsFieldsProps = {
+  value: ParticleForceFieldOptions[] | undefined
+  onChange: (value: ParticleForceFieldOptions[] | undefined) => void
+}
+
+const fieldDefaults: Record<FieldType, ParticleForceFieldOptions> = {
+  attractor: { type: 'attractor', x: 0, y: 0, strength: 500, radius: 300 },
+  repulsor: { type: 'repulsor', x: 0, y: 0, strength: 500, radius: 300 },
+  vortex: { type: 'vortex', x: 0, y: 0, strength: 500, radius: 300 },
+  directional: { type: 'directional', forceX: 200, forceY: 0 },
+  turbulence: { type: 'turbulence', strength: 300 },
+}
+
+const numberKeys: Record<FieldType, { key: string; optional?: boolean; step?: number }[]> = {
+  attractor: [{ key: 'x' }, { key: 'y' }, { key: 'strength' }, { key: 'radius', optional: true }],
+  repulsor: [{ key: 'x' }, { key: 'y' }, { key: 'strength' }, { key: 'radius', optional: true }],
+  vortex: [
+    { key: 'x' },
+    { key: 'y' },
+    { key: 'strength' },
+    { key: 'pull', optional: true },
+    { key: 'radius', optional: true },
+  ],
+  directional: [{ key: 'forceX' }, { key: 'forceY' }],
+  turbulence: [
+    { key: 'strength' },
+    { key: 'scale', optional: true, step: 0.001 },
+    { key: 'speed', optional: true, step: 0.1 },
+    { key: 'seed', optional: true },
+  ],
+}
+
+/**
+ * Editor for the force field list: one group of fields per force field.
+ */
+function ForceFieldsFields({ value = [], onChange }: ForceFieldsFieldsProps) {
+  const setField = (index: number, field: ParticleForceFieldOptions) =>
+    onChange(value.map((f, i) => (i === index ? field : f)))
+
+  const removeField = (index: number) => {
+    const next = value.filter((_, i) => i !== index)
+    onChange(next.length ? next : undefined)
+  }
+
+  return (
+    <div className="space-y-3">
+      {value.map((field, index) => {
+        const type = field.type as FieldType
+        const fields = field as Record<string, unknown>
+        const set = (key: string, next: unknown) =>
+          setField(index, withKey(fields, key, next) as ParticleForceFieldOptions)
+
+        return (
+          <div key={index} className="space-y-2 rounded border border-slate-100 p-2">
+            <div className="grid grid-cols-2 gap-2">
+              <SelectField<FieldType>
+                label="Type"
+                value={type}
+                options={[
+                  { value: 'attractor', label: 'Attractor' },
+                  { value: 'repulsor', label: 'Repulsor' },
+                  { value: 'vortex', label: 'Vortex' },
+                  { value: 'directional', label: 'Directional' },
+                  { value: 'turbulence', label: 'Turbulence' },
+                ]}
+                onChange={next => setField(index, fieldDefaults[next])}
+              />
+              {(type === 'attractor' || type === 'repulsor' || type === 'vortex') && (
+                <SelectField<ParticleForceFalloff>
+                  label="Falloff"
+                  value={(fields.falloff as ParticleForceFalloff | undefined) ?? 'quadratic'}
+                  options={[
+                    { value: 'quadratic', label: 'Quadratic' },
+                    { value: 'linear', label: 'Linear' },
+                    { value: 'none', label: 'None' },
+                  ]}
+                  onChange={next => set('falloff', next === 'quadratic' ? undefined : next)}
+                />
+              )}
+              {numberKeys[type]?.map(({ key, optional, step }) => (
+                <NumberField
+                  key={key}
+                  label={key}
+                  value={fields[key] as number | undefined}
+                  step={step}
+                  optional={optional}
+                  onChange={next => set(key, optional ? next : (next ?? 0))}
+                />
+              ))}
+            </div>
+            <button type="button" onClick={() => removeField(index)} className={toggleClassName}>
+              Remove force field
+            </button>
+          </div>
+        )
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...value, fieldDefaults.attractor])}
+        className={toggleClassName}
+      >
+        Add force field
+      </button>
+    </div>
+  )
+}
+
+export default ForceFieldsFields
@@ -0,0 +1,66 @@
+import type { ParticleColorStop, ParticleOptionGradient } from 'partyx-library'
+import ColorInput from './ColorInput'
+import EasingSelect from './EasingSelect'
+import NumberInput from './NumberInput'
+import { labelClassName, toggleClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type GradientFieldsProps = {
+  value: ParticleOptionGradient
+  onChange: (value: ParticleOptionGradient) => void
+}
+
+/**
+ * Editor for a multi-stop color gradient: one row per `{time, color, easing}` stop.
+ */
+function GradientFields({ value, onChange }: GradientFieldsProps) {
+  const stops = value.gradient
+
+  const setStop = (index: number, stop: ParticleColorStop) =>
+    onChange({ gradient: stops.map((s, i) => (i === index ? stop : s)) })
+
+  const addStop = () => {
+    const last = stops[stops.length - 1]
+    onChange({ gradient: [...stops, { time: 1, color: last?.color ?? 0xffffff }] })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+        <span className={labelClassName}>Time</span>
+        <span className={labelClassName}>Color</span>
+        <span className={labelClassName}>Easing</span>
+        <span />
+        {stops.map((stop, index) => (
+          <div key={index} className="contents">
+            <NumberInput
+              value={stop.time}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={time => setStop(index, { ...stop, time })}
+            />
+            <ColorInput value={stop.color} onChange={color => setStop(index, { ...stop, color })} />
+            <EasingSelect
+              value={typeof stop.easing === 'string' ? stop.easing : undefined}
+              onChange={easing => setStop(index, withKey(stop, 'easing', easing))}
+            />
+            <button
+              type="button"
+              disabled={stops.length <= 1}
+              onClick={() => onChange({ gradient: stops.filter((_, i) => i !== index) })}
+              className={toggleClassName}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+      <button type="button" onClick={addStop} className={toggleClassName}>
+        Add color stop
+      </button>
+    </div>
+  )
+}
+
+export default GradientFields
@@ -0,0 +1,70 @@
+import type { ParticleKeyframe, ParticleOptionKeyframes } from 'partyx-library'
+import EasingSelect from './EasingSelect'
+import NumberInput from './NumberInput'
+import { labelClassName, toggleClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type KeyframesFieldsProps = {
+  value: ParticleOptionKeyframes
+  onChange: (value: ParticleOptionKeyframes) => void
+  step?: number
+}
+
+/**
+ * Editor for a keyframe curve: one row per `{time, value, easing}` stop.
+ */
+function KeyframesFields({ value, onChange, step = 0.1 }: KeyframesFieldsProps) {
+  const keyframes = value.keyframes
+
+  const setKeyframe = (index: number, keyframe: ParticleKeyframe) =>
+    onChange({ keyframes: keyframes.map((k, i) => (i === index ? keyframe : k)) })
+
+  const addKeyframe = () => {
+    const last = keyframes[keyframes.length - 1]
+    onChange({ keyframes: [...keyframes, { time: 1, value: last?.value ?? 0 }] })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+        <span className={labelClassName}>Time</span>
+        <span className={labelClassName}>Value</span>
+        <span className={labelClassName}>Easing</span>
+        <span />
+        {keyframes.map((keyframe, index) => (
+          <div key={index} className="contents">
+            <NumberInput
+              value={keyframe.time}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={time => setKeyframe(index, { ...keyframe, time })}
+            />
+            <NumberInput
+              value={keyframe.value}
+              step={step}
+              onChange={value => setKeyframe(index, { ...keyframe, value })}
+            />
+            <EasingSelect
+              value={typeof keyframe.easing === 'string' ? keyframe.easing : undefined}
+              onChange={easing => setKeyframe(index, withKey(keyframe, 'easing', easing))}
+            />
+            <button
+              type="button"
+              disabled={keyframes.length <= 1}
+              onClick={() => onChange({ keyframes: keyframes.filter((_, i) => i !== index) })}
+              className={toggleClassName}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+      <button type="button" onClick={addKeyframe} className={toggleClassName}>
+        Add keyframe
+      </button>
+    </div>
+  )
+}
+
+export default KeyframesFields
@@ -0,0 +1,45 @@
+import NumberInput from './NumberInput'
+import { labelClassName } from './fieldStyles'
+
+type NumberFieldProps = {
+  label: string
+  value: number | undefined
+  onChange: (value: number | undefined) => void
+  optional?: boolean
+  step?: number
+  min?: number
+  max?: number
+  defaultValue?: number
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  optional = false,
+  step = 1,
+  min,
+  max,
+  defaultValue = 0,
+}: NumberFieldProps) {
+  const enabled = value !== undefined
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className={labelClassName}>{label}</span>
+        {optional && (
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={e => onChange(e.target.checked ? defaultValue : undefined)}
+            aria-label={`Enable ${label}`}
+          />
+        )}
+      </div>
+      {enabled && <NumberInput value={value} onChange={onChange} step={step} min={min} max={max} />}
+    </div>
+  )
+}
+
+export default NumberField
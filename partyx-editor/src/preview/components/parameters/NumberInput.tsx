@@ -0,0 +1,42 @@
+import { useState } from 'react'
+import { inputClassName } from './fieldStyles'
+
+type NumberInputProps = {
+  value: number
+  onChange: (value: number) => void
+  step?: number
+  min?: number
+  max?: number
+}
+
+const parseNumber = (raw: string): number | null => {
+  const value = Number.parseFloat(raw)
+  return Number.isFinite(value) ? value : null
+}
+
+/**
+ * Number input that keeps the typed text while it is being edited, so it can be cleared or start with `-`.
+ * Only valid numbers are committed; on blur the field shows the last committed value again.
+ */
+function NumberInput({ value, onChange, step = 1, min, max }: NumberInputProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  return (
+    <input
+      type="number"
+      value={draft ?? value}
+      step={step}
+      min={min}
+      max={max}
+      onChange={e => {
+        setDraft(e.target.value)
+        const parsed = parseNumber(e.target.value)
+        if (parsed !== null) onChange(parsed)
+      }}
+      onBlur={() => setDraft(null)}
+      className={inputClassName}
+    />
+  )
+}
+
+export default NumberInput
@@ -0,0 +1,49 @@
+import { useState } from 'react'
+import { inputClassName, labelClassName } from './fieldStyles'
+
+const formatPoints = (points: number[]) =>
+  points
+    .reduce<string[]>((pairs, value, index) => {
+      if (index % 2 === 0) pairs.push(`${value}, ${points[index + 1] ?? 0}`)
+      return pairs
+    }, [])
+    .join('\n')
+
+const parsePoints = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter(Number.isFinite)
+
+/**
+ * Editor for a flat list of points, as one `x, y` pair per line. Applied on blur.
+ */
+function PointsField({
+  points,
+  onChange,
+}: {
+  points: number[]
+  onChange: (points: number[]) => void
+}) {
+  const [text, setText] = useState(() => formatPoints(points))
+
+  return (
+    <label className="block space-y-1">
+      <span className={labelClassName}>Points (one x, y pair per line)</span>
+      <textarea
+        value={text}
+        rows={5}
+        onChange={e => setText(e.target.value)}
+        onBlur={() => {
+          const parsed = parsePoints(text)
+          if (parsed.length % 2 === 0) onChange(parsed)
+          setText(formatPoints(parsed.length % 2 === 0 ? parsed : points))
+        }}
+        className={inputClassName}
+      />
+    </label>
+  )
+}
+
+export default PointsField
@@ -0,0 +1,50 @@
+import type { ParticlePositionPhysics } from 'partyx-library'
+import NumberField from './NumberField'
+import RangeField from './RangeField'
+import { withKey } from './withKey'
+
+type PolarVelocityFieldsProps = {
+  value: ParticlePositionPhysics
+  onChange: (value: ParticlePositionPhysics) => void
+}
+
+function PolarVelocityFields({ value, onChange }: PolarVelocityFieldsProps) {
+  const set = <K extends keyof ParticlePositionPhysics>(
+    key: K,
+    next: ParticlePositionPhysics[K] | undefined,
+  ) => onChange(withKey(value, key, next))
+
+  return (
+    <>
+      <RangeField
+        label="Speed (polar velocity)"
+        value={value.speed}
+        optional
+        defaultValue={100}
+        onChange={next => set('speed', next)}
+      />
+      {value.speed !== undefined && (
+        <>
+          <RangeField
+            label="Angle (radians)"
+            value={value.angle}
+            step={0.1}
+            optional
+            onChange={next => set('angle', next)}
+          />
+          <NumberField
+            label="Spread (radians)"
+            value={value.spread}
+            step={0.1}
+            min={0}
+            optional
+            defaultValue={Math.PI / 4}
+            onChange={next => set('spread', next)}
+          />
+        </>
+      )}
+    </>
+  )
+}
+
+export default PolarVelocityFields
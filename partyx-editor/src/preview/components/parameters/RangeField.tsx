@@ -0,0 +1,76 @@
+import type { ParticleOptionRange } from 'partyx-library'
+import ColorInput from './ColorInput'
+import NumberInput from './NumberInput'
+import { labelClassName, toggleClassName } from './fieldStyles'
+
+type RangeFieldProps = {
+  label: string
+  value: ParticleOptionRange | undefined
+  onChange: (value: ParticleOptionRange | undefined) => void
+  optional?: boolean
+  kind?: 'number' | 'color'
+  step?: number
+  defaultValue?: number
+}
+
+/**
+ * Editor for a `ParticleOptionRange`: a fixed value or a random [min, max] range.
+ */
+function RangeField({
+  label,
+  value,
+  onChange,
+  optional = false,
+  kind = 'number',
+  step = 1,
+  defaultValue = 0,
+}: RangeFieldProps) {
+  const enabled = value !== undefined
+  const isRange = Array.isArray(value)
+
+  const toggleMode = () => {
+    if (value === undefined) return
+    onChange(Array.isArray(value) ? value[0] : [value, value])
+  }
+
+  const renderInput = (current: number, update: (next: number) => void) =>
+    kind === 'color' ? (
+      <ColorInput value={current} onChange={update} />
+    ) : (
+      <NumberInput value={current} onChange={update} step={step} />
+    )
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className={labelClassName}>{label}</span>
+        <div className="flex items-center gap-2">
+          {enabled && (
+            <button type="button" onClick={toggleMode} className={toggleClassName}>
+              {isRange ? 'Range' : 'Fixed'}
+            </button>
+          )}
+          {optional && (
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={e => onChange(e.target.checked ? defaultValue : undefined)}
+              aria-label={`Enable ${label}`}
+            />
+          )}
+        </div>
+      </div>
+      {enabled &&
+        (Array.isArray(value) ? (
+          <div className="grid grid-cols-2 gap-2">
+            {renderInput(value[0], next => onChange([next, value[1]]))}
+            {renderInput(value[1], next => onChange([value[0], next]))}
+          </div>
+        ) : (
+          renderInput(value, next => onChange(next))
+        ))}
+    </div>
+  )
+}
+
+export default RangeField
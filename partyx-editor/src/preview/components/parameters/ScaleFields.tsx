@@ -0,0 +1,74 @@
+import type { ParticleOptionRange, ParticleSpawnConfig } from 'partyx-library'
+import KeyframesFields from './KeyframesFields'
+import RangeField from './RangeField'
+import SelectField from './SelectField'
+import StartEndFields from './StartEndFields'
+import Vector2PhysicsFields from './Vector2PhysicsFields'
+
+type ScaleValue = ParticleSpawnConfig['scale']
+type ScaleMode = 'none' | 'fixed' | 'startEnd' | 'curve' | 'physics'
+
+type ScaleFieldsProps = {
+  value: ScaleValue
+  onChange: (value: ScaleValue) => void
+}
+
+const getScaleMode = (value: ScaleValue): ScaleMode => {
+  if (value === undefined) return 'none'
+  if (typeof value === 'number' || Array.isArray(value)) return 'fixed'
+  if ('start' in value) return 'startEnd'
+  if ('keyframes' in value) return 'curve'
+  return 'physics'
+}
+
+const isObject = (
+  value: ScaleValue,
+): value is Exclude<ScaleValue, ParticleOptionRange | undefined> =>
+  value !== undefined && typeof value === 'object' && !Array.isArray(value)
+
+const scaleDefaults: Record<ScaleMode, ScaleValue> = {
+  none: undefined,
+  fixed: 1,
+  startEnd: { start: 1, end: 0 },
+  curve: {
+    keyframes: [
+      { time: 0, value: 0.5 },
+      { time: 0.5, value: 1 },
+      { time: 1, value: 0 },
+    ],
+  },
+  physics: { x: 1, y: 1 },
+}
+
+function ScaleFields({ value, onChange }: ScaleFieldsProps) {
+  const mode = getScaleMode(value)
+
+  return (
+    <>
+      <SelectField
+        label="Mode"
+        value={mode}
+        options={[
+          { value: 'none', label: 'Default (1)' },
+          { value: 'fixed', label: 'Uniform value' },
+          { value: 'startEnd', label: 'Start → end' },
+          { value: 'curve', label: 'Curve' },
+          { value: 'physics', label: 'Physics (X/Y)' },
+        ]}
+        onChange={next => onChange(scaleDefaults[next])}
+      />
+      {(typeof value === 'number' || Array.isArray(value)) && (
+        <RangeField label="Scale" value={value} step={0.1} onChange={next => onChange(next ?? 1)} />
+      )}
+      {isObject(value) && 'start' in value && <StartEndFields value={value} onChange={onChange} />}
+      {isObject(value) && 'keyframes' in value && (
+        <KeyframesFields value={value} onChange={onChange} />
+      )}
+      {isObject(value) && 'x' in value && (
+        <Vector2PhysicsFields value={value} step={0.1} onChange={onChange} />
+      )}
+    </>
+  )
+}
+
+export default ScaleFields
@@ -0,0 +1,27 @@
+import { useState, type ReactNode } from 'react'
+
+type SectionProps = {
+  title: string
+  defaultOpen?: boolean
+  children: ReactNode
+}
+
+function Section({ title, defaultOpen = false, children }: SectionProps) {
+  const [open, setOpen] = useState(defaultOpen)
+
+  return (
+    <div className="rounded-lg border border-slate-200">
+      <button
+        type="button"
+        onClick={() => setOpen(value => !value)}
+        className="flex w-full items-center justify-between px-3 py-2 text-left text-sm font-semibold text-slate-800 hover:bg-slate-50"
+      >
+        {title}
+        <span className="text-xs text-slate-400">{open ? '−' : '+'}</span>
+      </button>
+      {open && <div className="space-y-3 border-t border-slate-200 px-3 py-3">{children}</div>}
+    </div>
+  )
+}
+
+export default Section
@@ -0,0 +1,29 @@
+import { inputClassName, labelClassName } from './fieldStyles'
+
+type SelectFieldProps<T extends string> = {
+  label: string
+  value: T
+  options: { value: T; label: string }[]
+  onChange: (value: T) => void
+}
+
+function SelectField<T extends string>({ label, value, options, onChange }: SelectFieldProps<T>) {
+  return (
+    <label className="block space-y-1">
+      <span className={labelClassName}>{label}</span>
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value as T)}
+        className={inputClassName}
+      >
+        {options.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+export default SelectField
@@ -0,0 +1,44 @@
+import type { ParticleOptionStartEnd } from 'partyx-library'
+import EasingSelect from './EasingSelect'
+import RangeField from './RangeField'
+import { labelClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type StartEndFieldsProps = {
+  value: ParticleOptionStartEnd
+  onChange: (value: ParticleOptionStartEnd) => void
+  kind?: 'number' | 'color'
+  step?: number
+}
+
+function StartEndFields({ value, onChange, kind = 'number', step = 0.1 }: StartEndFieldsProps) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <RangeField
+          label="Start"
+          value={value.start}
+          kind={kind}
+          step={step}
+          onChange={next => onChange({ ...value, start: next ?? 0 })}
+        />
+        <RangeField
+          label="End"
+          value={value.end}
+          kind={kind}
+          step={step}
+          onChange={next => onChange({ ...value, end: next ?? 0 })}
+        />
+      </div>
+      <label className="block space-y-1">
+        <span className={labelClassName}>Easing</span>
+        <EasingSelect
+          value={typeof value.easing === 'string' ? value.easing : undefined}
+          onChange={easing => onChange(withKey(value, 'easing', easing))}
+        />
+      </label>
+    </div>
+  )
+}
+
+export default StartEndFields
@@ -0,0 +1,152 @@
+import type {
+  ParticleSpawnConfig,
+  ParticleSubEmitterConfig,
+  ParticleSubEmitterTrigger,
+} from 'partyx-library'
+import NumberField from './NumberField'
+import PolarVelocityFields from './PolarVelocityFields'
+import RangeField from './RangeField'
+import SelectField from './SelectField'
+import { labelClassName, toggleClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type SubEmittersFieldsProps = {
+  value: ParticleSubEmitterConfig[] | undefined
+  /** Texture given to new sub-emitters, usually the parent one */
+  texture?: string
+  onChange: (value: ParticleSubEmitterConfig[] | undefined) => void
+}
+
+/**
+ * Editor for the sub-emitter list: trigger, emission and the main spawn options of each sub-emitter.
+ */
+function SubEmittersFields({ value = [], texture, onChange }: SubEmittersFieldsProps) {
+  const setSubEmitter = (index: number, subEmitter: ParticleSubEmitterConfig) =>
+    onChange(value.map((s, i) => (i === index ? subEmitter : s)))
+
+  const removeSubEmitter = (index: number) => {
+    const next = value.filter((_, i) => i !== index)
+    onChange(next.length ? next : undefined)
+  }
+
+  const addSubEmitter = () =>
+    onChange([
+      ...value,
+      {
+        trigger: 'death',
+        count: 20,
+        spawnOptions: {
+          position: { x: 0, y: 0, speed: [50, 150], spread: Math.PI * 2 },
+          lifespan: 0.6,
+          texture,
+        },
+      },
+    ])
+
+  return (
+    <div className="space-y-3">
+      {value.map((subEmitter, index) => {
+        const set = <K extends keyof ParticleSubEmitterConfig>(
+          key: K,
+          next: ParticleSubEmitterConfig[K] | undefined,
+        ) => setSubEmitter(index, withKey(subEmitter, key, next))
+        const setSpawn = <K extends keyof ParticleSpawnConfig>(
+          key: K,
+          next: ParticleSpawnConfig[K] | undefined,
+        ) => set('spawnOptions', withKey(subEmitter.spawnOptions, key, next))
+
+        return (
+          <div key={index} className="space-y-2 rounded border border-slate-100 p-2">
+            <div className="grid grid-cols-2 gap-2">
+              <SelectField<ParticleSubEmitterTrigger>
+                label="Trigger"
+                value={subEmitter.trigger}
+                options={[
+                  { value: 'spawn', label: 'Spawn' },
+                  { value: 'death', label: 'Death' },
+                  { value: 'collision', label: 'Collision' },
+                ]}
+                onChange={next => set('trigger', next)}
+              />
+              <RangeField
+                label="Count"
+                value={subEmitter.count}
+                optional
+                defaultValue={1}
+                onChange={next => set('count', next)}
+              />
+              {subEmitter.trigger === 'spawn' && (
+                <NumberField
+                  label="Trail rate (per second)"
+                  value={subEmitter.rate}
+                  min={0}
+                  optional
+                  defaultValue={30}
+                  onChange={next => set('rate', next)}
+                />
+              )}
+              <NumberField
+                label="Probability"
+                value={subEmitter.probability}
+                min={0}
+                max={1}
+                step={0.05}
+                optional
+                defaultValue={1}
+                onChange={next => set('probability', next)}
+              />
+              <NumberField
+                label="Inherit velocity"
+                value={subEmitter.inheritVelocity}
+                step={0.1}
+                optional
+                defaultValue={0.5}
+                onChange={next => set('inheritVelocity', next)}
+              />
+            </div>
+            <label className="flex items-center justify-between gap-2">
+              <span className={labelClassName}>Inherit color</span>
+              <input
+                type="checkbox"
+                checked={subEmitter.inheritColor ?? false}
+                onChange={e => set('inheritColor', e.target.checked || undefined)}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span className={labelClassName}>Inherit scale</span>
+              <input
+                type="checkbox"
+                checked={subEmitter.inheritScale ?? false}
+                onChange={e => set('inheritScale', e.target.checked || undefined)}
+              />
+            </label>
+            <RangeField
+              label="Lifespan (seconds)"
+              value={subEmitter.spawnOptions.lifespan}
+              step={0.1}
+              optional
+              defaultValue={1}
+              onChange={next => setSpawn('lifespan', next)}
+            />
+            <PolarVelocityFields
+              value={subEmitter.spawnOptions.position}
+              onChange={next => setSpawn('position', next)}
+            />
+            <button
+              type="button"
+              onClick={() => removeSubEmitter(index)}
+              className={toggleClassName}
+            >
+              Remove sub-emitter
+            </button>
+          </div>
+        )
+      })}
+      <button type="button" onClick={addSubEmitter} className={toggleClassName}>
+        Add sub-emitter
+      </button>
+    </div>
+  )
+}
+
+export default SubEmittersFields
@@ -0,0 +1,117 @@
+import type { ParticleOptionKeyframes, ParticleTrailConfig } from 'partyx-library'
+import ColorInput from './ColorInput'
+import CurveToggleField from './CurveToggleField'
+import NumberField from './NumberField'
+import { labelClassName } from './fieldStyles'
+import { withKey } from './withKey'
+
+type TrailFieldsProps = {
+  value: ParticleTrailConfig | undefined
+  /** Texture offered for the ribbon, usually the particle one */
+  texture?: string
+  onChange: (value: ParticleTrailConfig | undefined) => void
+}
+
+const taperCurve: ParticleOptionKeyframes = {
+  keyframes: [
+    { time: 0, value: 1 },
+    { time: 1, value: 0 },
+  ],
+}
+
+/**
+ * Editor for the particle trail: length, spacing, width and the curves from head to tail.
+ */
+function TrailFields({ value, texture, onChange }: TrailFieldsProps) {
+  const set = <K extends keyof ParticleTrailConfig>(
+    key: K,
+    next: ParticleTrailConfig[K] | undefined,
+  ) => {
+    if (value) onChange(withKey(value, key, next))
+  }
+
+  return (
+    <>
+      <label className="flex items-center justify-between gap-2">
+        <span className={labelClassName}>Trail</span>
+        <input
+          type="checkbox"
+          checked={value !== undefined}
+          onChange={e => onChange(e.target.checked ? { length: 16, minDistance: 4 } : undefined)}
+        />
+      </label>
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              label="Length (points)"
+              value={value.length}
+              min={2}
+              step={1}
+              onChange={next => set('length', Math.max(2, Math.round(next ?? 16)))}
+            />
+            <NumberField
+              label="Min distance"
+              value={value.minDistance}
+              min={0}
+              optional
+              defaultValue={0}
+              onChange={next => set('minDistance', next)}
+            />
+            <NumberField
+              label="Width"
+              value={value.width}
+              min={0}
+              optional
+              defaultValue={8}
+              onChange={next => set('width', next)}
+            />
+          </div>
+          <CurveToggleField
+            label="Width curve"
+            value={value.widthCurve}
+            defaultCurve={taperCurve}
+            onChange={next => set('widthCurve', next)}
+          />
+          <CurveToggleField
+            label="Alpha curve"
+            value={value.alphaCurve}
+            defaultCurve={taperCurve}
+            onChange={next => set('alphaCurve', next)}
+          />
+          <label className="flex items-center justify-between gap-2">
+            <span className={labelClassName}>Width follows particle scale</span>
+            <input
+              type="checkbox"
+              checked={value.scaleWithParticle ?? true}
+              onChange={e => set('scaleWithParticle', e.target.checked ? undefined : false)}
+            />
+          </label>
+          {texture && (
+            <label className="flex items-center justify-between gap-2">
+              <span className={labelClassName}>Use particle texture</span>
+              <input
+                type="checkbox"
+                checked={value.texture !== undefined}
+                onChange={e => set('texture', e.target.checked ? texture : undefined)}
+              />
+            </label>
+          )}
+          <label className="flex items-center justify-between gap-2">
+            <span className={labelClassName}>Own color</span>
+            <input
+              type="checkbox"
+              checked={value.color !== undefined}
+              onChange={e => set('color', e.target.checked ? 0xffffff : undefined)}
+            />
+          </label>
+          {value.color !== undefined && (
+            <ColorInput value={value.color} onChange={next => set('color', next)} />
+          )}
+        </>
+      )}
+    </>
+  )
+}
+
+export default TrailFields
@@ -0,0 +1,57 @@
+import type { ParticleVector1Physics } from 'partyx-library'
+import CurveToggleField from './CurveToggleField'
+import NumberField from './NumberField'
+import RangeField from './RangeField'
+import { withKey } from './withKey'
+
+type Vector1PhysicsFieldsProps = {
+  value: ParticleVector1Physics
+  onChange: (value: ParticleVector1Physics) => void
+  step?: number
+}
+
+function Vector1PhysicsFields({ value, onChange, step = 1 }: Vector1PhysicsFieldsProps) {
+  const set = <K extends keyof ParticleVector1Physics>(
+    key: K,
+    next: ParticleVector1Physics[K] | undefined,
+  ) => onChange(withKey(value, key, next))
+
+  return (
+    <>
+      <RangeField
+        label="Value"
+        value={value.value}
+        step={step}
+        onChange={next => set('value', next ?? 0)}
+      />
+      <RangeField
+        label="Velocity"
+        value={value.velocity}
+        step={step}
+        optional
+        onChange={next => set('velocity', next)}
+      />
+      <RangeField
+        label="Acceleration"
+        value={value.acceleration}
+        step={step}
+        optional
+        onChange={next => set('acceleration', next)}
+      />
+      <NumberField
+        label="Max velocity"
+        value={value.maxVelocity}
+        step={step}
+        optional
+        onChange={next => set('maxVelocity', next)}
+      />
+      <CurveToggleField
+        label="Velocity multiplier over lifetime"
+        value={value.velocityCurve}
+        onChange={next => set('velocityCurve', next)}
+      />
+    </>
+  )
+}
+
+export default Vector1PhysicsFields
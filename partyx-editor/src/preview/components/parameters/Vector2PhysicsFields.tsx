@@ -0,0 +1,69 @@
+import type { ParticleVector2Physics } from 'partyx-library'
+import CurveToggleField from './CurveToggleField'
+import NumberField from './NumberField'
+import RangeField from './RangeField'
+import { withKey } from './withKey'
+
+type Vector2PhysicsFieldsProps = {
+  value: ParticleVector2Physics
+  onChange: (value: ParticleVector2Physics) => void
+  step?: number
+}
+
+const rangeKeys = [
+  ['velocity', 'Velocity (both axes)'],
+  ['velocityX', 'Velocity X'],
+  ['velocityY', 'Velocity Y'],
+  ['acceleration', 'Acceleration (both axes)'],
+  ['accelerationX', 'Acceleration X'],
+  ['accelerationY', 'Acceleration Y'],
+] as const
+
+const maxKeys = [
+  ['maxVelocity', 'Max velocity (both axes)'],
+  ['maxVelocityX', 'Max velocity X'],
+  ['maxVelocityY', 'Max velocity Y'],
+] as const
+
+function Vector2PhysicsFields({ value, onChange, step = 1 }: Vector2PhysicsFieldsProps) {
+  const set = <K extends keyof ParticleVector2Physics>(
+    key: K,
+    next: ParticleVector2Physics[K] | undefined,
+  ) => onChange(withKey(value, key, next))
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2">
+        <RangeField label="X" value={value.x} step={step} onChange={next => set('x', next ?? 0)} />
+        <RangeField label="Y" value={value.y} step={step} onChange={next => set('y', next ?? 0)} />
+      </div>
+      {rangeKeys.map(([key, label]) => (
+        <RangeField
+          key={key}
+          label={label}
+          value={value[key]}
+          step={step}
+          optional
+          onChange={next => set(key, next)}
+        />
+      ))}
+      {maxKeys.map(([key, label]) => (
+        <NumberField
+          key={key}
+          label={label}
+          value={value[key]}
+          step={step}
+          optional
+          onChange={next => set(key, next)}
+        />
+      ))}
+      <CurveToggleField
+        label="Velocity multiplier over lifetime"
+        value={value.velocityCurve}
+        onChange={next => set('velocityCurve', next)}
+      />
+    </>
+  )
+}
+
+export default Vector2PhysicsFields
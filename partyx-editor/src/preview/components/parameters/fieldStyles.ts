@@ -0,0 +1,7 @@
+export const inputClassName =
+  'w-full rounded border border-slate-200 px-2 py-1 text-sm text-slate-800 focus:border-indigo-400 focus:outline-none focus:ring-2 focus:ring-indigo-100'
+
+export const toggleClassName =
+  'rounded border border-slate-200 px-2 py-0.5 text-xs font-semibold text-slate-600 transition-colors hover:border-indigo-300 hover:text-indigo-600'
+
+export const labelClassName = 'text-xs font-medium text-slate-700'
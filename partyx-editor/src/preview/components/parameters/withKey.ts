@@ -0,0 +1,16 @@
+/**
+ * Return a copy of `target` with `key` set to `value`, or removed when `value` is undefined.
+ */
+export const withKey = <T extends object, K extends keyof T>(
+  target: T,
+  key: K,
+  value: T[K] | undefined,
+): T => {
+  const next = { ...target }
+  if (value === undefined) {
+    delete next[key]
+  } else {
+    next[key] = value
+  }
+  return next
+}
@@ -1,8 +1,7 @@
-import type { Ticker } from 'pixi.js'
-import { Application, Graphics, Text } from 'pixi.js'
-import type { PreviewConfig } from '../model/previewConfig'
-import { defaultPreviewConfig } from '../model/previewConfig'
-import { PartyxHandler } from 'src/partyx/PartyxHandler'
+import { Application, Graphics } from 'pixi.js'
+import type { ProjectConfig } from '../../editor/model/projectTypes'
+import { createDefaultProjectConfig } from '../../editor/model/projectConfig'
+import { PartyxHandler } from '../../partyx/PartyxHandler'
 
 /**
  * Manages a Pixi Application lifecycle outside of React.
@@ -13,21 +12,17 @@ export class PixiAppHost {
   private app: Application | null = null
   private resizeObserver?: ResizeObserver
   private backgroundLayer?: Graphics
-  private rotationShape?: Graphics
-  private label?: Text
-  private tickerHandler?: (deltaMS: number) => void
-  private tickerListener?: (ticker: Ticker) => void
-  private config: PreviewConfig = { ...defaultPreviewConfig }
+  private config: ProjectConfig = createDefaultProjectConfig()
 
-  constructor(container: HTMLElement) {
+  constructor(container: HTMLElement, partyxHandler: PartyxHandler = new PartyxHandler()) {
     this.container = container
-    this.partyxHandler = new PartyxHandler()
+    this.partyxHandler = partyxHandler
   }
 
   /**
    * Initialize and start rendering the Pixi scene.
    */
-  public async start(config: PreviewConfig) {
+  public async start(config: ProjectConfig) {
     if (this.app) {
       await this.updateConfig(config)
       return
@@ -37,7 +32,7 @@ export class PixiAppHost {
 
     const app = new Application()
     await app.init({
-      backgroundColor: config.backgroundColor,
+      backgroundColor: config.preview.backgroundColor,
       antialias: true,
       autoDensity: true,
       resizeTo: this.container,
@@ -47,7 +42,8 @@ export class PixiAppHost {
     this.app = app
 
     this.setupScene()
-    await this.partyxHandler.attach(this.app, this.config)
+    // Config may have changed while the app was initializing
+    await this.partyxHandler.attach(this.app, this.config.emitter)
     this.setupResizeHandling()
   }
 
@@ -77,11 +73,14 @@ export class PixiAppHost {
   /**
    * Update rendering options based on config changes and forward to Partyx if attached.
    */
-  public async updateConfig(config: PreviewConfig) {
+  public async updateConfig(config: ProjectConfig) {
     this.config = config
+    if (!this.app) {
+      return
+    }
     this.applyConfigToScene()
 
-    await this.partyxHandler.updateConfig(config)
+    await this.partyxHandler.updateConfig(config.emitter)
   }
 
   /**
@@ -91,13 +90,6 @@ export class PixiAppHost {
     this.stop()
 
     this.partyxHandler.destroy()
-    //this.partyxHandler = undefined
-
-    if (this.app && this.tickerListener) {
-      this.app.ticker.remove(this.tickerListener)
-    }
-    this.tickerHandler = undefined
-    this.tickerListener = undefined
 
     this.resizeObserver?.disconnect()
     this.resizeObserver = undefined
@@ -110,48 +102,14 @@ export class PixiAppHost {
       this.app = null
     }
 
-    this.rotationShape = undefined
+    this.backgroundLayer = undefined
   }
 
   private setupScene() {
     if (!this.app) return
 
     this.backgroundLayer = new Graphics()
-
-    const shape = new Graphics()
-    shape.circle(0, 0, 60).fill(0x6366f1)
-    shape.alpha = 0.9
-
-    const label = new Text({
-      text: 'Pixi Preview',
-      style: {
-        fill: '#e2e8f0',
-        fontSize: 22,
-        fontWeight: '700',
-        fontFamily: 'Inter, system-ui, -apple-system, sans-serif',
-      },
-    })
-    label.anchor.set(0.5)
-
     this.app.stage.addChild(this.backgroundLayer)
-    this.rotationShape = shape
-    this.label = label
-
-    this.app.stage.addChild(shape)
-    this.app.stage.addChild(label)
-
-    this.tickerHandler = deltaMS => {
-      if (this.rotationShape) {
-        const speed = this.config.rotationSpeed ?? 1
-        this.rotationShape.rotation += 0.0015 * deltaMS * speed
-      }
-    }
-
-    this.tickerListener = ticker => {
-      this.tickerHandler?.(ticker.deltaMS)
-    }
-
-    this.app.ticker.add(this.tickerListener)
 
     this.positionScene()
     this.applyConfigToScene()
@@ -163,13 +121,7 @@ export class PixiAppHost {
     const centerX = this.app.screen.width / 2
     const centerY = this.app.screen.height / 2
 
-    if (this.rotationShape) {
-      this.rotationShape.position.set(centerX, centerY - 20)
-    }
-
-    if (this.label) {
-      this.label.position.set(centerX, centerY + 90)
-    }
+    this.partyxHandler.setOrigin(centerX, centerY)
 
     this.updateBackground()
   }
@@ -189,7 +141,7 @@ export class PixiAppHost {
     const { width, height } = this.app.screen
 
     this.backgroundLayer.clear()
-    this.backgroundLayer.rect(0, 0, width, height).fill(this.config.backgroundColor)
+    this.backgroundLayer.rect(0, 0, width, height).fill(this.config.preview.backgroundColor)
   }
 
   private applyConfigToScene() {
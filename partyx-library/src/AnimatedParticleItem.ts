@@ -0,0 +1,149 @@
+import { Cache, Texture } from "pixi.js";
+import type { Rectangle, Spritesheet } from "pixi.js";
+import { ParticleItem } from "./ParticleItem";
+import type { ParticleAnimationMode, ParticleSpawnOptions, SpriteParticleItemOptions } from "./types";
+
+/**
+ * Particle playing a flipbook animation through texture frames, configured with `ParticleSpawnOptions.animation`.
+ * Register it as the emitter `ClassType` (or `particleClass: "AnimatedParticleItem"` in configs).
+ */
+export class AnimatedParticleItem extends ParticleItem {
+    protected static _frameCache: WeakMap<SpriteParticleItemOptions, Texture[]> = new WeakMap();
+
+    /** Animation frames */
+    public frames: Texture[] = [];
+    /** Frames per second */
+    public frameRate: number = 0;
+    /** Playback mode */
+    public playMode: ParticleAnimationMode = "loop";
+    /** Frame the animation starts at */
+    public startFrame: number = 0;
+    /** Index of the displayed frame */
+    public currentFrame: number = 0;
+
+    /**
+     * Resolves the frames of an animation, caching them per options object.
+     *
+     * @param options - Animation options
+     * @returns The animation frames
+     * @throws Error if no frames can be resolved
+     */
+    public static getFrames(options: SpriteParticleItemOptions): Texture[] {
+        let frames = AnimatedParticleItem._frameCache.get(options);
+        if (frames) return frames;
+
+        if (options.imageSources) {
+            frames = options.imageSources.map((source) => (source instanceof Texture ? source : Texture.from(source)));
+        } else if (options.spritesheet) {
+            const sheet: Spritesheet | undefined =
+                typeof options.spritesheet === "string" ? Cache.get(options.spritesheet) : options.spritesheet;
+            if (!sheet || !sheet.textures) {
+                throw new Error(`AnimatedParticleItem - Spritesheet "${options.spritesheet}" is not loaded`);
+            }
+            frames = options.animation ? sheet.animations[options.animation] : Object.values(sheet.textures);
+            if (!frames) {
+                throw new Error(`AnimatedParticleItem - Animation "${options.animation}" not found in the spritesheet`);
+            }
+        }
+
+        if (!frames || !frames.length) {
+            throw new Error("AnimatedParticleItem - An animation needs imageSources or a spritesheet with frames");
+        }
+        AnimatedParticleItem._frameCache.set(options, frames);
+        return frames;
+    }
+
+    /**
+     * Updates the particle and advances its animation.
+     *
+     * @param elapsedMS - The elapsed time in milliseconds since last update
+     * @param contentFrame - Optional content frame for boundary checking
+     */
+    public updatePhysics(elapsedMS: number, contentFrame?: Rectangle) {
+        super.updatePhysics(elapsedMS, contentFrame);
+        this._updateFrame();
+    }
+
+    /**
+     * Reset all particle values to default, including the animation.
+     */
+    public reset() {
+        super.reset();
+        this.frames = [];
+        this.frameRate = 0;
+        this.playMode = "loop";
+        this.startFrame = 0;
+        this.currentFrame = 0;
+    }
+
+    /**
+     * Sets up the animation, which takes over the static texture.
+     */
+    protected _initTexture(spawnOptions: ParticleSpawnOptions) {
+        super._initTexture(spawnOptions);
+
+        const animation = spawnOptions.animation;
+        if (!animation) {
+            this.frames = [];
+            return;
+        }
+
+        this.frames = AnimatedParticleItem.getFrames(animation);
+        this.playMode = animation.mode ?? "loop";
+        this.frameRate = animation.frameRate;
+        this.startFrame = animation.randomStartFrame ? Math.floor(this._random() * this.frames.length) : 0;
+        this._fitFrameRate(spawnOptions);
+        this._updateFrame();
+    }
+
+    /**
+     * Sets up the lifespan, then fits the frame rate to it if requested.
+     */
+    protected _initLifespan(spawnOptions: ParticleSpawnOptions) {
+        super._initLifespan(spawnOptions);
+        this._fitFrameRate(spawnOptions);
+    }
+
+    /**
+     * Stretches the animation so one cycle lasts the lifespan, when `fitLifespan` is set and the lifespan is finite.
+     */
+    protected _fitFrameRate(spawnOptions: ParticleSpawnOptions) {
+        if (spawnOptions.animation?.fitLifespan && this.frames.length && Number.isFinite(this.lifespan)) {
+            this.frameRate = this._cycleLength() / this.lifespan;
+        }
+    }
+
+    /**
+     * Number of frame steps in one animation cycle.
+     */
+    protected _cycleLength() {
+        const count = this.frames.length;
+        return this.playMode === "pingpong" && count > 1 ? count * 2 - 2 : count;
+    }
+
+    /**
+     * Shows the frame matching the current age of the particle.
+     */
+    protected _updateFrame() {
+        const count = this.frames.length;
+        if (!count) return;
+
+        // Epsilon absorbs the float drift of the accumulated age on frame boundaries
+        const step = this.startFrame + Math.floor(this.currentLife * this.frameRate + 1e-6);
+        let frame: number;
+        if (this.playMode === "once") {
+            frame = Math.min(step, count - 1);
+        } else if (this.playMode === "pingpong" && count > 1) {
+            const cycle = this._cycleLength();
+            const position = step % cycle;
+            frame = position < count ? position : cycle - position;
+        } else {
+            frame = step % count;
+        }
+
+        if (frame !== this.currentFrame || this.texture !== this.frames[frame]) {
+            this.currentFrame = frame;
+            this.texture = this.frames[frame];
+        }
+    }
+}
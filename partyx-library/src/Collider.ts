@@ -0,0 +1,402 @@
+import type {
+    ParticleCircleCollider,
+    ParticleColliderOptions,
+    ParticleLineCollider,
+    ParticlePolygonCollider,
+    ParticleRectangleCollider,
+} from "./types";
+
+/** Distance under which a particle is considered in contact with a surface */
+const CONTACT_EPSILON = 1e-6;
+
+/**
+ * Result of a collision test: where the particle ends up and the surface normal at the contact.
+ */
+export interface ColliderHit {
+    /** Particle position moved out of the collider */
+    x: number;
+    y: number;
+    /** Unit normal of the surface, pointing towards the particle */
+    normalX: number;
+    normalY: number;
+    /** Whether the particle was already touching the surface before the step (resting contact) */
+    resting: boolean;
+}
+
+/**
+ * Creates a collider from its options. Used to plug custom colliders in.
+ */
+export type ColliderFactory = (options: ParticleColliderOptions) => Collider;
+
+/**
+ * Base class of colliders. A collider tests the move of a particle during one step and pushes it out of its shape.
+ * Colliders are compiled once per options object and cached, like emission shapes.
+ */
+export abstract class Collider {
+    protected static _factories: Map<string, ColliderFactory> = new Map();
+    protected static _cache: WeakMap<ParticleColliderOptions, Collider> = new WeakMap();
+
+    /**
+     * Registers a collider type so update options and configs can reference it by `type`.
+     * Built-in types can be overridden.
+     *
+     * @param type - Collider type name
+     * @param factory - Creates the collider from its options
+     */
+    public static register(type: string, factory: ColliderFactory) {
+        Collider._factories.set(type, factory);
+    }
+
+    /**
+     * Checks whether a collider type is registered.
+     *
+     * @param type - Collider type name
+     */
+    public static has(type: string): boolean {
+        return Collider._factories.has(type);
+    }
+
+    /**
+     * Gets the compiled collider for an options object, compiling it on first use.
+     *
+     * @param options - Collider options
+     * @returns The compiled collider
+     * @throws Error if the collider type is not registered or the options are invalid
+     */
+    public static from(options: ParticleColliderOptions): Collider {
+        let collider = Collider._cache.get(options);
+        if (!collider) {
+            const factory = Collider._factories.get(options.type);
+            if (!factory) {
+                throw new Error(`Collider - Unknown collider "${options.type}"`);
+            }
+            collider = factory(options);
+            Collider._cache.set(options, collider);
+        }
+        return collider;
+    }
+
+    /**
+     * Tests the move of a particle during one step.
+     *
+     * @param fromX - X position before the step
+     * @param fromY - Y position before the step
+     * @param toX - X position after the step
+     * @param toY - Y position after the step
+     * @param radius - Collision radius of the particle
+     * @param out - Hit receiving the corrected position and normal
+     * @returns Whether the particle hit the collider
+     */
+    public abstract collide(
+        fromX: number,
+        fromY: number,
+        toX: number,
+        toY: number,
+        radius: number,
+        out: ColliderHit
+    ): boolean;
+}
+
+/**
+ * Solid circle.
+ */
+export class CircleCollider extends Collider {
+    /** Center X */
+    public readonly x: number;
+    /** Center Y */
+    public readonly y: number;
+    /** Circle radius */
+    public readonly radius: number;
+
+    /**
+     * @param x - Center X
+     * @param y - Center Y
+     * @param radius - Circle radius
+     */
+    constructor(x: number, y: number, radius: number) {
+        super();
+        if (!(radius > 0)) {
+            throw new Error("Collider - Circle radius must be positive");
+        }
+        this.x = x;
+        this.y = y;
+        this.radius = radius;
+    }
+
+    public collide(
+        fromX: number,
+        fromY: number,
+        toX: number,
+        toY: number,
+        radius: number,
+        out: ColliderHit
+    ): boolean {
+        const reach = this.radius + radius;
+        const moveX = toX - fromX;
+        const moveY = toY - fromY;
+        const offsetX = fromX - this.x;
+        const offsetY = fromY - this.y;
+        const c = offsetX * offsetX + offsetY * offsetY - reach * reach;
+
+        // Started inside: push out from the center
+        if (c < -CONTACT_EPSILON) {
+            return this._pushOut(toX, toY, reach, false, out);
+        }
+
+        const a = moveX * moveX + moveY * moveY;
+        const b = 2 * (offsetX * moveX + offsetY * moveY);
+        const discriminant = b * b - 4 * a * c;
+        if (a === 0 || b >= 0 || discriminant < 0) return false;
+
+        const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+        if (t > 1) return false;
+
+        const time = Math.max(t, 0);
+        return this._pushOut(fromX + moveX * time, fromY + moveY * time, reach, c <= CONTACT_EPSILON, out);
+    }
+
+    protected _pushOut(x: number, y: number, reach: number, resting: boolean, out: ColliderHit) {
+        const dx = x - this.x;
+        const dy = y - this.y;
+        const length = Math.sqrt(dx * dx + dy * dy);
+        out.normalX = length > 0 ? dx / length : 0;
+        out.normalY = length > 0 ? dy / length : -1;
+        out.x = this.x + out.normalX * reach;
+        out.y = this.y + out.normalY * reach;
+        out.resting = resting;
+        return true;
+    }
+}
+
+/**
+ * Two-sided line segment. Particles are stopped on the side they come from.
+ */
+export class SegmentCollider extends Collider {
+    public readonly x1: number;
+    public readonly y1: number;
+    public readonly x2: number;
+    public readonly y2: number;
+    /** Unit normal of the segment, flipped towards the side a particle comes from */
+    protected _normalX: number;
+    protected _normalY: number;
+
+    /**
+     * @param x1 - Start X
+     * @param y1 - Start Y
+     * @param x2 - End X
+     * @param y2 - End Y
+     */
+    constructor(x1: number, y1: number, x2: number, y2: number) {
+        super();
+        const length = Math.hypot(x2 - x1, y2 - y1);
+        if (length === 0) {
+            throw new Error("Collider - Line must have two distinct points");
+        }
+        this.x1 = x1;
+        this.y1 = y1;
+        this.x2 = x2;
+        this.y2 = y2;
+        this._normalX = (y2 - y1) / length;
+        this._normalY = (x1 - x2) / length;
+    }
+
+    public collide(
+        fromX: number,
+        fromY: number,
+        toX: number,
+        toY: number,
+        radius: number,
+        out: ColliderHit
+    ): boolean {
+        const side = (fromX - this.x1) * this._normalX + (fromY - this.y1) * this._normalY >= 0 ? 1 : -1;
+        return sweepEdge(
+            this.x1,
+            this.y1,
+            this.x2,
+            this.y2,
+            this._normalX * side,
+            this._normalY * side,
+            fromX,
+            fromY,
+            toX,
+            toY,
+            radius,
+            out
+        );
+    }
+}
+
+/**
+ * Solid simple polygon (convex or not). Rectangles are polygons with four points.
+ */
+export class PolygonCollider extends Collider {
+    /** Flat list of vertices */
+    public readonly points: Float32Array;
+    /** Outward unit normal of each edge, as a flat list */
+    protected _normals: Float32Array;
+    /** Reused hit of the closest edge */
+    protected _edgeHit: ColliderHit = { x: 0, y: 0, normalX: 0, normalY: 0, resting: false };
+
+    /**
+     * @param points - Flat list of at least 3 vertices [x0, y0, x1, y1, ...]
+     */
+    constructor(points: number[]) {
+        super();
+        if (points.length < 6 || points.length % 2 !== 0) {
+            throw new Error("Collider - Polygon needs at least 3 points");
+        }
+        this.points = new Float32Array(points);
+
+        let area = 0;
+        for (let i = 0; i < points.length; i += 2) {
+            const j = (i + 2) % points.length;
+            area += points[i] * points[j + 1] - points[j] * points[i + 1];
+        }
+        if (area === 0) {
+            throw new Error("Collider - Polygon has no area");
+        }
+
+        const sign = area > 0 ? 1 : -1;
+        this._normals = new Float32Array(points.length);
+        for (let i = 0; i < points.length; i += 2) {
+            const j = (i + 2) % points.length;
+            const dx = points[j] - points[i];
+            const dy = points[j + 1] - points[i + 1];
+            const length = Math.hypot(dx, dy) || 1;
+            this._normals[i] = (sign * dy) / length;
+            this._normals[i + 1] = (-sign * dx) / length;
+        }
+    }
+
+    public collide(
+        fromX: number,
+        fromY: number,
+        toX: number,
+        toY: number,
+        radius: number,
+        out: ColliderHit
+    ): boolean {
+        const points = this.points;
+        const moveX = toX - fromX;
+        const moveY = toY - fromY;
+        let closest = Infinity;
+
+        // Earliest edge crossed during the step
+        for (let i = 0; i < points.length; i += 2) {
+            const j = (i + 2) % points.length;
+            if (
+                sweepEdge(
+                    points[i],
+                    points[i + 1],
+                    points[j],
+                    points[j + 1],
+                    this._normals[i],
+                    this._normals[i + 1],
+                    fromX,
+                    fromY,
+                    toX,
+                    toY,
+                    radius,
+                    this._edgeHit
+                )
+            ) {
+                const distance = (this._edgeHit.x - fromX) * moveX + (this._edgeHit.y - fromY) * moveY;
+                if (distance < closest) {
+                    closest = distance;
+                    Object.assign(out, this._edgeHit);
+                }
+            }
+        }
+        if (closest < Infinity) return true;
+
+        // Ended inside without crossing an edge (e.g. spawned inside): push out through the nearest edge
+        if (!this._contains(toX, toY)) return false;
+
+        let nearest = Infinity;
+        for (let i = 0; i < points.length; i += 2) {
+            const j = (i + 2) % points.length;
+            const edgeX = points[j] - points[i];
+            const edgeY = points[j + 1] - points[i + 1];
+            const projection = (toX - points[i]) * edgeX + (toY - points[i + 1]) * edgeY;
+            const u = Math.min(Math.max(projection / (edgeX * edgeX + edgeY * edgeY), 0), 1);
+            const x = points[i] + edgeX * u;
+            const y = points[i + 1] + edgeY * u;
+            const distance = (toX - x) * (toX - x) + (toY - y) * (toY - y);
+            if (distance < nearest) {
+                nearest = distance;
+                out.normalX = this._normals[i];
+                out.normalY = this._normals[i + 1];
+                out.x = x + out.normalX * radius;
+                out.y = y + out.normalY * radius;
+            }
+        }
+        out.resting = false;
+        return true;
+    }
+
+    protected _contains(x: number, y: number): boolean {
+        const points = this.points;
+        let inside = false;
+        for (let i = 0, j = points.length - 2; i < points.length; j = i, i += 2) {
+            const yi = points[i + 1];
+            const yj = points[j + 1];
+            if (yi > y !== yj > y && x < ((points[j] - points[i]) * (y - yi)) / (yj - yi) + points[i]) {
+                inside = !inside;
+            }
+        }
+        return inside;
+    }
+}
+
+/**
+ * Tests a move against one side of an edge, offset by the particle radius.
+ * The particle must start on the normal side and end past the offset line, within the edge extent.
+ */
+function sweepEdge(
+    ax: number,
+    ay: number,
+    bx: number,
+    by: number,
+    normalX: number,
+    normalY: number,
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+    radius: number,
+    out: ColliderHit
+): boolean {
+    const fromDistance = (fromX - ax) * normalX + (fromY - ay) * normalY;
+    const toDistance = (toX - ax) * normalX + (toY - ay) * normalY;
+    if (fromDistance < radius - CONTACT_EPSILON || toDistance > radius) return false;
+
+    const t = fromDistance > toDistance ? (fromDistance - radius) / (fromDistance - toDistance) : 1;
+    const x = fromX + (toX - fromX) * t;
+    const y = fromY + (toY - fromY) * t;
+
+    const edgeX = bx - ax;
+    const edgeY = by - ay;
+    const u = ((x - ax) * edgeX + (y - ay) * edgeY) / (edgeX * edgeX + edgeY * edgeY);
+    if (u < 0 || u > 1) return false;
+
+    out.x = x;
+    out.y = y;
+    out.normalX = normalX;
+    out.normalY = normalY;
+    out.resting = fromDistance <= radius + CONTACT_EPSILON;
+    return true;
+}
+
+Collider.register("rectangle", (options) => {
+    const { x, y, width, height } = options as ParticleRectangleCollider;
+    return new PolygonCollider([x, y, x + width, y, x + width, y + height, x, y + height]);
+});
+Collider.register("circle", (options) => {
+    const { x, y, radius } = options as ParticleCircleCollider;
+    return new CircleCollider(x, y, radius);
+});
+Collider.register("line", (options) => {
+    const { x1, y1, x2, y2 } = options as ParticleLineCollider;
+    return new SegmentCollider(x1, y1, x2, y2);
+});
+Collider.register("polygon", (options) => new PolygonCollider((options as ParticlePolygonCollider).points));
@@ -0,0 +1,108 @@
+import type { ParticleEasingFunction, ParticleOptionEasing } from "./types";
+
+const c1 = 1.70158;
+const c2 = c1 * 1.525;
+const c3 = c1 + 1;
+const c4 = (2 * Math.PI) / 3;
+const c5 = (2 * Math.PI) / 4.5;
+
+const bounceOut = (t: number) => {
+    const n1 = 7.5625;
+    const d1 = 2.75;
+    if (t < 1 / d1) return n1 * t * t;
+    if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+    if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+    return n1 * (t -= 2.625 / d1) * t + 0.984375;
+};
+
+/**
+ * Easing functions by name, mapping normalized progress (0..1) to eased progress.
+ * Use `registerEasing()` to add custom ones so they can be referenced from JSON configs.
+ */
+export const easings: Record<string, ParticleEasingFunction> = {
+    linear: (t) => t,
+    /** Holds the start value until the end of the segment */
+    step: (t) => (t < 1 ? 0 : 1),
+    /** Smoothstep: eases in and out */
+    smooth: (t) => t * t * (3 - 2 * t),
+
+    // Legacy names from ParticleEmitter.easing, normalized to go from 0 to 1
+    parabolic: (t) => 1 - (t - 1) * (t - 1),
+    sinusoidal: (t) => 1 - Math.cos((t * Math.PI) / 2),
+    exponential: (t) => t * t,
+    circular: (t) => Math.sqrt(1 - (t - 1) * (t - 1)),
+
+    quadIn: (t) => t * t,
+    quadOut: (t) => 1 - (1 - t) * (1 - t),
+    quadInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+
+    cubicIn: (t) => t * t * t,
+    cubicOut: (t) => 1 - Math.pow(1 - t, 3),
+    cubicInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+
+    backIn: (t) => c3 * t * t * t - c1 * t * t,
+    backOut: (t) => 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2),
+    backInOut: (t) =>
+        t < 0.5
+            ? (Math.pow(2 * t, 2) * ((c2 + 1) * 2 * t - c2)) / 2
+            : (Math.pow(2 * t - 2, 2) * ((c2 + 1) * (t * 2 - 2) + c2) + 2) / 2,
+
+    elasticIn: (t) =>
+        t <= 0 ? 0 : t >= 1 ? 1 : -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * c4),
+    elasticOut: (t) =>
+        t <= 0 ? 0 : t >= 1 ? 1 : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * c4) + 1,
+    elasticInOut: (t) =>
+        t <= 0
+            ? 0
+            : t >= 1
+              ? 1
+              : t < 0.5
+                ? -(Math.pow(2, 20 * t - 10) * Math.sin((20 * t - 11.125) * c5)) / 2
+                : (Math.pow(2, -20 * t + 10) * Math.sin((20 * t - 11.125) * c5)) / 2 + 1,
+
+    bounceIn: (t) => 1 - bounceOut(1 - t),
+    bounceOut,
+    bounceInOut: (t) => (t < 0.5 ? (1 - bounceOut(1 - 2 * t)) / 2 : (1 + bounceOut(2 * t - 1)) / 2),
+};
+
+/**
+ * Registers a custom easing under a name so configs can reference it and
+ * `toJSON()` can serialize it by name.
+ *
+ * @param name - Easing name
+ * @param easing - Easing function mapping 0..1 to eased progress
+ */
+export function registerEasing(name: string, easing: ParticleEasingFunction) {
+    easings[name] = easing;
+}
+
+/**
+ * Finds the name an easing function is registered with.
+ *
+ * @param easing - Easing function
+ * @returns The registered name, or undefined if the function is unknown
+ */
+export function getEasingName(easing: ParticleEasingFunction): string | undefined {
+    for (const [name, registered] of Object.entries(easings)) {
+        if (registered === easing) return name;
+    }
+    return undefined;
+}
+
+/**
+ * Resolves an easing given by name or function.
+ *
+ * @param easing - Easing name or function (optional, linear by default)
+ * @returns The easing function
+ * @throws Error if the name is unknown
+ */
+export function resolveEasing(easing: ParticleOptionEasing | undefined): ParticleEasingFunction {
+    if (easing === undefined) return easings.linear;
+    if (typeof easing === "function") return easing;
+
+    const fn = Object.prototype.hasOwnProperty.call(easings, easing) ? easings[easing] : undefined;
+    if (!fn) {
+        throw new Error(`Easing - Unknown easing "${easing}"`);
+    }
+    return fn;
+}
@@ -0,0 +1,366 @@
+import { earcut } from "pixi.js";
+import type {
+    ParticleEmissionCircle,
+    ParticleEmissionLine,
+    ParticleEmissionPath,
+    ParticleEmissionPolygon,
+    ParticleEmissionRectangle,
+    ParticleEmissionRing,
+    ParticleEmissionShapeOptions,
+} from "./types";
+
+/**
+ * A point sampled from an emission shape, relative to the spawn position,
+ * with the outward unit normal of the shape at that point.
+ */
+export interface EmissionSample {
+    x: number;
+    y: number;
+    normalX: number;
+    normalY: number;
+}
+
+/**
+ * Creates an emission shape from its options. Used to plug custom shapes in.
+ */
+export type EmissionShapeFactory = (options: ParticleEmissionShapeOptions) => EmissionShape;
+
+/**
+ * Base class of emission shapes. A shape samples spawn offsets around the particle spawn position.
+ * Shapes are compiled once per options object and cached, so all particles of an emitter share one instance.
+ */
+export abstract class EmissionShape {
+    protected static _factories: Map<string, EmissionShapeFactory> = new Map();
+    protected static _cache: WeakMap<ParticleEmissionShapeOptions, EmissionShape> = new WeakMap();
+
+    /**
+     * Registers a shape type so spawn options and configs can reference it by `type`.
+     * Built-in types can be overridden.
+     *
+     * @param type - Shape type name
+     * @param factory - Creates the shape from its options
+     */
+    public static register(type: string, factory: EmissionShapeFactory) {
+        EmissionShape._factories.set(type, factory);
+    }
+
+    /**
+     * Checks whether a shape type is registered.
+     *
+     * @param type - Shape type name
+     */
+    public static has(type: string): boolean {
+        return EmissionShape._factories.has(type);
+    }
+
+    /**
+     * Gets the compiled shape for an options object, compiling it on first use.
+     *
+     * @param options - Emission shape options
+     * @returns The compiled shape
+     * @throws Error if the shape type is not registered or the options are invalid
+     */
+    public static from(options: ParticleEmissionShapeOptions): EmissionShape {
+        let shape = EmissionShape._cache.get(options);
+        if (!shape) {
+            const factory = EmissionShape._factories.get(options.type);
+            if (!factory) {
+                throw new Error(`EmissionShape - Unknown emission shape "${options.type}"`);
+            }
+            shape = factory(options);
+            EmissionShape._cache.set(options, shape);
+        }
+        return shape;
+    }
+
+    /**
+     * Samples a point of the shape.
+     *
+     * @param random - Random number generator returning values in [0, 1)
+     * @param out - Sample receiving the offset and outward normal
+     * @returns The `out` sample
+     */
+    public abstract sample(random: () => number, out: EmissionSample): EmissionSample;
+}
+
+/**
+ * Emits every particle from the spawn position. Normals point in a random direction.
+ */
+export class PointShape extends EmissionShape {
+    public sample(random: () => number, out: EmissionSample): EmissionSample {
+        const angle = random() * Math.PI * 2;
+        out.x = 0;
+        out.y = 0;
+        out.normalX = Math.cos(angle);
+        out.normalY = Math.sin(angle);
+        return out;
+    }
+}
+
+/**
+ * Ring between an inner and an outer radius. A circle is a ring with an inner radius of 0,
+ * and a circle edge is a ring whose inner radius equals its outer radius.
+ * Normals point away from the center.
+ */
+export class RingShape extends EmissionShape {
+    /** Outer radius */
+    public readonly radius: number;
+    /** Inner radius */
+    public readonly innerRadius: number;
+    /** Whether points are uniformly spread over the area, or evenly spread along the radius */
+    public readonly uniform: boolean;
+
+    /**
+     * @param radius - Outer radius
+     * @param innerRadius - Inner radius
+     * @param uniform - Uniform area distribution (default true)
+     */
+    constructor(radius: number, innerRadius: number = 0, uniform: boolean = true) {
+        super();
+        if (radius < 0 || innerRadius < 0 || innerRadius > radius) {
+            throw new Error("EmissionShape - Ring radii must satisfy 0 <= innerRadius <= radius");
+        }
+        this.radius = radius;
+        this.innerRadius = innerRadius;
+        this.uniform = uniform;
+    }
+
+    public sample(random: () => number, out: EmissionSample): EmissionSample {
+        const angle = random() * Math.PI * 2;
+        const u = random();
+        const inner = this.innerRadius;
+        const r = this.uniform
+            ? Math.sqrt(inner * inner + u * (this.radius * this.radius - inner * inner))
+            : inner + u * (this.radius - inner);
+        out.normalX = Math.cos(angle);
+        out.normalY = Math.sin(angle);
+        out.x = out.normalX * r;
+        out.y = out.normalY * r;
+        return out;
+    }
+}
+
+/**
+ * Samples uniformly along a polyline, by arc length. Normals are the right-hand perpendicular
+ * of each segment, flipped when `outwardSign` is negative.
+ */
+export class PolylineShape extends EmissionShape {
+    /** Flat list of vertices [x0, y0, x1, y1, ...] */
+    public readonly points: Float32Array;
+    /** Cumulative length at the end of each segment */
+    public readonly lengths: Float32Array;
+    /** 1 or -1, applied to the right-hand normal of each segment */
+    public readonly outwardSign: number;
+
+    /**
+     * @param points - Flat list of vertices, at least two
+     * @param closed - Whether the last vertex connects back to the first one
+     * @param outwardSign - Sign applied to segment normals (default 1)
+     */
+    constructor(points: ArrayLike<number>, closed: boolean = false, outwardSign: number = 1) {
+        super();
+        if (points.length < 4 || points.length % 2) {
+            throw new Error("EmissionShape - A polyline needs at least two [x, y] vertices");
+        }
+        const count = points.length / 2 + (closed ? 1 : 0);
+        this.points = new Float32Array(count * 2);
+        this.points.set(points);
+        if (closed) {
+            this.points[count * 2 - 2] = points[0];
+            this.points[count * 2 - 1] = points[1];
+        }
+
+        this.lengths = new Float32Array(count - 1);
+        let total = 0;
+        for (let i = 0; i < count - 1; i++) {
+            const dx = this.points[i * 2 + 2] - this.points[i * 2];
+            const dy = this.points[i * 2 + 3] - this.points[i * 2 + 1];
+            total += Math.hypot(dx, dy);
+            this.lengths[i] = total;
+        }
+        this.outwardSign = outwardSign < 0 ? -1 : 1;
+    }
+
+    public sample(random: () => number, out: EmissionSample): EmissionSample {
+        const total = this.lengths[this.lengths.length - 1];
+        const distance = random() * total;
+
+        let index = 0;
+        while (index < this.lengths.length - 1 && this.lengths[index] < distance) index++;
+
+        const start = index > 0 ? this.lengths[index - 1] : 0;
+        const length = this.lengths[index] - start;
+        const t = length > 0 ? (distance - start) / length : 0;
+
+        const x0 = this.points[index * 2];
+        const y0 = this.points[index * 2 + 1];
+        const dx = this.points[index * 2 + 2] - x0;
+        const dy = this.points[index * 2 + 3] - y0;
+
+        out.x = x0 + dx * t;
+        out.y = y0 + dy * t;
+        setNormal(out, dy * this.outwardSign, -dx * this.outwardSign);
+        return out;
+    }
+}
+
+/**
+ * Samples uniformly over the area of a simple polygon, triangulated with ear clipping.
+ * Normals point away from the polygon centroid.
+ */
+export class PolygonAreaShape extends EmissionShape {
+    /** Flat list of vertices [x0, y0, x1, y1, ...] */
+    public readonly points: Float32Array;
+    /** Vertex indices, three per triangle */
+    public readonly triangles: Uint32Array;
+    /** Cumulative area at the end of each triangle */
+    public readonly areas: Float32Array;
+    /** Polygon centroid X */
+    public readonly centerX: number;
+    /** Polygon centroid Y */
+    public readonly centerY: number;
+
+    /**
+     * @param points - Flat list of vertices, at least three
+     * @throws Error if the polygon has no area
+     */
+    constructor(points: ArrayLike<number>) {
+        super();
+        if (points.length < 6 || points.length % 2) {
+            throw new Error("EmissionShape - A polygon needs at least three [x, y] vertices");
+        }
+        this.points = Float32Array.from(points);
+        this.triangles = Uint32Array.from(earcut(Array.from(points)));
+        this.areas = new Float32Array(this.triangles.length / 3);
+
+        let total = 0;
+        let centerX = 0;
+        let centerY = 0;
+        for (let i = 0; i < this.areas.length; i++) {
+            const [ax, ay, bx, by, cx, cy] = this._triangle(i);
+            const area = Math.abs((bx - ax) * (cy - ay) - (cx - ax) * (by - ay)) / 2;
+            total += area;
+            centerX += ((ax + bx + cx) / 3) * area;
+            centerY += ((ay + by + cy) / 3) * area;
+            this.areas[i] = total;
+        }
+        if (total <= 0) {
+            throw new Error("EmissionShape - The polygon has no area");
+        }
+        this.centerX = centerX / total;
+        this.centerY = centerY / total;
+    }
+
+    public sample(random: () => number, out: EmissionSample): EmissionSample {
+        const target = random() * this.areas[this.areas.length - 1];
+        let index = 0;
+        while (index < this.areas.length - 1 && this.areas[index] < target) index++;
+
+        const [ax, ay, bx, by, cx, cy] = this._triangle(index);
+        let u = random();
+        let v = random();
+        if (u + v > 1) {
+            u = 1 - u;
+            v = 1 - v;
+        }
+        out.x = ax + (bx - ax) * u + (cx - ax) * v;
+        out.y = ay + (by - ay) * u + (cy - ay) * v;
+        setNormal(out, out.x - this.centerX, out.y - this.centerY);
+        return out;
+    }
+
+    protected _triangle(index: number): number[] {
+        const a = this.triangles[index * 3] * 2;
+        const b = this.triangles[index * 3 + 1] * 2;
+        const c = this.triangles[index * 3 + 2] * 2;
+        const p = this.points;
+        return [p[a], p[a + 1], p[b], p[b + 1], p[c], p[c + 1]];
+    }
+}
+
+/**
+ * Writes a unit normal into a sample, pointing up for zero vectors.
+ */
+function setNormal(out: EmissionSample, x: number, y: number) {
+    const length = Math.hypot(x, y);
+    if (length > 0) {
+        out.normalX = x / length;
+        out.normalY = y / length;
+    } else {
+        out.normalX = 0;
+        out.normalY = -1;
+    }
+}
+
+/**
+ * Signed area of a flat vertex list; positive when the vertices turn counterclockwise in math coordinates.
+ */
+function signedArea(points: ArrayLike<number>): number {
+    let area = 0;
+    const count = points.length / 2;
+    for (let i = 0; i < count; i++) {
+        const j = (i + 1) % count;
+        area += points[i * 2] * points[j * 2 + 1] - points[j * 2] * points[i * 2 + 1];
+    }
+    return area / 2;
+}
+
+/**
+ * Flattens a chain of cubic bezier curves into a polyline.
+ *
+ * @param points - Start point followed by [cp1, cp2, end] per curve, flat
+ * @param samples - Segments per curve
+ */
+function flattenBezier(points: number[], samples: number): number[] {
+    if (points.length < 8 || (points.length - 2) % 6) {
+        throw new Error("EmissionShape - A path needs a start point followed by [cp1, cp2, end] per curve");
+    }
+    const result = [points[0], points[1]];
+    for (let i = 2; i < points.length; i += 6) {
+        const x0 = points[i - 2];
+        const y0 = points[i - 1];
+        for (let s = 1; s <= samples; s++) {
+            const t = s / samples;
+            const mt = 1 - t;
+            const a = mt * mt * mt;
+            const b = 3 * mt * mt * t;
+            const c = 3 * mt * t * t;
+            const d = t * t * t;
+            result.push(
+                a * x0 + b * points[i] + c * points[i + 2] + d * points[i + 4],
+                a * y0 + b * points[i + 1] + c * points[i + 3] + d * points[i + 5]
+            );
+        }
+    }
+    return result;
+}
+
+EmissionShape.register("point", () => new PointShape());
+EmissionShape.register("circle", (options) => {
+    const { radius, edge, uniform } = options as ParticleEmissionCircle;
+    return new RingShape(radius, edge ? radius : 0, uniform ?? true);
+});
+EmissionShape.register("ring", (options) => {
+    const { radius, innerRadius, uniform } = options as ParticleEmissionRing;
+    return new RingShape(radius, innerRadius, uniform ?? true);
+});
+EmissionShape.register("rectangle", (options) => {
+    const { width, height, edge } = options as ParticleEmissionRectangle;
+    const w = width / 2;
+    const h = height / 2;
+    // Counterclockwise in math coordinates, so right-hand normals point outward
+    const points = [-w, -h, w, -h, w, h, -w, h];
+    return edge ? new PolylineShape(points, true) : new PolygonAreaShape(points);
+});
+EmissionShape.register("line", (options) => {
+    const { x1, y1, x2, y2 } = options as ParticleEmissionLine;
+    return new PolylineShape([x1, y1, x2, y2]);
+});
+EmissionShape.register("polygon", (options) => {
+    const { points, edge } = options as ParticleEmissionPolygon;
+    return edge ? new PolylineShape(points, true, signedArea(points)) : new PolygonAreaShape(points);
+});
+EmissionShape.register("path", (options) => {
+    const { points, samples } = options as ParticleEmissionPath;
+    return new PolylineShape(flattenBezier(points, Math.max(1, Math.floor(samples ?? 16))));
+});
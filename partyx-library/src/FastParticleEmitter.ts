@@ -0,0 +1,815 @@
+import { Particle, Texture } from "pixi.js";
+import type { DestroyOptions, IParticle, PointData, Ticker } from "pixi.js";
+import type {
+    FastParticleEmitterEvents,
+    FastParticleEmitterOptions,
+    ParticleEasingFunction,
+    ParticleEmitterConfig,
+    ParticleEmitterOptions,
+    ParticleOptionStartEnd,
+    ParticleSpawnOptions,
+    ParticleUpdateOptions,
+} from "./types";
+import { ParticleEmitter } from "./ParticleEmitter";
+import { ParticleEmitterBase } from "./ParticleEmitterBase";
+import { pickTexture } from "./ParticleItem";
+import { ParticleCurve, ParticleGradient } from "./ParticleCurve";
+import { ParticleRegistry } from "./ParticleRegistry";
+import { configToEmitterOptions, parseEmitterConfig } from "./ParticleConfig";
+import { resolveEasing } from "./Easing";
+import { EmissionShape } from "./EmissionShape";
+import { ForceField } from "./ForceField";
+import type { EmissionSample } from "./EmissionShape";
+
+/**
+ * Per-particle state, one typed array per property, indexed like `particleChildren`.
+ */
+interface FastParticleData {
+    x: Float32Array;
+    y: Float32Array;
+    velocityX: Float32Array;
+    velocityY: Float32Array;
+    accelerationX: Float32Array;
+    accelerationY: Float32Array;
+    maxVelocityX: Float32Array;
+    maxVelocityY: Float32Array;
+    scaleX: Float32Array;
+    scaleY: Float32Array;
+    scaleVelocityX: Float32Array;
+    scaleVelocityY: Float32Array;
+    scaleAccelerationX: Float32Array;
+    scaleAccelerationY: Float32Array;
+    maxScaleVelocityX: Float32Array;
+    maxScaleVelocityY: Float32Array;
+    scaleStart: Float32Array;
+    scaleEnd: Float32Array;
+    rotation: Float32Array;
+    rotationVelocity: Float32Array;
+    rotationAcceleration: Float32Array;
+    maxRotationVelocity: Float32Array;
+    alpha: Float32Array;
+    alphaStart: Float32Array;
+    alphaEnd: Float32Array;
+    /** Current tint in BGR order, as Particle stores it */
+    tint: Uint32Array;
+    /** Start and end colors in RGB order */
+    colorStart: Uint32Array;
+    colorEnd: Uint32Array;
+    /** Texture size, for bounds and surface factor */
+    width: Float32Array;
+    height: Float32Array;
+    currentLife: Float32Array;
+    lifespan: Float32Array;
+}
+
+/** Options of `fromJSON()` that cannot be part of a config */
+type FastParticleEmitterRuntimeOptions = Pick<
+    FastParticleEmitterOptions,
+    "ticker" | "dynamicProperties" | "blendMode" | "texture" | "roundPixels"
+>;
+
+/** How scale, alpha and color change over the particle lifetime, shared by all the particles of the emitter */
+type FastScaleMode = "physics" | "startEnd" | "curve";
+type FastAlphaMode = "none" | "startEnd" | "curve";
+type FastColorMode = "fixed" | "startEnd" | "gradient";
+
+/** Spawn options that need a ParticleItem */
+const UNSUPPORTED_SPAWN_OPTIONS: (keyof ParticleSpawnOptions)[] = [
+    "onInit",
+    "onUpdate",
+    "animation",
+    "subEmitters",
+    "trail",
+];
+
+/** Update options that need a ParticleItem */
+const UNSUPPORTED_UPDATE_OPTIONS: (keyof ParticleUpdateOptions)[] = ["boundary", "colliders", "fixedStep"];
+
+/**
+ * Converts normalized RGB channels to the BGR number used by Particle.
+ */
+function toBgr(red: number, green: number, blue: number): number {
+    return (((blue * 255 + 0.5) | 0) << 16) + (((green * 255 + 0.5) | 0) << 8) + ((red * 255 + 0.5) | 0);
+}
+
+/**
+ * Converts an RGB number to the BGR number used by Particle.
+ */
+function rgbToBgr(color: number): number {
+    return ((color & 0xff) << 16) + (color & 0xff00) + ((color >> 16) & 0xff);
+}
+
+/**
+ * High-performance emitter for large particle counts, built on Pixi v8's ParticleContainer.
+ * Particles are lightweight Particle objects; their simulation state lives in typed arrays (structure of arrays)
+ * allocated once for `maxParticles`, and dead particles are swapped with the last live one so the arrays stay packed.
+ *
+ * Spawning, bursts, environment, force fields and the over-lifetime options follow the same rules as
+ * ParticleEmitter. Features that need a Sprite per particle (callbacks, function alpha/color, animation, trails,
+ * sub-emitters, boundary and colliders, fixed timestep, world space) are rejected by the constructor.
+ * All textures must come from the same texture source, as required by ParticleContainer.
+ * Which properties are uploaded every frame is chosen from the options, see `dynamicPropertiesFor()`.
+ */
+export class FastParticleEmitter extends ParticleEmitterBase<FastParticleEmitterEvents> {
+    /** Capacity used when the options have no `maxParticles` */
+    public static defaultMaxParticles: number = 10000;
+
+    /** Reuse buffer for emission shape samples */
+    protected static _tmpSample: EmissionSample = { x: 0, y: 0, normalX: 0, normalY: 0 };
+    /** Reuse buffer for force field samples */
+    protected static _tmpForce: PointData = { x: 0, y: 0 };
+    /** Reuse buffer for gradient colors */
+    protected static _tmpColor: Float32Array = new Float32Array(4);
+
+    /** Particle state */
+    protected _data: FastParticleData;
+    /** All the arrays of `_data`, to move a particle from one index to another */
+    protected _columns: (Float32Array | Uint32Array)[];
+    /** Maximum number of live particles */
+    protected _capacity: number;
+    /** Number of live particles */
+    protected _count: number = 0;
+    /** Particle objects of dead particles, reused by the next spawns */
+    protected _free: IParticle[] = [];
+    /** Whether particles were added or removed since the last step */
+    protected _structureChanged: boolean = false;
+
+    /** Compiled over-lifetime options */
+    protected _scaleMode: FastScaleMode = "physics";
+    protected _scaleEasing: ParticleEasingFunction | null = null;
+    protected _scaleCurve: ParticleCurve | null = null;
+    protected _alphaMode: FastAlphaMode = "none";
+    protected _alphaEasing: ParticleEasingFunction | null = null;
+    protected _alphaCurve: ParticleCurve | null = null;
+    protected _colorMode: FastColorMode = "fixed";
+    protected _colorEasing: ParticleEasingFunction | null = null;
+    protected _colorGradient: ParticleGradient | null = null;
+    protected _velocityCurve: ParticleCurve | null = null;
+    protected _rotationVelocityCurve: ParticleCurve | null = null;
+    protected _emissionShape: EmissionShape | null = null;
+    protected _forceFields: ForceField[] = [];
+
+    /**
+     * Creates a fast particle emitter.
+     *
+     * @param options - Emitter options
+     * @throws Error if neither lifespan nor contentFrame is defined, or if an option needs a ParticleEmitter
+     */
+    constructor(options: FastParticleEmitterOptions) {
+        super(options);
+
+        if (!options.spawnOptions.lifespan && !options.contentFrame) {
+            throw new Error("FastParticleEmitter - You must define a lifespan or a contentFrame");
+        }
+        FastParticleEmitter._assertSupported(options.spawnOptions, options.updateOptions);
+
+        const maxParticles = options.maxParticles ?? FastParticleEmitter.defaultMaxParticles;
+        this._capacity = maxParticles >= 0 ? maxParticles : FastParticleEmitter.defaultMaxParticles;
+        this._data = FastParticleEmitter._allocate(this._capacity);
+        this._columns = Object.values(this._data);
+
+        this._compileSpawnOptions();
+        this._applyUpdateOptions();
+
+        this.reset();
+    }
+
+    /**
+     * Creates a fast particle emitter from a serialized config. The particle class of the config is ignored.
+     *
+     * @param json - JSON string or parsed ParticleEmitterConfig
+     * @param options - Runtime-only options that cannot be part of the config (optional)
+     * @returns A new fast particle emitter
+     * @throws ParticleConfigError if the config is invalid, reporting the offending path
+     */
+    public static fromJSON(
+        json: string | ParticleEmitterConfig,
+        options: FastParticleEmitterRuntimeOptions & Pick<ParticleEmitterOptions, "registry"> = {}
+    ) {
+        const { registry, ...renderOptions } = options;
+        const config = parseEmitterConfig(json);
+        const emitterOptions = configToEmitterOptions(config, registry || ParticleRegistry.shared);
+        return new FastParticleEmitter({
+            maxParticles: emitterOptions.maxParticles,
+            spawnOptions: emitterOptions.spawnOptions,
+            updateOptions: emitterOptions.updateOptions,
+            contentFrame: emitterOptions.contentFrame,
+            seed: emitterOptions.seed,
+            ...renderOptions,
+        });
+    }
+
+    /**
+     * Throws if the options use a feature the fast emitter does not have.
+     */
+    protected static _assertSupported(spawnOptions: ParticleSpawnOptions, updateOptions: ParticleUpdateOptions) {
+        for (const key of UNSUPPORTED_SPAWN_OPTIONS) {
+            if (spawnOptions[key] !== undefined) {
+                throw new Error(`FastParticleEmitter - spawnOptions.${key} is not supported, use a ParticleEmitter`);
+            }
+        }
+        for (const key of ["alpha", "color"] as const) {
+            if (typeof spawnOptions[key] === "function") {
+                throw new Error(`FastParticleEmitter - Function ${key} is not supported, use a ParticleEmitter`);
+            }
+        }
+        for (const key of UNSUPPORTED_UPDATE_OPTIONS) {
+            if (updateOptions[key] !== undefined) {
+                throw new Error(`FastParticleEmitter - updateOptions.${key} is not supported, use a ParticleEmitter`);
+            }
+        }
+        if (updateOptions.space === "world") {
+            throw new Error("FastParticleEmitter - World space is not supported, use a ParticleEmitter");
+        }
+    }
+
+    /**
+     * Allocates the particle state for a number of particles.
+     */
+    protected static _allocate(capacity: number): FastParticleData {
+        return {
+            x: new Float32Array(capacity),
+            y: new Float32Array(capacity),
+            velocityX: new Float32Array(capacity),
+            velocityY: new Float32Array(capacity),
+            accelerationX: new Float32Array(capacity),
+            accelerationY: new Float32Array(capacity),
+            maxVelocityX: new Float32Array(capacity),
+            maxVelocityY: new Float32Array(capacity),
+            scaleX: new Float32Array(capacity),
+            scaleY: new Float32Array(capacity),
+            scaleVelocityX: new Float32Array(capacity),
+            scaleVelocityY: new Float32Array(capacity),
+            scaleAccelerationX: new Float32Array(capacity),
+            scaleAccelerationY: new Float32Array(capacity),
+            maxScaleVelocityX: new Float32Array(capacity),
+            maxScaleVelocityY: new Float32Array(capacity),
+            scaleStart: new Float32Array(capacity),
+            scaleEnd: new Float32Array(capacity),
+            rotation: new Float32Array(capacity),
+            rotationVelocity: new Float32Array(capacity),
+            rotationAcceleration: new Float32Array(capacity),
+            maxRotationVelocity: new Float32Array(capacity),
+            alpha: new Float32Array(capacity),
+            alphaStart: new Float32Array(capacity),
+            alphaEnd: new Float32Array(capacity),
+            tint: new Uint32Array(capacity),
+            colorStart: new Uint32Array(capacity),
+            colorEnd: new Uint32Array(capacity),
+            width: new Float32Array(capacity),
+            height: new Float32Array(capacity),
+            currentLife: new Float32Array(capacity),
+            lifespan: new Float32Array(capacity),
+        };
+    }
+
+    /**
+     * Resolves the over-lifetime modes, curves and easings of the spawn options once for all particles.
+     */
+    protected _compileSpawnOptions() {
+        const { scale, alpha, color, position, rotation, emissionShape } = this._spawnOptions;
+
+        this._scaleMode = "physics";
+        this._scaleCurve = null;
+        this._scaleEasing = null;
+        if (scale !== undefined && typeof scale === "object" && !Array.isArray(scale)) {
+            if ("start" in scale && "end" in scale) {
+                this._scaleMode = "startEnd";
+                this._scaleEasing = resolveEasing(scale.easing);
+            } else if ("keyframes" in scale) {
+                this._scaleMode = "curve";
+                this._scaleCurve = ParticleCurve.from(scale);
+            }
+        }
+
+        this._alphaMode = "none";
+        this._alphaCurve = null;
+        this._alphaEasing = null;
+        if (alpha && typeof alpha === "object") {
+            if ("keyframes" in alpha) {
+                this._alphaMode = "curve";
+                this._alphaCurve = ParticleCurve.from(alpha);
+            } else {
+                this._alphaMode = "startEnd";
+                this._alphaEasing = resolveEasing(alpha.easing);
+            }
+        }
+
+        this._colorMode = "fixed";
+        this._colorGradient = null;
+        this._colorEasing = null;
+        if (color && typeof color === "object" && !Array.isArray(color)) {
+            if ("gradient" in color) {
+                this._colorMode = "gradient";
+                this._colorGradient = ParticleGradient.from(color);
+            } else if (color.start && color.end) {
+                this._colorMode = "startEnd";
+                this._colorEasing = resolveEasing(color.easing);
+            }
+        }
+
+        this._velocityCurve = position.velocityCurve ? ParticleCurve.from(position.velocityCurve) : null;
+        this._rotationVelocityCurve = rotation?.velocityCurve ? ParticleCurve.from(rotation.velocityCurve) : null;
+        this._emissionShape = emissionShape ? EmissionShape.from(emissionShape) : null;
+    }
+
+    /**
+     * Copies environment, force fields and spawn duration from the update options into the live emitter state.
+     */
+    protected _applyUpdateOptions() {
+        super._applyUpdateOptions();
+        this._forceFields = (this._updateOptions.forceFields || []).map((field) => ForceField.from(field));
+    }
+
+    /**
+     * Gets the number of live particles.
+     */
+    public get particleCount(): number {
+        return this._count;
+    }
+
+    /**
+     * Gets the maximum number of live particles.
+     */
+    public get maxParticles(): number {
+        return this._capacity;
+    }
+
+    /**
+     * Spawns particles right away, regardless of the spawn rate and `spawn` flag.
+     * Stops early when the emitter is full and the overflow policy drops new particles.
+     *
+     * @param count - Number of particles to spawn
+     * @returns The number of particles actually spawned
+     */
+    public burst(count: number) {
+        let spawned = 0;
+        while (spawned < count && this._spawnParticle()) {
+            spawned++;
+        }
+        // The failed spawn is already counted, the rest of the burst is dropped with it
+        if (spawned < count) {
+            this._droppedCount += count - spawned - 1;
+        }
+        return spawned;
+    }
+
+    /**
+     * Adds a particle at the end of the live ones, making room for it when the overflow policy allows.
+     *
+     * @returns True if the particle was spawned
+     */
+    protected _spawnParticle(): boolean {
+        if (this._count >= this._capacity && !this._recycleParticle()) {
+            this._droppedCount++;
+            return false;
+        }
+
+        const particle = this._free.pop() ?? new Particle({ texture: Texture.EMPTY, anchorX: 0.5, anchorY: 0.5 });
+        const index = this._count++;
+        this.particleChildren.push(particle);
+        this._initParticle(index, particle);
+
+        this._structureChanged = true;
+        this._hasEmitted = true;
+        return true;
+    }
+
+    /**
+     * Samples the spawn options into the state of a new particle, in the same order as ParticleItem.
+     *
+     * @param index - Index of the particle
+     * @param particle - Particle object rendering it
+     */
+    protected _initParticle(index: number, particle: IParticle) {
+        const data = this._data;
+        const options = this._spawnOptions;
+        const position = options.position;
+        const random = this._random.random;
+        const range = ParticleEmitter.randomFromRange;
+        const seed = random();
+
+        // Position and velocity
+        let x = range(position.x, random);
+        let y = range(position.y, random);
+        let velocityX = 0;
+        let velocityY = 0;
+        if (position.speed !== undefined) {
+            const angle = this.direction + range(position.angle, random) + (random() - 0.5) * (position.spread ?? 0);
+            const speed = range(position.speed, random);
+            velocityX = Math.cos(angle) * speed;
+            velocityY = Math.sin(angle) * speed;
+        } else if (position.velocity) {
+            velocityX = velocityY = range(position.velocity, random);
+        } else {
+            if (position.velocityX) velocityX = range(position.velocityX, random);
+            if (position.velocityY) velocityY = range(position.velocityY, random);
+        }
+
+        if (position.acceleration) {
+            data.accelerationX[index] = data.accelerationY[index] = range(position.acceleration, random);
+        } else {
+            data.accelerationX[index] = position.accelerationX ? range(position.accelerationX, random) : 0;
+            data.accelerationY[index] = position.accelerationY ? range(position.accelerationY, random) : 0;
+        }
+        data.maxVelocityX[index] = position.maxVelocity || position.maxVelocityX || -1;
+        data.maxVelocityY[index] = position.maxVelocity || position.maxVelocityY || -1;
+
+        if (this._emissionShape) {
+            const sample = this._emissionShape.sample(random, FastParticleEmitter._tmpSample);
+            x += sample.x;
+            y += sample.y;
+            if (options.emissionShape!.normalVelocity !== undefined) {
+                const speed = range(options.emissionShape!.normalVelocity, random);
+                velocityX += sample.normalX * speed;
+                velocityY += sample.normalY * speed;
+            }
+        }
+        data.x[index] = x;
+        data.y[index] = y;
+        data.velocityX[index] = velocityX;
+        data.velocityY[index] = velocityY;
+
+        this._initScale(index, options, random);
+
+        // Rotation
+        const rotation = options.rotation;
+        data.rotation[index] = rotation ? range(rotation.value, random) : 0;
+        data.rotationVelocity[index] = rotation?.velocity ? range(rotation.velocity, random) : 0;
+        data.rotationAcceleration[index] = rotation?.acceleration ? range(rotation.acceleration, random) : 0;
+        data.maxRotationVelocity[index] = rotation?.maxVelocity || -1;
+
+        // Alpha
+        data.alpha[index] = 1;
+        if (this._alphaMode === "curve") {
+            data.alpha[index] = this._alphaCurve!.evaluate(0);
+        } else if (this._alphaMode === "startEnd") {
+            const alpha = options.alpha as ParticleOptionStartEnd;
+            data.alphaStart[index] = range(alpha.start, random);
+            data.alphaEnd[index] = range(alpha.end, random);
+            if (data.alphaStart[index] > -1) data.alpha[index] = data.alphaStart[index];
+        }
+
+        this._initColor(index, options, seed, random);
+
+        // Texture
+        let texture = this.texture ?? Texture.EMPTY;
+        if (options.textures?.length) {
+            texture = pickTexture(options.textures, random());
+        } else if (options.texture) {
+            texture = typeof options.texture === "string" ? Texture.from(options.texture) : options.texture;
+        }
+        particle.texture = texture;
+        data.width[index] = texture.width;
+        data.height[index] = texture.height;
+
+        data.lifespan[index] = options.lifespan ? range(options.lifespan, random) : Infinity;
+        data.currentLife[index] = 0;
+
+        this._render(index, particle);
+    }
+
+    /**
+     * Samples the scale of a new particle: fixed, start/end, keyframes or 2D physics.
+     */
+    protected _initScale(index: number, options: ParticleSpawnOptions, random: () => number) {
+        const data = this._data;
+        const range = ParticleEmitter.randomFromRange;
+        const scale = options.scale;
+        let scaleX = 1;
+        let scaleY = 1;
+        data.scaleVelocityX[index] = data.scaleVelocityY[index] = 0;
+        data.scaleAccelerationX[index] = data.scaleAccelerationY[index] = 0;
+        data.maxScaleVelocityX[index] = data.maxScaleVelocityY[index] = -1;
+
+        if (Array.isArray(scale) || typeof scale === "number") {
+            scaleX = scaleY = range(scale, random);
+        } else if (this._scaleMode === "startEnd" && scale && "start" in scale) {
+            data.scaleStart[index] = range(scale.start, random);
+            data.scaleEnd[index] = range(scale.end, random);
+            scaleX = scaleY = data.scaleStart[index];
+        } else if (this._scaleMode === "curve") {
+            scaleX = scaleY = this._scaleCurve!.evaluate(0);
+        } else if (scale && "x" in scale && "y" in scale) {
+            scaleX = range(scale.x, random);
+            scaleY = range(scale.y, random);
+            if (scale.velocity) {
+                data.scaleVelocityX[index] = data.scaleVelocityY[index] = range(scale.velocity, random);
+            } else {
+                if (scale.velocityX) data.scaleVelocityX[index] = range(scale.velocityX, random);
+                if (scale.velocityY) data.scaleVelocityY[index] = range(scale.velocityY, random);
+            }
+            if (scale.acceleration) {
+                data.scaleAccelerationX[index] = data.scaleAccelerationY[index] = range(scale.acceleration, random);
+            } else {
+                if (scale.accelerationX) data.scaleAccelerationX[index] = range(scale.accelerationX, random);
+                if (scale.accelerationY) data.scaleAccelerationY[index] = range(scale.accelerationY, random);
+            }
+            data.maxScaleVelocityX[index] = scale.maxVelocity || scale.maxVelocityX || -1;
+            data.maxScaleVelocityY[index] = scale.maxVelocity || scale.maxVelocityY || -1;
+        }
+        data.scaleX[index] = scaleX;
+        data.scaleY[index] = scaleY;
+    }
+
+    /**
+     * Samples the tint of a new particle: fixed, picked from a list, start/end or gradient.
+     */
+    protected _initColor(index: number, options: ParticleSpawnOptions, seed: number, random: () => number) {
+        const data = this._data;
+        const color = options.color;
+        data.tint[index] = 0xffffff;
+
+        if (Array.isArray(color)) {
+            data.tint[index] = rgbToBgr(color[Math.floor(seed * color.length)]);
+        } else if (typeof color === "number") {
+            data.tint[index] = rgbToBgr(color);
+        } else if (this._colorMode === "gradient") {
+            const rgb = this._colorGradient!.evaluate(0, FastParticleEmitter._tmpColor);
+            data.tint[index] = toBgr(rgb[0], rgb[1], rgb[2]);
+        } else if (this._colorMode === "startEnd" && color && typeof color === "object" && "start" in color) {
+            data.colorStart[index] = ParticleEmitter.randomFromRange(color.start, random);
+            data.colorEnd[index] = ParticleEmitter.randomFromRange(color.end, random);
+            data.tint[index] = rgbToBgr(data.colorStart[index]);
+        }
+    }
+
+    /**
+     * Copies the state of a particle to the Particle object rendering it.
+     */
+    protected _render(index: number, particle: IParticle) {
+        const data = this._data;
+        const alpha = Math.min(Math.max(data.alpha[index], 0), 1);
+        particle.x = data.x[index];
+        particle.y = data.y[index];
+        particle.scaleX = data.scaleX[index];
+        particle.scaleY = data.scaleY[index];
+        particle.rotation = data.rotation[index];
+        particle.color = data.tint[index] + (((alpha * 255) | 0) << 24);
+    }
+
+    /**
+     * Kills the particle picked by the overflow policy, so a new one can take its place.
+     * Particles are not kept in spawn order, so `oldest` picks the one that lived the longest.
+     *
+     * @returns True if a particle was recycled
+     */
+    protected _recycleParticle(): boolean {
+        const policy = this._updateOptions.overflow ?? "drop";
+        const count = this._count;
+        if (policy === "drop" || count === 0) return false;
+
+        const { currentLife, lifespan } = this._data;
+        let victim = 0;
+        if (policy === "random") {
+            victim = Math.floor(this._random.random() * count);
+        } else {
+            let best = -Infinity;
+            for (let i = 0; i < count; i++) {
+                const score = policy === "oldest" ? currentLife[i] : currentLife[i] - lifespan[i];
+                if (score > best) {
+                    best = score;
+                    victim = i;
+                }
+            }
+        }
+
+        this._killParticle(victim);
+        return true;
+    }
+
+    /**
+     * Removes a particle by moving the last live particle in its place.
+     *
+     * @param index - Index of the particle
+     */
+    protected _killParticle(index: number) {
+        const last = --this._count;
+        const children = this.particleChildren;
+        this._free.push(children[index]);
+
+        if (index !== last) {
+            children[index] = children[last];
+            const columns = this._columns;
+            for (let i = 0; i < columns.length; i++) {
+                columns[i][index] = columns[i][last];
+            }
+        }
+        children.pop();
+        this._structureChanged = true;
+    }
+
+    /**
+     * Updates the live particles: lifetime and bounds checks, environment, then the same integration as
+     * `ParticleItem.updatePhysics()`.
+     *
+     * @param elapsedMS - Simulated time in milliseconds
+     */
+    protected _updateParticles(elapsedMS: number) {
+        const elapsedSec = elapsedMS / 1000;
+        const data = this._data;
+        const { x, y, velocityX, velocityY, accelerationX, accelerationY, currentLife, lifespan } = data;
+        const { scaleX, scaleY, scaleVelocityX, scaleVelocityY, scaleAccelerationX, scaleAccelerationY } = data;
+        const { rotation, rotationVelocity, rotationAcceleration, alpha, tint, width, height } = data;
+        const children = this.particleChildren;
+        const frame = this._contentFrame;
+        const { gravity, airResistance, windX, windY, affectSurface } = this._environment;
+        const surfaceAffected = this.isPhysicsAffectedByParticleSurface;
+        const forceFields = this._forceFields;
+        const time = this._elapsedTime / 1000;
+        const force = FastParticleEmitter._tmpForce;
+        const rgb = FastParticleEmitter._tmpColor;
+        const clampAbs = ParticleEmitterBase.clampAbs;
+
+        for (let i = this._count - 1; i >= 0; i--) {
+            if (currentLife[i] >= lifespan[i]) {
+                this._killParticle(i);
+                continue;
+            }
+            if (frame) {
+                const w = width[i] * Math.abs(scaleX[i]);
+                const h = height[i] * Math.abs(scaleY[i]);
+                const left = x[i] - w * 0.5;
+                const top = y[i] - h * 0.5;
+                if (left + w < frame.x || left > frame.x + frame.width || top + h < frame.y || top > frame.bottom) {
+                    this._killParticle(i);
+                    continue;
+                }
+            }
+
+            // Environment, with a mass of 1
+            const surfaceFactor = (width[i] * height[i] * scaleX[i] * scaleY[i]) / 1000;
+            const surface = surfaceAffected ? surfaceFactor : 1;
+            if (gravity) {
+                velocityY[i] += gravity * elapsedSec;
+            }
+            if (airResistance) {
+                const reduction = elapsedSec * surface * airResistance;
+                const absX = Math.abs(velocityX[i]);
+                const absY = Math.abs(velocityY[i]);
+                velocityX[i] = absX > reduction * absX ? Math.sign(velocityX[i]) * (absX - reduction * absX) : 0;
+                velocityY[i] = absY > reduction * absY ? Math.sign(velocityY[i]) * (absY - reduction * absY) : 0;
+            }
+            if (windX) {
+                velocityX[i] += windX * surface * elapsedSec;
+            }
+            if (windY) {
+                velocityY[i] += windY * surface * elapsedSec;
+            }
+            if (forceFields.length) {
+                const weight = (affectSurface ? surfaceFactor : 1) * elapsedSec;
+                for (let f = 0; f < forceFields.length; f++) {
+                    if (!forceFields[f].enabled) continue;
+                    forceFields[f].sample(x[i], y[i], time, force);
+                    velocityX[i] += force.x * weight;
+                    velocityY[i] += force.y * weight;
+                }
+            }
+
+            // Lifetime
+            const safeLifespan = lifespan[i] > 0 ? lifespan[i] : Infinity;
+            currentLife[i] += elapsedSec;
+            const lifePercent = safeLifespan === Infinity ? 0 : Math.min(currentLife[i] / safeLifespan, 1);
+
+            // Position
+            const velocityFactor = this._velocityCurve ? this._velocityCurve.evaluate(lifePercent) : 1;
+            x[i] += velocityX[i] * velocityFactor * elapsedSec;
+            y[i] += velocityY[i] * velocityFactor * elapsedSec;
+            velocityX[i] += accelerationX[i] * elapsedSec;
+            velocityY[i] += accelerationY[i] * elapsedSec;
+
+            // Scale
+            if (this._scaleMode === "curve") {
+                scaleX[i] = scaleY[i] = this._scaleCurve!.evaluate(lifePercent);
+            } else if (this._scaleMode === "startEnd") {
+                const progress = this._scaleEasing ? this._scaleEasing(lifePercent) : lifePercent;
+                scaleX[i] = scaleY[i] = data.scaleStart[i] + (data.scaleEnd[i] - data.scaleStart[i]) * progress;
+            } else {
+                scaleX[i] += scaleVelocityX[i] * elapsedSec;
+                scaleY[i] += scaleVelocityY[i] * elapsedSec;
+                scaleVelocityX[i] += scaleAccelerationX[i] * elapsedSec;
+                scaleVelocityY[i] += scaleAccelerationY[i] * elapsedSec;
+            }
+
+            // Rotation
+            const rotationFactor = this._rotationVelocityCurve
+                ? this._rotationVelocityCurve.evaluate(lifePercent)
+                : 1;
+            rotation[i] += rotationVelocity[i] * rotationFactor * elapsedSec;
+            rotationVelocity[i] += rotationAcceleration[i] * elapsedSec;
+
+            // Alpha
+            if (this._alphaMode === "curve") {
+                alpha[i] = this._alphaCurve!.evaluate(lifePercent);
+            } else if (this._alphaMode === "startEnd" && data.alphaStart[i] > -1 && data.alphaEnd[i] > -1) {
+                const progress = this._alphaEasing ? this._alphaEasing(lifePercent) : lifePercent;
+                alpha[i] = data.alphaStart[i] + (data.alphaEnd[i] - data.alphaStart[i]) * progress;
+            }
+
+            // Color
+            if (this._colorMode === "gradient") {
+                this._colorGradient!.evaluate(lifePercent, rgb);
+                tint[i] = toBgr(rgb[0], rgb[1], rgb[2]);
+            } else if (this._colorMode === "startEnd") {
+                const progress = this._colorEasing ? this._colorEasing(lifePercent) : lifePercent;
+                const start = data.colorStart[i];
+                const end = data.colorEnd[i];
+                for (let c = 0; c < 3; c++) {
+                    const from = ((start >> (16 - c * 8)) & 0xff) / 255;
+                    rgb[c] = from + (((end >> (16 - c * 8)) & 0xff) / 255 - from) * progress;
+                }
+                tint[i] = toBgr(rgb[0], rgb[1], rgb[2]);
+            }
+
+            // Max Velocities (clamp by magnitude so it works with negative speeds too)
+            velocityX[i] = clampAbs(velocityX[i], data.maxVelocityX[i]);
+            velocityY[i] = clampAbs(velocityY[i], data.maxVelocityY[i]);
+            scaleVelocityX[i] = clampAbs(scaleVelocityX[i], data.maxScaleVelocityX[i]);
+            scaleVelocityY[i] = clampAbs(scaleVelocityY[i], data.maxScaleVelocityY[i]);
+            rotationVelocity[i] = clampAbs(rotationVelocity[i], data.maxRotationVelocity[i]);
+
+            this._render(i, children[i]);
+        }
+    }
+
+    /**
+     * Main update loop, called by the ticker when `autoUpdate` is on.
+     *
+     * @param ticker - The ticker providing timing information
+     */
+    public updateEmitter(ticker: Ticker) {
+        this._updateElapsed += ticker.deltaMS;
+        if (this._updateElapsed < this._updateOptions.interval) return;
+
+        this._advance(this._updateElapsed);
+        this._updateElapsed = 0;
+    }
+
+    /**
+     * Runs the spawn and physics loop headlessly for the given time, in steps of the update interval
+     * (at least one 60 FPS frame), without waiting for the ticker.
+     *
+     * @param ms - Time to simulate in milliseconds
+     */
+    public simulate(ms: number) {
+        if (!(ms > 0)) return;
+
+        const step = Math.max(this._updateOptions.interval, ParticleEmitter.simulationStep);
+        for (let remaining = ms; remaining > 0 && !this.destroyed; remaining -= step) {
+            this._advance(Math.min(step, remaining));
+        }
+    }
+
+    /**
+     * Advances the simulation by one step: spawning, bursts, spawn duration, then particle physics.
+     *
+     * @param elapsedMS - Simulated time in milliseconds
+     */
+    protected _advance(elapsedMS: number) {
+        this._updateEmission(elapsedMS);
+        this._updateParticles(elapsedMS);
+
+        // Static properties are only uploaded when the particle list changed
+        if (this._structureChanged) {
+            this._structureChanged = false;
+            this.update();
+        }
+
+        this._checkComplete();
+    }
+
+    /**
+     * Checks whether particles are alive.
+     */
+    protected _hasParticles(): boolean {
+        return this._count > 0;
+    }
+
+    /**
+     * Resets the emitter to its initial state, clearing all particles and resetting timers.
+     */
+    public reset() {
+        super.reset();
+
+        // Spreading the list into push() overflows the call stack with large particle counts
+        const particles = this.particleChildren;
+        for (let i = 0; i < particles.length; i++) {
+            this._free.push(particles[i]);
+        }
+        particles.length = 0;
+        this._count = 0;
+        this.update();
+    }
+
+    /**
+     * Destroys the emitter and its particles.
+     *
+     * @param options - Destruction options for the display object
+     */
+    public destroy(options?: DestroyOptions | boolean) {
+        this._stopUpdate();
+        this._free = [];
+        this._count = 0;
+        super.destroy(options);
+    }
+}
@@ -0,0 +1,372 @@
+import type { PointData } from "pixi.js";
+import { ParticleRandom } from "./ParticleRandom";
+import type {
+    ParticleAttractorField,
+    ParticleDirectionalField,
+    ParticleForceFalloff,
+    ParticleForceFieldOptions,
+    ParticleTurbulenceField,
+    ParticleVortexField,
+} from "./types";
+
+/**
+ * Creates a force field from its options. Used to plug custom fields in.
+ */
+export type ForceFieldFactory = (options: ParticleForceFieldOptions) => ForceField;
+
+/**
+ * Base class of force fields. A field gives an acceleration for each position of the emitter space,
+ * applied to particles in the same integration step as gravity and wind.
+ * Fields from the update options are compiled once per options object and cached; fields added at runtime
+ * with `ParticleEmitter.addForceField()` are separate instances whose properties can be changed freely.
+ */
+export abstract class ForceField {
+    protected static _factories: Map<string, ForceFieldFactory> = new Map();
+    protected static _cache: WeakMap<ParticleForceFieldOptions, ForceField> = new WeakMap();
+
+    /** Whether the field is applied */
+    public enabled: boolean = true;
+
+    /**
+     * Registers a field type so update options and configs can reference it by `type`.
+     * Built-in types can be overridden.
+     *
+     * @param type - Field type name
+     * @param factory - Creates the field from its options
+     */
+    public static register(type: string, factory: ForceFieldFactory) {
+        ForceField._factories.set(type, factory);
+    }
+
+    /**
+     * Checks whether a field type is registered.
+     *
+     * @param type - Field type name
+     */
+    public static has(type: string): boolean {
+        return ForceField._factories.has(type);
+    }
+
+    /**
+     * Creates a new field from its options.
+     *
+     * @param options - Force field options
+     * @returns A new field
+     * @throws Error if the field type is not registered or the options are invalid
+     */
+    public static create(options: ParticleForceFieldOptions): ForceField {
+        const factory = ForceField._factories.get(options.type);
+        if (!factory) {
+            throw new Error(`ForceField - Unknown force field "${options.type}"`);
+        }
+        return factory(options);
+    }
+
+    /**
+     * Gets the compiled field for an options object, creating it on first use.
+     *
+     * @param options - Force field options
+     * @returns The compiled field
+     * @throws Error if the field type is not registered or the options are invalid
+     */
+    public static from(options: ParticleForceFieldOptions): ForceField {
+        let field = ForceField._cache.get(options);
+        if (!field) {
+            field = ForceField.create(options);
+            ForceField._cache.set(options, field);
+        }
+        return field;
+    }
+
+    /**
+     * Samples the field.
+     *
+     * @param x - X position in emitter space
+     * @param y - Y position in emitter space
+     * @param time - Simulated time in seconds, for fields changing over time
+     * @param out - Point receiving the acceleration in pixels per second squared
+     * @returns The `out` point
+     */
+    public abstract sample(x: number, y: number, time: number, out: PointData): PointData;
+}
+
+/**
+ * Weight of a field at a distance from its center.
+ *
+ * @param distance - Distance to the center
+ * @param radius - Range of the field, Infinity for no limit
+ * @param falloff - How the weight decreases towards the range
+ */
+function falloffWeight(distance: number, radius: number, falloff: ParticleForceFalloff): number {
+    if (distance >= radius) return 0;
+    if (radius === Infinity || falloff === "none") return 1;
+    const t = 1 - distance / radius;
+    return falloff === "linear" ? t : t * t;
+}
+
+/**
+ * Pulls particles towards a point, or pushes them away with a negative strength.
+ */
+export class PointForceField extends ForceField {
+    /** Center X */
+    public x: number;
+    /** Center Y */
+    public y: number;
+    /** Acceleration at the center in pixels per second squared, negative to repel */
+    public strength: number;
+    /** Range of the field */
+    public radius: number;
+    /** How the strength decreases towards the range */
+    public falloff: ParticleForceFalloff;
+
+    /**
+     * @param x - Center X
+     * @param y - Center Y
+     * @param strength - Acceleration at the center, negative to repel
+     * @param radius - Range of the field (default Infinity)
+     * @param falloff - How the strength decreases towards the range (default quadratic)
+     */
+    constructor(
+        x: number,
+        y: number,
+        strength: number,
+        radius: number = Infinity,
+        falloff: ParticleForceFalloff = "quadratic"
+    ) {
+        super();
+        this.x = x;
+        this.y = y;
+        this.strength = strength;
+        this.radius = radius;
+        this.falloff = falloff;
+    }
+
+    public sample(x: number, y: number, _time: number, out: PointData): PointData {
+        const dx = this.x - x;
+        const dy = this.y - y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const weight = distance > 1e-6 ? falloffWeight(distance, this.radius, this.falloff) : 0;
+        const scale = (this.strength * weight) / (distance || 1);
+        out.x = dx * scale;
+        out.y = dy * scale;
+        return out;
+    }
+}
+
+/**
+ * Makes particles orbit around a point, optionally pulling them in.
+ */
+export class VortexForceField extends ForceField {
+    /** Center X */
+    public x: number;
+    /** Center Y */
+    public y: number;
+    /** Tangential acceleration in pixels per second squared, positive turns clockwise on screen */
+    public strength: number;
+    /** Acceleration towards the center, negative to push particles out */
+    public pull: number;
+    /** Range of the field */
+    public radius: number;
+    /** How the strength decreases towards the range */
+    public falloff: ParticleForceFalloff;
+
+    /**
+     * @param x - Center X
+     * @param y - Center Y
+     * @param strength - Tangential acceleration, positive turns clockwise on screen
+     * @param pull - Acceleration towards the center (default 0)
+     * @param radius - Range of the field (default Infinity)
+     * @param falloff - How the strength decreases towards the range (default quadratic)
+     */
+    constructor(
+        x: number,
+        y: number,
+        strength: number,
+        pull: number = 0,
+        radius: number = Infinity,
+        falloff: ParticleForceFalloff = "quadratic"
+    ) {
+        super();
+        this.x = x;
+        this.y = y;
+        this.strength = strength;
+        this.pull = pull;
+        this.radius = radius;
+        this.falloff = falloff;
+    }
+
+    public sample(x: number, y: number, _time: number, out: PointData): PointData {
+        const dx = this.x - x;
+        const dy = this.y - y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance <= 1e-6) {
+            out.x = out.y = 0;
+            return out;
+        }
+
+        const weight = falloffWeight(distance, this.radius, this.falloff) / distance;
+        out.x = (dy * this.strength + dx * this.pull) * weight;
+        out.y = (-dx * this.strength + dy * this.pull) * weight;
+        return out;
+    }
+}
+
+/**
+ * Constant acceleration inside a rectangular zone, or everywhere without a zone.
+ */
+export class DirectionalForceField extends ForceField {
+    /** Acceleration along X in pixels per second squared */
+    public forceX: number;
+    /** Acceleration along Y in pixels per second squared */
+    public forceY: number;
+    /** Zone the field applies to, null for everywhere */
+    public zone: { x: number; y: number; width: number; height: number } | null;
+
+    /**
+     * @param forceX - Acceleration along X
+     * @param forceY - Acceleration along Y
+     * @param zone - Zone the field applies to (default everywhere)
+     */
+    constructor(forceX: number, forceY: number, zone: DirectionalForceField["zone"] = null) {
+        super();
+        this.forceX = forceX;
+        this.forceY = forceY;
+        this.zone = zone;
+    }
+
+    public sample(x: number, y: number, _time: number, out: PointData): PointData {
+        const zone = this.zone;
+        const inside =
+            !zone || (x >= zone.x && x <= zone.x + zone.width && y >= zone.y && y <= zone.y + zone.height);
+        out.x = inside ? this.forceX : 0;
+        out.y = inside ? this.forceY : 0;
+        return out;
+    }
+}
+
+/**
+ * Swirling, divergence-free turbulence: the curl of a 3D gradient noise, whose third axis is time.
+ */
+export class TurbulenceForceField extends ForceField {
+    /** Acceleration scale in pixels per second squared */
+    public strength: number;
+    /** Noise frequency, the inverse of the size of the swirls in pixels */
+    public scale: number;
+    /** How fast the swirls change, in noise units per second */
+    public speed: number;
+    /** Permutation table of the noise */
+    protected _permutation: Uint8Array = new Uint8Array(512);
+
+    /**
+     * @param strength - Acceleration scale
+     * @param scale - Noise frequency (default 0.01, swirls of about 100 pixels)
+     * @param speed - How fast the swirls change (default 0.5)
+     * @param seed - Seed of the noise (default 0)
+     */
+    constructor(strength: number, scale: number = 0.01, speed: number = 0.5, seed: number = 0) {
+        super();
+        this.strength = strength;
+        this.scale = scale;
+        this.speed = speed;
+
+        const random = new ParticleRandom(seed);
+        const values = Array.from({ length: 256 }, (_, i) => i);
+        for (let i = values.length - 1; i > 0; i--) {
+            const j = Math.floor(random.next() * (i + 1));
+            [values[i], values[j]] = [values[j], values[i]];
+        }
+        for (let i = 0; i < 512; i++) {
+            this._permutation[i] = values[i & 255];
+        }
+    }
+
+    public sample(x: number, y: number, time: number, out: PointData): PointData {
+        const epsilon = 1e-3;
+        const nx = x * this.scale;
+        const ny = y * this.scale;
+        const nz = time * this.speed;
+
+        // Curl of the potential: (dψ/dy, -dψ/dx)
+        const dy = this._noise(nx, ny + epsilon, nz) - this._noise(nx, ny - epsilon, nz);
+        const dx = this._noise(nx + epsilon, ny, nz) - this._noise(nx - epsilon, ny, nz);
+        out.x = (this.strength * dy) / (2 * epsilon);
+        out.y = (-this.strength * dx) / (2 * epsilon);
+        return out;
+    }
+
+    /**
+     * Improved Perlin noise, in [-1, 1].
+     */
+    protected _noise(x: number, y: number, z: number): number {
+        const p = this._permutation;
+        const floorX = Math.floor(x);
+        const floorY = Math.floor(y);
+        const floorZ = Math.floor(z);
+        const X = floorX & 255;
+        const Y = floorY & 255;
+        const Z = floorZ & 255;
+        x -= floorX;
+        y -= floorY;
+        z -= floorZ;
+
+        const u = fade(x);
+        const v = fade(y);
+        const w = fade(z);
+        const A = p[X] + Y;
+        const AA = p[A] + Z;
+        const AB = p[A + 1] + Z;
+        const B = p[X + 1] + Y;
+        const BA = p[B] + Z;
+        const BB = p[B + 1] + Z;
+
+        return lerp(
+            w,
+            lerp(
+                v,
+                lerp(u, grad(p[AA], x, y, z), grad(p[BA], x - 1, y, z)),
+                lerp(u, grad(p[AB], x, y - 1, z), grad(p[BB], x - 1, y - 1, z))
+            ),
+            lerp(
+                v,
+                lerp(u, grad(p[AA + 1], x, y, z - 1), grad(p[BA + 1], x - 1, y, z - 1)),
+                lerp(u, grad(p[AB + 1], x, y - 1, z - 1), grad(p[BB + 1], x - 1, y - 1, z - 1))
+            )
+        );
+    }
+}
+
+function fade(t: number): number {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(t: number, a: number, b: number): number {
+    return a + t * (b - a);
+}
+
+function grad(hash: number, x: number, y: number, z: number): number {
+    const h = hash & 15;
+    const u = h < 8 ? x : y;
+    const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+    return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+}
+
+ForceField.register("attractor", (options) => {
+    const { x, y, strength, radius, falloff } = options as ParticleAttractorField;
+    return new PointForceField(x, y, strength, radius, falloff);
+});
+ForceField.register("repulsor", (options) => {
+    const { x, y, strength, radius, falloff } = options as ParticleAttractorField;
+    return new PointForceField(x, y, -strength, radius, falloff);
+});
+ForceField.register("vortex", (options) => {
+    const { x, y, strength, pull, radius, falloff } = options as ParticleVortexField;
+    return new VortexForceField(x, y, strength, pull, radius, falloff);
+});
+ForceField.register("directional", (options) => {
+    const { forceX, forceY, zone } = options as ParticleDirectionalField;
+    return new DirectionalForceField(forceX, forceY, zone ? { ...zone } : null);
+});
+ForceField.register("turbulence", (options) => {
+    const { strength, scale, speed, seed } = options as ParticleTurbulenceField;
+    return new TurbulenceForceField(strength, scale, speed, seed);
+});
@@ -0,0 +1,391 @@
+import { Rectangle, Texture } from "pixi.js";
+import { getEasingName } from "./Easing";
+import { ParticleConfigError, PARTICLE_CONFIG_VERSION, validateEmitterConfig } from "./ParticleConfigSchema";
+import type { ParticleRegistry } from "./ParticleRegistry";
+import type {
+    ParticleAnimationConfig,
+    ParticleEasingFunction,
+    ParticleEmitterConfig,
+    ParticleEmitterOptions,
+    ParticleSpawnConfig,
+    ParticleSpawnOptions,
+    ParticleSubEmitterConfig,
+    ParticleSubEmitterOptions,
+    SpriteParticleItemOptions,
+} from "./types";
+
+/**
+ * Deep copies plain JSON data, dropping functions along the way.
+ */
+export function cloneConfigValue<T>(value: T): T {
+    if (Array.isArray(value)) {
+        return value.map((entry) => cloneConfigValue(entry)) as T;
+    }
+    if (typeof value === "object" && value !== null) {
+        const copy: Record<string, unknown> = {};
+        for (const [key, entry] of Object.entries(value)) {
+            if (entry === undefined || typeof entry === "function") continue;
+            copy[key] = cloneConfigValue(entry);
+        }
+        return copy as T;
+    }
+    return value;
+}
+
+/**
+ * Deep copies options into JSON data: easing functions are replaced by their registered name,
+ * other functions are dropped.
+ *
+ * @throws ParticleConfigError if an easing function is not registered
+ */
+function serializeConfigValue<T>(value: T, path: string): T {
+    if (Array.isArray(value)) {
+        return value.map((entry, index) => serializeConfigValue(entry, `${path}[${index}]`)) as T;
+    }
+    if (typeof value === "object" && value !== null) {
+        const copy: Record<string, unknown> = {};
+        for (const [key, entry] of Object.entries(value)) {
+            const entryPath = path ? `${path}.${key}` : key;
+            if (key === "easing" && typeof entry === "function") {
+                const name = getEasingName(entry as ParticleEasingFunction);
+                if (!name) {
+                    throw new ParticleConfigError(entryPath, "easing function is not registered");
+                }
+                copy[key] = name;
+                continue;
+            }
+            if (entry === undefined || typeof entry === "function") continue;
+            copy[key] = serializeConfigValue(entry, entryPath);
+        }
+        return copy as T;
+    }
+    return value;
+}
+
+const isPlainData = (value: unknown): value is Record<string, unknown> => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Deep-merges a partial config into a base one without mutating either.
+ * Plain objects are merged key by key; arrays, functions and class instances (e.g. Textures)
+ * replace the base value. Keys explicitly set to `undefined` are removed.
+ *
+ * @param base - Current config value
+ * @param patch - Partial value to merge in
+ * @returns The merged value
+ */
+export function mergeConfigValue<T>(base: T, patch: unknown): T {
+    if (!isPlainData(base) || !isPlainData(patch)) {
+        return patch as T;
+    }
+
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === undefined) {
+            delete merged[key];
+        } else {
+            merged[key] = key in base ? mergeConfigValue(base[key], value) : value;
+        }
+    }
+    return merged as T;
+}
+
+/**
+ * Parses and validates an emitter config.
+ *
+ * @param json - JSON string or already parsed object
+ * @returns The validated config
+ * @throws ParticleConfigError if the config does not match the schema
+ */
+export function parseEmitterConfig(json: string | unknown): ParticleEmitterConfig {
+    let config: unknown = json;
+    if (typeof json === "string") {
+        try {
+            config = JSON.parse(json);
+        } catch (error) {
+            throw new ParticleConfigError("", `invalid JSON (${(error as Error).message})`);
+        }
+    }
+    validateEmitterConfig(config);
+    return config;
+}
+
+/**
+ * Resolves a validated config into emitter options, looking up named resources in the registry.
+ *
+ * @param config - Validated emitter config
+ * @param registry - Registry used to resolve particle classes and textures
+ * @returns Options ready to be passed to the ParticleEmitter constructor
+ */
+export function configToEmitterOptions(
+    config: ParticleEmitterConfig,
+    registry: ParticleRegistry
+): ParticleEmitterOptions {
+    const options: ParticleEmitterOptions = {
+        ClassType: resolveParticleClass(config.particleClass ?? "ParticleItem", "particleClass", registry),
+        initialSize: config.initialSize,
+        spawnOptions: spawnConfigToOptions(cloneConfigValue(config.spawnOptions), registry, "spawnOptions"),
+        updateOptions: cloneConfigValue(config.updateOptions),
+        registry,
+    };
+
+    if (config.maxParticles !== undefined) {
+        options.maxParticles = config.maxParticles;
+    }
+
+    if (config.seed !== undefined) {
+        options.seed = config.seed;
+    }
+
+    if (config.contentFrame) {
+        const { x, y, width, height } = config.contentFrame;
+        options.contentFrame = new Rectangle(x, y, width, height);
+    }
+
+    return options;
+}
+
+/**
+ * Turns emitter options back into a serializable config.
+ * Callbacks (`onInit`, `onUpdate`, function alpha/color) cannot be serialized and are dropped;
+ * easing functions are written by their registered name.
+ *
+ * @param options - Emitter options to serialize
+ * @param registry - Registry used to name particle classes and textures
+ * @returns A pure JSON emitter config
+ * @throws ParticleConfigError if a class, texture or easing function is not registered
+ */
+export function emitterOptionsToConfig(
+    options: ParticleEmitterOptions,
+    registry: ParticleRegistry
+): ParticleEmitterConfig {
+    const particleClass = registry.getParticleClassName(options.ClassType);
+    if (!particleClass) {
+        throw new ParticleConfigError("particleClass", "particle class is not registered");
+    }
+
+    const config: ParticleEmitterConfig = {
+        version: PARTICLE_CONFIG_VERSION,
+        particleClass,
+        initialSize: options.initialSize,
+        spawnOptions: spawnOptionsToConfig(options.spawnOptions, registry, "spawnOptions"),
+        updateOptions: serializeConfigValue(options.updateOptions, "updateOptions"),
+    };
+
+    if (options.maxParticles !== undefined) {
+        config.maxParticles = options.maxParticles;
+    }
+
+    if (options.seed !== undefined) {
+        config.seed = options.seed;
+    }
+
+    if (options.contentFrame) {
+        const { x, y, width, height } = options.contentFrame;
+        config.contentFrame = { x, y, width, height };
+    }
+
+    return config;
+}
+
+function resolveParticleClass(name: string, path: string, registry: ParticleRegistry) {
+    try {
+        return registry.getParticleClass(name);
+    } catch (error) {
+        throw new ParticleConfigError(path, (error as Error).message);
+    }
+}
+
+function resolveTexture(name: string, path: string, registry: ParticleRegistry): Texture {
+    try {
+        return registry.getTexture(name);
+    } catch (error) {
+        throw new ParticleConfigError(path, (error as Error).message);
+    }
+}
+
+function textureToName(texture: Texture | string, path: string, registry: ParticleRegistry): string {
+    if (typeof texture === "string") return texture;
+    const name = registry.getTextureName(texture);
+    if (!name) {
+        throw new ParticleConfigError(path, "texture is not registered");
+    }
+    return name;
+}
+
+function animationConfigToOptions(
+    config: ParticleAnimationConfig,
+    registry: ParticleRegistry,
+    path: string
+): SpriteParticleItemOptions {
+    const { imageSources, spritesheet, ...options } = config;
+    const animation: SpriteParticleItemOptions = options;
+
+    if (imageSources !== undefined) {
+        animation.imageSources = imageSources.map((name, index) =>
+            resolveTexture(name, `${path}.imageSources[${index}]`, registry)
+        );
+    }
+
+    if (spritesheet !== undefined) {
+        try {
+            animation.spritesheet = registry.getSpritesheet(spritesheet);
+        } catch (error) {
+            throw new ParticleConfigError(`${path}.spritesheet`, (error as Error).message);
+        }
+    }
+
+    return animation;
+}
+
+function animationOptionsToConfig(
+    animation: SpriteParticleItemOptions,
+    registry: ParticleRegistry,
+    path: string
+): ParticleAnimationConfig {
+    const { imageSources, spritesheet, ...options } = animation;
+    const config: ParticleAnimationConfig = cloneConfigValue(options);
+
+    if (imageSources !== undefined) {
+        config.imageSources = imageSources.map((source, index) => {
+            const name =
+                typeof source === "string" ? source : source instanceof Texture && registry.getTextureName(source);
+            if (!name) {
+                throw new ParticleConfigError(
+                    `${path}.imageSources[${index}]`,
+                    "frame is neither a registered texture nor an asset alias"
+                );
+            }
+            return name;
+        });
+    }
+
+    if (spritesheet !== undefined) {
+        const name = typeof spritesheet === "string" ? spritesheet : registry.getSpritesheetName(spritesheet);
+        if (!name) {
+            throw new ParticleConfigError(`${path}.spritesheet`, "spritesheet is not registered");
+        }
+        config.spritesheet = name;
+    }
+
+    return config;
+}
+
+function spawnConfigToOptions(
+    config: ParticleSpawnConfig,
+    registry: ParticleRegistry,
+    path: string
+): ParticleSpawnOptions {
+    const { texture, textures, animation, subEmitters, trail, ...spawnConfig } = config;
+    const spawnOptions: ParticleSpawnOptions = spawnConfig;
+
+    if (texture !== undefined) {
+        spawnOptions.texture = resolveTexture(texture, `${path}.texture`, registry);
+    }
+
+    if (textures !== undefined) {
+        spawnOptions.textures = textures.map((option, index) => {
+            const texturePath = `${path}.textures[${index}]`;
+            if (typeof option === "string") return resolveTexture(option, texturePath, registry);
+            const texture = resolveTexture(option.texture, `${texturePath}.texture`, registry);
+            return option.weight === undefined ? { texture } : { texture, weight: option.weight };
+        });
+    }
+
+    if (animation !== undefined) {
+        spawnOptions.animation = animationConfigToOptions(animation, registry, `${path}.animation`);
+    }
+
+    if (subEmitters !== undefined) {
+        spawnOptions.subEmitters = subEmitters.map((subEmitter, index) => {
+            const subPath = `${path}.subEmitters[${index}]`;
+            const { particleClass, spawnOptions: subSpawnOptions, ...rest } = subEmitter;
+            const options: ParticleSubEmitterOptions = {
+                ...rest,
+                spawnOptions: spawnConfigToOptions(subSpawnOptions, registry, `${subPath}.spawnOptions`),
+            };
+            if (particleClass !== undefined) {
+                options.ClassType = resolveParticleClass(particleClass, `${subPath}.particleClass`, registry);
+            }
+            return options;
+        });
+    }
+
+    if (trail !== undefined) {
+        const { texture: trailTexture, ...trailConfig } = trail;
+        spawnOptions.trail = trailConfig;
+        if (trailTexture !== undefined) {
+            spawnOptions.trail.texture = resolveTexture(trailTexture, `${path}.trail.texture`, registry);
+        }
+    }
+
+    return spawnOptions;
+}
+
+function spawnOptionsToConfig(
+    spawnOptions: ParticleSpawnOptions,
+    registry: ParticleRegistry,
+    path: string
+): ParticleSpawnConfig {
+    const { texture, textures, alpha, color, animation, subEmitters, trail, ...rest } = spawnOptions;
+    const config: ParticleSpawnConfig = serializeConfigValue(rest, path);
+
+    if (alpha !== undefined && typeof alpha !== "function") {
+        config.alpha = serializeConfigValue(alpha, `${path}.alpha`);
+    }
+
+    if (color !== undefined && typeof color !== "function") {
+        config.color = serializeConfigValue(color, `${path}.color`);
+    }
+
+    if (texture !== undefined) {
+        config.texture = textureToName(texture, `${path}.texture`, registry);
+    }
+
+    if (textures !== undefined) {
+        config.textures = textures.map((option, index) => {
+            const texturePath = `${path}.textures[${index}]`;
+            if (typeof option === "string" || option instanceof Texture) {
+                return textureToName(option, texturePath, registry);
+            }
+            const texture = textureToName(option.texture, `${texturePath}.texture`, registry);
+            return option.weight === undefined ? { texture } : { texture, weight: option.weight };
+        });
+    }
+
+    if (animation !== undefined) {
+        config.animation = animationOptionsToConfig(animation, registry, `${path}.animation`);
+    }
+
+    if (subEmitters !== undefined) {
+        config.subEmitters = subEmitters.map((subEmitter, index) => {
+            const subPath = `${path}.subEmitters[${index}]`;
+            const { ClassType, spawnOptions: subSpawnOptions, ...rest } = subEmitter;
+            const subConfig: ParticleSubEmitterConfig = {
+                ...serializeConfigValue(rest, subPath),
+                spawnOptions: spawnOptionsToConfig(subSpawnOptions, registry, `${subPath}.spawnOptions`),
+            };
+            if (ClassType !== undefined) {
+                const particleClass = registry.getParticleClassName(ClassType);
+                if (!particleClass) {
+                    throw new ParticleConfigError(`${subPath}.particleClass`, "particle class is not registered");
+                }
+                subConfig.particleClass = particleClass;
+            }
+            return subConfig;
+        });
+    }
+
+    if (trail !== undefined) {
+        const { texture: trailTexture, ...trailOptions } = trail;
+        config.trail = serializeConfigValue(trailOptions, `${path}.trail`);
+        if (trailTexture !== undefined) {
+            config.trail.texture = textureToName(trailTexture, `${path}.trail.texture`, registry);
+        }
+    }
+
+    return config;
+}
@@ -0,0 +1,627 @@
+import { Collider } from "./Collider";
+import { easings } from "./Easing";
+import { EmissionShape } from "./EmissionShape";
+import { ForceField } from "./ForceField";
+import type { ParticleEmitterConfig, ParticleSpawnConfig, ParticleUpdateOptions } from "./types";
+
+/** Current version of the serializable emitter config format */
+export const PARTICLE_CONFIG_VERSION = 1;
+
+/**
+ * Error thrown when an emitter config does not match the schema.
+ * Exposes the dotted path of the offending value (e.g. `spawnOptions.position.x[1]`).
+ */
+export class ParticleConfigError extends Error {
+    /** Path of the offending value inside the config */
+    public readonly path: string;
+
+    constructor(path: string, message: string) {
+        super(`ParticleConfig - ${path || "<root>"}: ${message}`);
+        this.name = "ParticleConfigError";
+        this.path = path;
+    }
+}
+
+/**
+ * Validates a value located at `path`, throwing a ParticleConfigError on mismatch.
+ */
+export type ParticleConfigValidator = (value: unknown, path: string) => void;
+
+const join = (path: string, key: string | number) => {
+    if (typeof key === "number") return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+};
+
+const describe = (value: unknown) => {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+};
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Building blocks used to describe the config schema.
+ */
+export const particleConfigSchema = {
+    number(): ParticleConfigValidator {
+        return (value, path) => {
+            if (typeof value !== "number" || !Number.isFinite(value)) {
+                throw new ParticleConfigError(path, `expected a finite number, got ${describe(value)}`);
+            }
+        };
+    },
+
+    boolean(): ParticleConfigValidator {
+        return (value, path) => {
+            if (typeof value !== "boolean") {
+                throw new ParticleConfigError(path, `expected a boolean, got ${describe(value)}`);
+            }
+        };
+    },
+
+    string(): ParticleConfigValidator {
+        return (value, path) => {
+            if (typeof value !== "string" || value.length === 0) {
+                throw new ParticleConfigError(path, `expected a non-empty string, got ${describe(value)}`);
+            }
+        };
+    },
+
+    literal(...values: (string | number | boolean)[]): ParticleConfigValidator {
+        return (value, path) => {
+            if (!values.includes(value as string | number | boolean)) {
+                const expected = values.map((v) => JSON.stringify(v)).join(", ");
+                throw new ParticleConfigError(path, `expected one of ${expected}, got ${JSON.stringify(value)}`);
+            }
+        };
+    },
+
+    /** The name of a registered easing */
+    easing(): ParticleConfigValidator {
+        return (value, path) => {
+            if (typeof value !== "string" || !Object.prototype.hasOwnProperty.call(easings, value)) {
+                throw new ParticleConfigError(path, `expected a registered easing name, got ${JSON.stringify(value)}`);
+            }
+        };
+    },
+
+    /** A ParticleOptionRange: a fixed number or a [min, max] tuple */
+    range(): ParticleConfigValidator {
+        const number = particleConfigSchema.number();
+        return (value, path) => {
+            if (Array.isArray(value)) {
+                if (value.length !== 2) {
+                    throw new ParticleConfigError(path, `expected a [min, max] tuple, got ${value.length} items`);
+                }
+                number(value[0], join(path, 0));
+                number(value[1], join(path, 1));
+                return;
+            }
+            if (typeof value !== "number") {
+                throw new ParticleConfigError(path, `expected a number or [min, max] tuple, got ${describe(value)}`);
+            }
+            number(value, path);
+        };
+    },
+
+    array(item: ParticleConfigValidator, minLength: number = 0): ParticleConfigValidator {
+        return (value, path) => {
+            if (!Array.isArray(value)) {
+                throw new ParticleConfigError(path, `expected an array, got ${describe(value)}`);
+            }
+            if (value.length < minLength) {
+                throw new ParticleConfigError(path, `expected at least ${minLength} items`);
+            }
+            value.forEach((entry, index) => item(entry, join(path, index)));
+        };
+    },
+
+    /**
+     * A plain object with a known set of keys. Keys whose validator is wrapped in `optional()`
+     * may be omitted; unknown keys are rejected so typos don't go unnoticed.
+     */
+    object(shape: Record<string, ParticleConfigValidator>): ParticleConfigValidator {
+        return (value, path) => {
+            if (!isPlainObject(value)) {
+                throw new ParticleConfigError(path, `expected an object, got ${describe(value)}`);
+            }
+            for (const key of Object.keys(value)) {
+                if (!(key in shape)) {
+                    throw new ParticleConfigError(join(path, key), "unknown property");
+                }
+            }
+            for (const key of Object.keys(shape)) {
+                shape[key](value[key], join(path, key));
+            }
+        };
+    },
+
+    optional(validator: ParticleConfigValidator): ParticleConfigValidator {
+        return (value, path) => {
+            if (value === undefined) return;
+            validator(value, path);
+        };
+    },
+
+    /**
+     * Picks the first branch whose guard accepts the value and validates it with that branch,
+     * so errors point inside the matching branch instead of at the union itself.
+     */
+    oneOf(
+        expected: string,
+        branches: [(value: unknown) => boolean, ParticleConfigValidator][]
+    ): ParticleConfigValidator {
+        return (value, path) => {
+            for (const [guard, validator] of branches) {
+                if (guard(value)) {
+                    validator(value, path);
+                    return;
+                }
+            }
+            throw new ParticleConfigError(path, `expected ${expected}, got ${describe(value)}`);
+        };
+    },
+};
+
+/** Properties of the built-in emission shapes, besides `type` and `normalVelocity` */
+const emissionShapeSchemas: Record<string, Record<string, ParticleConfigValidator>> = {
+    point: {},
+    circle: {
+        radius: particleConfigSchema.number(),
+        edge: particleConfigSchema.optional(particleConfigSchema.boolean()),
+        uniform: particleConfigSchema.optional(particleConfigSchema.boolean()),
+    },
+    ring: {
+        radius: particleConfigSchema.number(),
+        innerRadius: particleConfigSchema.number(),
+        uniform: particleConfigSchema.optional(particleConfigSchema.boolean()),
+    },
+    rectangle: {
+        width: particleConfigSchema.number(),
+        height: particleConfigSchema.number(),
+        edge: particleConfigSchema.optional(particleConfigSchema.boolean()),
+    },
+    line: {
+        x1: particleConfigSchema.number(),
+        y1: particleConfigSchema.number(),
+        x2: particleConfigSchema.number(),
+        y2: particleConfigSchema.number(),
+    },
+    polygon: {
+        points: particleConfigSchema.array(particleConfigSchema.number(), 6),
+        edge: particleConfigSchema.optional(particleConfigSchema.boolean()),
+    },
+    path: {
+        points: particleConfigSchema.array(particleConfigSchema.number(), 8),
+        samples: particleConfigSchema.optional(particleConfigSchema.number()),
+    },
+};
+
+/**
+ * Validates options of a pluggable type (emission shapes, colliders, force fields): built-in types are checked
+ * property by property, custom types registered on the class only need a `type`.
+ * The options are then compiled to catch invalid geometry.
+ *
+ * @param kind - Name of the options kind, for error messages
+ * @param registry - Class holding the registered types
+ * @param common - Properties shared by all types, besides `type`
+ * @param builtIns - Properties of each built-in type
+ */
+function registeredTypeSchema(
+    kind: string,
+    registry: { has(type: string): boolean; from(options: { type: string }): unknown },
+    common: Record<string, ParticleConfigValidator>,
+    builtIns: Record<string, Record<string, ParticleConfigValidator>>
+): ParticleConfigValidator {
+    return (value, path) => {
+        if (!isPlainObject(value)) {
+            throw new ParticleConfigError(path, `expected an object, got ${describe(value)}`);
+        }
+        particleConfigSchema.string()(value.type, join(path, "type"));
+
+        const type = value.type as string;
+        if (!registry.has(type)) {
+            throw new ParticleConfigError(join(path, "type"), `unknown ${kind} "${type}"`);
+        }
+        if (Object.prototype.hasOwnProperty.call(builtIns, type)) {
+            particleConfigSchema.object({ type: particleConfigSchema.string(), ...common, ...builtIns[type] })(
+                value,
+                path
+            );
+        }
+
+        try {
+            registry.from(value as { type: string });
+        } catch (error) {
+            throw new ParticleConfigError(path, (error as Error).message);
+        }
+    };
+}
+
+const emissionShapeSchema = registeredTypeSchema(
+    "emission shape",
+    EmissionShape,
+    { normalVelocity: particleConfigSchema.optional(particleConfigSchema.range()) },
+    emissionShapeSchemas
+);
+
+/** Properties of the built-in colliders, besides `type` and the response settings */
+const colliderSchemas: Record<string, Record<string, ParticleConfigValidator>> = {
+    rectangle: {
+        x: particleConfigSchema.number(),
+        y: particleConfigSchema.number(),
+        width: particleConfigSchema.number(),
+        height: particleConfigSchema.number(),
+    },
+    circle: {
+        x: particleConfigSchema.number(),
+        y: particleConfigSchema.number(),
+        radius: particleConfigSchema.number(),
+    },
+    line: {
+        x1: particleConfigSchema.number(),
+        y1: particleConfigSchema.number(),
+        x2: particleConfigSchema.number(),
+        y2: particleConfigSchema.number(),
+    },
+    polygon: {
+        points: particleConfigSchema.array(particleConfigSchema.number(), 6),
+    },
+};
+
+const colliderSchema = registeredTypeSchema(
+    "collider",
+    Collider,
+    {
+        behavior: particleConfigSchema.optional(particleConfigSchema.literal("bounce", "kill")),
+        restitution: particleConfigSchema.optional(particleConfigSchema.number()),
+        friction: particleConfigSchema.optional(particleConfigSchema.number()),
+    },
+    colliderSchemas
+);
+
+const falloffSchema = particleConfigSchema.optional(particleConfigSchema.literal("none", "linear", "quadratic"));
+const pointFieldSchema = {
+    x: particleConfigSchema.number(),
+    y: particleConfigSchema.number(),
+    strength: particleConfigSchema.number(),
+    radius: particleConfigSchema.optional(particleConfigSchema.number()),
+    falloff: falloffSchema,
+};
+/** Properties of the built-in force fields, besides `type` */
+const forceFieldSchemas: Record<string, Record<string, ParticleConfigValidator>> = {
+    attractor: pointFieldSchema,
+    repulsor: pointFieldSchema,
+    vortex: { ...pointFieldSchema, pull: particleConfigSchema.optional(particleConfigSchema.number()) },
+    directional: {
+        forceX: particleConfigSchema.number(),
+        forceY: particleConfigSchema.number(),
+        zone: particleConfigSchema.optional(
+            particleConfigSchema.object({
+                x: particleConfigSchema.number(),
+                y: particleConfigSchema.number(),
+                width: particleConfigSchema.number(),
+                height: particleConfigSchema.number(),
+            })
+        ),
+    },
+    turbulence: {
+        strength: particleConfigSchema.number(),
+        scale: particleConfigSchema.optional(particleConfigSchema.number()),
+        speed: particleConfigSchema.optional(particleConfigSchema.number()),
+        seed: particleConfigSchema.optional(particleConfigSchema.number()),
+    },
+};
+
+const forceFieldSchema = registeredTypeSchema("force field", ForceField, {}, forceFieldSchemas);
+
+const boundaryBehaviorSchema = particleConfigSchema.literal("none", "kill", "bounce", "wrap", "clamp", "stick");
+
+const boundaryEdgeSchema = particleConfigSchema.optional(
+    particleConfigSchema.oneOf("a boundary behavior or {behavior, restitution, friction}", [
+        [(value) => typeof value === "string", boundaryBehaviorSchema],
+        [
+            isPlainObject,
+            particleConfigSchema.object({
+                behavior: boundaryBehaviorSchema,
+                restitution: particleConfigSchema.optional(particleConfigSchema.number()),
+                friction: particleConfigSchema.optional(particleConfigSchema.number()),
+            }),
+        ],
+    ])
+);
+
+const isRange = (value: unknown) => typeof value === "number" || Array.isArray(value);
+const hasKey = (key: string) => (value: unknown) => isPlainObject(value) && key in value;
+
+const startEndSchema = particleConfigSchema.object({
+    start: particleConfigSchema.range(),
+    end: particleConfigSchema.range(),
+    easing: particleConfigSchema.optional(particleConfigSchema.easing()),
+});
+
+const keyframesSchema = particleConfigSchema.object({
+    keyframes: particleConfigSchema.array(
+        particleConfigSchema.object({
+            time: particleConfigSchema.number(),
+            value: particleConfigSchema.number(),
+            easing: particleConfigSchema.optional(particleConfigSchema.easing()),
+        }),
+        1
+    ),
+});
+
+const gradientSchema = particleConfigSchema.object({
+    gradient: particleConfigSchema.array(
+        particleConfigSchema.object({
+            time: particleConfigSchema.number(),
+            color: particleConfigSchema.number(),
+            easing: particleConfigSchema.optional(particleConfigSchema.easing()),
+        }),
+        1
+    ),
+});
+
+const vector1PhysicsSchema = particleConfigSchema.object({
+    value: particleConfigSchema.range(),
+    velocity: particleConfigSchema.optional(particleConfigSchema.range()),
+    acceleration: particleConfigSchema.optional(particleConfigSchema.range()),
+    maxVelocity: particleConfigSchema.optional(particleConfigSchema.number()),
+    velocityCurve: particleConfigSchema.optional(keyframesSchema),
+});
+
+const vector2PhysicsShape = {
+    x: particleConfigSchema.range(),
+    y: particleConfigSchema.range(),
+    velocity: particleConfigSchema.optional(particleConfigSchema.range()),
+    velocityX: particleConfigSchema.optional(particleConfigSchema.range()),
+    velocityY: particleConfigSchema.optional(particleConfigSchema.range()),
+    acceleration: particleConfigSchema.optional(particleConfigSchema.range()),
+    accelerationX: particleConfigSchema.optional(particleConfigSchema.range()),
+    accelerationY: particleConfigSchema.optional(particleConfigSchema.range()),
+    maxVelocity: particleConfigSchema.optional(particleConfigSchema.number()),
+    maxVelocityX: particleConfigSchema.optional(particleConfigSchema.number()),
+    maxVelocityY: particleConfigSchema.optional(particleConfigSchema.number()),
+    velocityCurve: particleConfigSchema.optional(keyframesSchema),
+};
+
+const vector2PhysicsSchema = particleConfigSchema.object(vector2PhysicsShape);
+
+const positionPhysicsSchema = particleConfigSchema.object({
+    ...vector2PhysicsShape,
+    speed: particleConfigSchema.optional(particleConfigSchema.range()),
+    angle: particleConfigSchema.optional(particleConfigSchema.range()),
+    spread: particleConfigSchema.optional(particleConfigSchema.number()),
+});
+
+const animationObjectSchema = particleConfigSchema.object({
+    frameRate: particleConfigSchema.number(),
+    imageSources: particleConfigSchema.optional(particleConfigSchema.array(particleConfigSchema.string(), 1)),
+    spritesheet: particleConfigSchema.optional(particleConfigSchema.string()),
+    animation: particleConfigSchema.optional(particleConfigSchema.string()),
+    mode: particleConfigSchema.optional(particleConfigSchema.literal("loop", "once", "pingpong")),
+    randomStartFrame: particleConfigSchema.optional(particleConfigSchema.boolean()),
+    fitLifespan: particleConfigSchema.optional(particleConfigSchema.boolean()),
+});
+
+const animationSchema: ParticleConfigValidator = (value, path) => {
+    animationObjectSchema(value, path);
+    const { imageSources, spritesheet } = value as Record<string, unknown>;
+    if (imageSources === undefined && spritesheet === undefined) {
+        throw new ParticleConfigError(path, "imageSources or a spritesheet is required");
+    }
+};
+
+const trailObjectSchema = particleConfigSchema.object({
+    length: particleConfigSchema.number(),
+    minDistance: particleConfigSchema.optional(particleConfigSchema.number()),
+    width: particleConfigSchema.optional(particleConfigSchema.number()),
+    widthCurve: particleConfigSchema.optional(keyframesSchema),
+    alphaCurve: particleConfigSchema.optional(keyframesSchema),
+    scaleWithParticle: particleConfigSchema.optional(particleConfigSchema.boolean()),
+    texture: particleConfigSchema.optional(particleConfigSchema.string()),
+    color: particleConfigSchema.optional(particleConfigSchema.number()),
+});
+
+const trailSchema: ParticleConfigValidator = (value, path) => {
+    trailObjectSchema(value, path);
+    if ((value as { length: number }).length < 2) {
+        throw new ParticleConfigError(`${path}.length`, "expected at least 2 points");
+    }
+};
+
+/** Schema for `ParticleEmitterConfig.spawnOptions` */
+export const spawnOptionsSchema = particleConfigSchema.object({
+    position: positionPhysicsSchema,
+    emissionShape: particleConfigSchema.optional(emissionShapeSchema),
+    scale: particleConfigSchema.optional(
+        particleConfigSchema.oneOf("a range, {start, end}, {keyframes} or 2D physics", [
+            [isRange, particleConfigSchema.range()],
+            [hasKey("start"), startEndSchema],
+            [hasKey("keyframes"), keyframesSchema],
+            [isPlainObject, vector2PhysicsSchema],
+        ])
+    ),
+    rotation: particleConfigSchema.optional(vector1PhysicsSchema),
+    alpha: particleConfigSchema.optional(
+        particleConfigSchema.oneOf("{start, end} or {keyframes}", [
+            [hasKey("keyframes"), keyframesSchema],
+            [isPlainObject, startEndSchema],
+        ])
+    ),
+    color: particleConfigSchema.optional(
+        particleConfigSchema.oneOf("a color, a list of colors, {start, end} or {gradient}", [
+            [(value) => typeof value === "number", particleConfigSchema.number()],
+            [Array.isArray, particleConfigSchema.array(particleConfigSchema.number(), 1)],
+            [hasKey("gradient"), gradientSchema],
+            [isPlainObject, startEndSchema],
+        ])
+    ),
+    lifespan: particleConfigSchema.optional(particleConfigSchema.range()),
+    collisionRadius: particleConfigSchema.optional(particleConfigSchema.range()),
+    texture: particleConfigSchema.optional(particleConfigSchema.string()),
+    textures: particleConfigSchema.optional(
+        particleConfigSchema.array(
+            particleConfigSchema.oneOf("a texture name or {texture, weight?}", [
+                [(value) => typeof value === "string", particleConfigSchema.string()],
+                [
+                    isPlainObject,
+                    particleConfigSchema.object({
+                        texture: particleConfigSchema.string(),
+                        weight: particleConfigSchema.optional(particleConfigSchema.number()),
+                    }),
+                ],
+            ]),
+            1
+        )
+    ),
+    animation: particleConfigSchema.optional(animationSchema),
+    subEmitters: particleConfigSchema.optional(
+        particleConfigSchema.array((value, path) => subEmitterSchema(value, path))
+    ),
+    trail: particleConfigSchema.optional(trailSchema),
+});
+
+const updateOptionsShape = {
+    spawnRate: vector1PhysicsSchema,
+    interval: particleConfigSchema.number(),
+    environment: particleConfigSchema.optional(
+        particleConfigSchema.object({
+            affectSurface: particleConfigSchema.optional(particleConfigSchema.boolean()),
+            gravity: particleConfigSchema.optional(particleConfigSchema.number()),
+            airResistance: particleConfigSchema.optional(particleConfigSchema.number()),
+            windX: particleConfigSchema.optional(particleConfigSchema.number()),
+            windY: particleConfigSchema.optional(particleConfigSchema.number()),
+        })
+    ),
+    spawnDuration: particleConfigSchema.optional(particleConfigSchema.number()),
+    bursts: particleConfigSchema.optional(
+        particleConfigSchema.array(
+            particleConfigSchema.object({
+                time: particleConfigSchema.number(),
+                count: particleConfigSchema.range(),
+                repeat: particleConfigSchema.optional(particleConfigSchema.number()),
+                interval: particleConfigSchema.optional(particleConfigSchema.number()),
+                probability: particleConfigSchema.optional(particleConfigSchema.number()),
+            })
+        )
+    ),
+    prewarm: particleConfigSchema.optional(particleConfigSchema.number()),
+    boundary: particleConfigSchema.optional(
+        particleConfigSchema.object({
+            behavior: particleConfigSchema.optional(boundaryBehaviorSchema),
+            restitution: particleConfigSchema.optional(particleConfigSchema.number()),
+            friction: particleConfigSchema.optional(particleConfigSchema.number()),
+            left: boundaryEdgeSchema,
+            right: boundaryEdgeSchema,
+            top: boundaryEdgeSchema,
+            bottom: boundaryEdgeSchema,
+        })
+    ),
+    colliders: particleConfigSchema.optional(particleConfigSchema.array(colliderSchema)),
+    forceFields: particleConfigSchema.optional(particleConfigSchema.array(forceFieldSchema)),
+    fixedStep: particleConfigSchema.optional(
+        particleConfigSchema.object({
+            step: particleConfigSchema.number(),
+            maxSubsteps: particleConfigSchema.optional(particleConfigSchema.number()),
+            dropPolicy: particleConfigSchema.optional(particleConfigSchema.literal("discard", "slowdown")),
+            maxCatchUp: particleConfigSchema.optional(particleConfigSchema.number()),
+            interpolate: particleConfigSchema.optional(particleConfigSchema.boolean()),
+        })
+    ),
+    space: particleConfigSchema.optional(particleConfigSchema.literal("local", "world")),
+    overflow: particleConfigSchema.optional(particleConfigSchema.literal("drop", "oldest", "closestToDeath", "random")),
+};
+
+/** Schema for `ParticleEmitterConfig.updateOptions` */
+export const updateOptionsSchema = particleConfigSchema.object(updateOptionsShape);
+
+/** Schema for a serialized sub-emitter, whose update options are all optional */
+const subEmitterSchema = particleConfigSchema.object({
+    trigger: particleConfigSchema.literal("spawn", "death", "collision"),
+    particleClass: particleConfigSchema.optional(particleConfigSchema.string()),
+    spawnOptions: spawnOptionsSchema,
+    updateOptions: particleConfigSchema.optional(
+        particleConfigSchema.object(
+            Object.fromEntries(
+                Object.entries(updateOptionsShape).map(([key, validator]) => [
+                    key,
+                    particleConfigSchema.optional(validator),
+                ])
+            )
+        )
+    ),
+    count: particleConfigSchema.optional(particleConfigSchema.range()),
+    rate: particleConfigSchema.optional(particleConfigSchema.number()),
+    probability: particleConfigSchema.optional(particleConfigSchema.number()),
+    deathReasons: particleConfigSchema.optional(
+        particleConfigSchema.array(
+            particleConfigSchema.literal("lifespan", "out-of-bounds", "collision", "manual", "overflow")
+        )
+    ),
+    inheritVelocity: particleConfigSchema.optional(particleConfigSchema.number()),
+    inheritColor: particleConfigSchema.optional(particleConfigSchema.boolean()),
+    inheritScale: particleConfigSchema.optional(particleConfigSchema.boolean()),
+});
+
+/** Schema for a complete `ParticleEmitterConfig` */
+export const emitterConfigSchema = particleConfigSchema.object({
+    version: particleConfigSchema.literal(PARTICLE_CONFIG_VERSION),
+    particleClass: particleConfigSchema.optional(particleConfigSchema.string()),
+    initialSize: particleConfigSchema.number(),
+    maxParticles: particleConfigSchema.optional(particleConfigSchema.number()),
+    seed: particleConfigSchema.optional(particleConfigSchema.number()),
+    spawnOptions: spawnOptionsSchema,
+    updateOptions: updateOptionsSchema,
+    contentFrame: particleConfigSchema.optional(
+        particleConfigSchema.object({
+            x: particleConfigSchema.number(),
+            y: particleConfigSchema.number(),
+            width: particleConfigSchema.number(),
+            height: particleConfigSchema.number(),
+        })
+    ),
+});
+
+/**
+ * Validates an unknown value against the emitter config schema.
+ *
+ * @param config - Parsed JSON to validate
+ * @throws ParticleConfigError describing the first offending path
+ */
+export function validateEmitterConfig(config: unknown): asserts config is ParticleEmitterConfig {
+    emitterConfigSchema(config, "");
+
+    const { spawnOptions, updateOptions, contentFrame } = config as ParticleEmitterConfig;
+    validateLifespan(spawnOptions, "spawnOptions", !!contentFrame);
+    validateFixedStep(updateOptions, "updateOptions");
+}
+
+/**
+ * Checks that particles die, by lifespan or by leaving the content frame, down the sub-emitters.
+ */
+function validateLifespan(spawnOptions: ParticleSpawnConfig, path: string, hasContentFrame: boolean) {
+    if (!spawnOptions.lifespan && !hasContentFrame) {
+        throw new ParticleConfigError(`${path}.lifespan`, "a lifespan or a contentFrame is required");
+    }
+    spawnOptions.subEmitters?.forEach((subEmitter, index) => {
+        const subPath = `${path}.subEmitters[${index}]`;
+        validateLifespan(subEmitter.spawnOptions, `${subPath}.spawnOptions`, hasContentFrame);
+        if (subEmitter.updateOptions) {
+            validateFixedStep(subEmitter.updateOptions, `${subPath}.updateOptions`);
+        }
+    });
+}
+
+function validateFixedStep(updateOptions: Partial<ParticleUpdateOptions>, path: string) {
+    const fixedStep = updateOptions.fixedStep;
+    if (!fixedStep) return;
+    if (fixedStep.step <= 0) {
+        throw new ParticleConfigError(`${path}.fixedStep.step`, "expected a positive step");
+    }
+    if (fixedStep.maxSubsteps !== undefined && fixedStep.maxSubsteps < 1) {
+        throw new ParticleConfigError(`${path}.fixedStep.maxSubsteps`, "expected at least one substep");
+    }
+}
@@ -0,0 +1,180 @@
+import { Color } from "pixi.js";
+import { resolveEasing } from "./Easing";
+import type { ParticleEasingFunction, ParticleOptionGradient, ParticleOptionKeyframes } from "./types";
+
+/**
+ * Compiled keyframe curve, evaluated per particle over its normalized lifetime.
+ * Compiled curves are cached per options object, so all particles of an emitter share one instance
+ * and evaluation does not allocate.
+ */
+export class ParticleCurve {
+    protected static _cache: WeakMap<ParticleOptionKeyframes, ParticleCurve> = new WeakMap();
+
+    /** Keyframe times, sorted ascending in 0..1 */
+    public readonly times: Float32Array;
+    /** Keyframe values */
+    public readonly values: Float32Array;
+    /** Easing applied to the segment starting at each keyframe */
+    public readonly easings: ParticleEasingFunction[];
+
+    /**
+     * Gets the compiled curve for a keyframes option, compiling it on first use.
+     *
+     * @param option - Keyframes option
+     * @returns The compiled curve
+     */
+    public static from(option: ParticleOptionKeyframes): ParticleCurve {
+        let curve = ParticleCurve._cache.get(option);
+        if (!curve) {
+            curve = new ParticleCurve(option);
+            ParticleCurve._cache.set(option, curve);
+        }
+        return curve;
+    }
+
+    /**
+     * Compiles a keyframes option.
+     *
+     * @param option - Keyframes option
+     * @throws Error if the option has no keyframes
+     */
+    constructor(option: ParticleOptionKeyframes) {
+        if (!option.keyframes.length) {
+            throw new Error("ParticleCurve - At least one keyframe is required");
+        }
+        const keyframes = [...option.keyframes].sort((a, b) => a.time - b.time);
+
+        this.times = new Float32Array(keyframes.length);
+        this.values = new Float32Array(keyframes.length);
+        this.easings = [];
+
+        keyframes.forEach((keyframe, index) => {
+            this.times[index] = keyframe.time;
+            this.values[index] = keyframe.value;
+            this.easings.push(resolveEasing(keyframe.easing));
+        });
+    }
+
+    /**
+     * Evaluates the curve. Values before the first or after the last keyframe are held.
+     *
+     * @param t - Normalized lifetime (0..1)
+     * @returns The curve value at `t`
+     */
+    public evaluate(t: number): number {
+        const index = findSegment(this.times, t);
+        if (index < 0) return this.values[0];
+        if (index >= this.times.length - 1) return this.values[this.times.length - 1];
+
+        const progress = segmentProgress(this.times, index, t, this.easings[index]);
+        return this.values[index] + (this.values[index + 1] - this.values[index]) * progress;
+    }
+}
+
+/**
+ * Compiled multi-stop color gradient, evaluated per particle over its normalized lifetime.
+ * Like ParticleCurve, compiled gradients are cached per options object and evaluation does not allocate.
+ */
+export class ParticleGradient {
+    protected static _cache: WeakMap<ParticleOptionGradient, ParticleGradient> = new WeakMap();
+
+    /** Stop times, sorted ascending in 0..1 */
+    public readonly times: Float32Array;
+    /** Stop colors as normalized RGB triplets */
+    public readonly rgb: Float32Array;
+    /** Easing applied to the segment starting at each stop */
+    public readonly easings: ParticleEasingFunction[];
+
+    /**
+     * Gets the compiled gradient for a gradient option, compiling it on first use.
+     *
+     * @param option - Gradient option
+     * @returns The compiled gradient
+     */
+    public static from(option: ParticleOptionGradient): ParticleGradient {
+        let gradient = ParticleGradient._cache.get(option);
+        if (!gradient) {
+            gradient = new ParticleGradient(option);
+            ParticleGradient._cache.set(option, gradient);
+        }
+        return gradient;
+    }
+
+    /**
+     * Compiles a gradient option.
+     *
+     * @param option - Gradient option
+     * @throws Error if the option has no stops
+     */
+    constructor(option: ParticleOptionGradient) {
+        if (!option.gradient.length) {
+            throw new Error("ParticleGradient - At least one color stop is required");
+        }
+        const stops = [...option.gradient].sort((a, b) => a.time - b.time);
+        const color = new Color();
+
+        this.times = new Float32Array(stops.length);
+        this.rgb = new Float32Array(stops.length * 3);
+        this.easings = [];
+
+        stops.forEach((stop, index) => {
+            color.value = stop.color;
+            this.times[index] = stop.time;
+            this.rgb[index * 3] = color.red;
+            this.rgb[index * 3 + 1] = color.green;
+            this.rgb[index * 3 + 2] = color.blue;
+            this.easings.push(resolveEasing(stop.easing));
+        });
+    }
+
+    /**
+     * Evaluates the gradient into an RGBA buffer (alpha is always 1).
+     *
+     * @param t - Normalized lifetime (0..1)
+     * @param out - Buffer receiving normalized [r, g, b, a]
+     * @returns The `out` buffer
+     */
+    public evaluate(t: number, out: Float32Array): Float32Array {
+        const last = this.times.length - 1;
+        let index = findSegment(this.times, t);
+        let progress = 0;
+
+        if (index < 0) {
+            index = 0;
+        } else if (index >= last) {
+            index = last;
+        } else {
+            progress = segmentProgress(this.times, index, t, this.easings[index]);
+        }
+
+        const from = index * 3;
+        const to = Math.min(index + 1, last) * 3;
+        out[0] = this.rgb[from] + (this.rgb[to] - this.rgb[from]) * progress;
+        out[1] = this.rgb[from + 1] + (this.rgb[to + 1] - this.rgb[from + 1]) * progress;
+        out[2] = this.rgb[from + 2] + (this.rgb[to + 2] - this.rgb[from + 2]) * progress;
+        out[3] = 1;
+        return out;
+    }
+}
+
+/**
+ * Finds the index of the keyframe starting the segment containing `t`.
+ * Returns -1 before the first keyframe.
+ */
+function findSegment(times: Float32Array, t: number): number {
+    let index = -1;
+    for (let i = 0; i < times.length; i++) {
+        if (times[i] > t) break;
+        index = i;
+    }
+    return index;
+}
+
+/**
+ * Eased progress of `t` within the segment starting at `index`.
+ */
+function segmentProgress(times: Float32Array, index: number, t: number, easing: ParticleEasingFunction) {
+    const duration = times[index + 1] - times[index];
+    if (duration <= 0) return 1;
+    return easing((t - times[index]) / duration);
+}
@@ -1,15 +1,82 @@
-import { Rectangle, PointData, DestroyOptions, ParticleContainer, Ticker } from "pixi.js";
+import { Container, Matrix, Point, Ticker } from "pixi.js";
+import type { ContainerChild, DestroyOptions, PointData } from "pixi.js";
 import { ParticleItem } from "./ParticleItem";
-import { ParticleEmitterOptions, ParticleSpawnOptions, ParticleUpdateOptions } from "./types";
+import type {
+    ParticleBoundaryBehavior,
+    ParticleBoundaryEdgeName,
+    ParticleColliderOptions,
+    ParticleContainerRenderOptions,
+    ParticleCollisionEvent,
+    ParticleDeathReason,
+    ParticleConfigUpdateScope,
+    ParticleDeepPartial,
+    ParticleEmitterConfig,
+    ParticleEmitterConfigUpdate,
+    ParticleEmitterEvents,
+    ParticleEmitterOptions,
+    ParticleFixedStepOptions,
+    ParticleForceFieldOptions,
+    ParticleOptionRange,
+    ParticleSpawnOptions,
+    ParticleSubEmitterOptions,
+    ParticleSubEmitterTrigger,
+    PoolItemConstructor,
+} from "./types";
 import { ParticlePool } from "./ParticlePool";
+import type { ParticlePoolManager } from "./ParticlePoolManager";
+import { ParticleEmitterBase } from "./ParticleEmitterBase";
+import { ParticleRegistry } from "./ParticleRegistry";
+import {
+    configToEmitterOptions,
+    emitterOptionsToConfig,
+    mergeConfigValue,
+    parseEmitterConfig,
+} from "./ParticleConfig";
+import { Collider } from "./Collider";
+import { ForceField } from "./ForceField";
+import type { ColliderHit } from "./Collider";
+
+/**
+ * Live sub-emitter: its options, the emitter particles are spawned into, and the trail time of each parent particle.
+ */
+interface SubEmitter {
+    options: ParticleSubEmitterOptions;
+    emitter: ParticleEmitter;
+    trails: Map<ParticleItem, number>;
+}
+
+/** Death reasons firing `death` sub-emitters by default */
+const SUB_EMITTER_DEATH_REASONS: ParticleDeathReason[] = ["lifespan", "collision"];
+
+/**
+ * Moves a range by an offset.
+ */
+function offsetRange(range: ParticleOptionRange, offset: number): ParticleOptionRange {
+    return Array.isArray(range) ? [range[0] + offset, range[1] + offset] : range + offset;
+}
 
 /**
  * Particle emitter system that manages the creation, update, and destruction of particles.
- * Extends ParticleContainer for optimal rendering performance and provides comprehensive
+ * Extends ParticleContainer through ParticleEmitterBase for optimal rendering performance and provides comprehensive
  * particle lifecycle management with physics simulation and environmental effects.
  */
-export class ParticleEmitter extends ParticleContainer {
-    /** Collection of easing functions for smooth animations */
+export class ParticleEmitter extends ParticleEmitterBase<ParticleEmitterEvents> {
+    /** Minimum step in milliseconds used by `simulate()` when no fixed step is configured */
+    public static simulationStep: number = 1000 / 60;
+    /** Reused collider hit */
+    protected static _tmpHit: ColliderHit = { x: 0, y: 0, normalX: 0, normalY: 0, resting: false };
+    /** Reused force field sample */
+    protected static _tmpForce: PointData = { x: 0, y: 0 };
+    /** Reused transforms */
+    protected static _tmpMatrix: Matrix = new Matrix();
+    protected static _spaceMatrix: Matrix = new Matrix();
+    /** Reused global position of the follow target */
+    protected static _tmpPoint: Point = new Point();
+
+    /**
+     * Legacy easing functions taking a point within a distance.
+     * Kept as they were for existing callers; spawn options use the normalized `easings` of the same name.
+     */
     public static easing = {
         parabolic: (point: number, distance: number) => {
             return 1 - Math.pow(point / distance - 1, 2);
@@ -27,301 +94,435 @@ export class ParticleEmitter extends ParticleContainer {
 
     /** Object pool for efficient particle memory management */
     protected _pool: ParticlePool<ParticleItem>;
-    /** Whether the emitter is connected to the game clock for updates */
-    protected _clockConnected: boolean = false;
-    /** Ticker instance for managing update timing */
-    protected _ticker: Ticker;
-    /** Boundary rectangle for particle containment */
-    protected _contentFrame: Rectangle | null = null;
-    /** Configuration for individual particle spawn behavior */
-    protected _spawnOptions: ParticleSpawnOptions;
-    /** Configuration for emitter update behavior and environment */
-    protected _updateOptions: ParticleUpdateOptions;
-    /** Accumulated time since last update cycle */
-    protected _updateElapsed: number = 0;
-    /** Accumulated time since last spawn attempt */
-    protected _spawnElapsed: number = 0;
-    /** Current spawn interval in milliseconds */
-    protected _spawnInterval: number = 0;
-    /** Current spawn rate (particles per second) */
-    protected _spawnRate: number = 0;
-    /** Spawn rate velocity (particles per second per second) */
-    protected _spawnRateVelocity: number = 0;
-    /** Spawn rate acceleration (particles per second per second^2) */
-    protected _spawnRateAcceleration: number = 0;
-    /** Max abs spawn rate velocity (-1 unlimited) */
-    protected _spawnRateMaxVelocity: number = -1;
-    /** Accumulated time for automatic spawn duration */
-    protected _spawnDurationElapsed: number = 0;
-    /** Whether the emitter is currently running */
-    protected _isRunning: boolean = false;
-    /** Whether the emitter is currently paused */
-    protected _isPaused: boolean = false;
-
-    /** Duration in milliseconds for automatic spawn termination */
-    public spawnDuration: number = 0;
-    /** Whether the emitter should spawn new particles */
-    public spawn: boolean = false;
-    /** Environmental physics settings affecting all particles */
-    protected _environment = {
-        affectSurface: false,
-        gravity: 0,
-        airResistance: 0,
-        windX: 0,
-        windY: 0,
-    };
-
+    /** Whether the pool was created by the emitter, and is destroyed with it */
+    protected _ownsPool: boolean;
+    /** Manager the pool comes from, whose budget applies to the emitter */
+    protected _poolManager: ParticlePoolManager | null;
+    /** Particle class managed by the pool */
+    protected _classType: PoolItemConstructor<ParticleItem>;
+    /** Initial number of particles pre-allocated in the pool */
+    protected _initialSize: number;
+    /** Maximum number of live particles of this emitter, kept apart from the size of a shared pool */
+    protected _maxParticles: number;
+    /** Registry used to name particle classes and textures when serializing */
+    protected _registry: ParticleRegistry;
+    /** Whether the seed was given in the options, and should be serialized */
+    protected _seeded: boolean;
+    /** Time not yet simulated in fixed step mode */
+    protected _fixedElapsed: number = 0;
+    /** Force fields added at runtime, applied after the ones of the update options */
+    protected _forceFields: ForceField[] = [];
+    /** Sub-emitters built from the spawn options */
+    protected _subEmitters: SubEmitter[] = [];
+    /** Container of the particle trails, created with the first trail and drawn below the emitter */
+    protected _trailLayer: Container | null = null;
+    /** Display object the spawn origin and rotation follow */
+    protected _followTarget: Container | null = null;
+    /** Point of the follow target that is followed, in its local space */
+    protected _followOffset: Point = new Point();
+    /** Spawn origin and rotation that live particles were last moved with */
+    protected _lastOriginX: number = 0;
+    protected _lastOriginY: number = 0;
+    protected _lastOriginRotation: number = 0;
+    /** Global transform of the emitter at the last frame, to keep world space particles in place */
+    protected _lastWorldTransform: Matrix | null = null;
+
+    /** Maximum number of live particles of this emitter, on top of the pool size and budget (Infinity for unlimited) */
+    public quota: number;
     /**
-     * Sets the content frame for particle boundary checking.
-     *
-     * @param frame - Rectangle defining the particle containment area
+     * Point of the emitter space spawn positions are relative to. Can be animated, or driven by `follow()`.
+     * In local space, live particles move along with it.
      */
-    public set contentFrame(frame: Rectangle) {
-        this._contentFrame = frame;
-    }
+    public readonly spawnOrigin: Point = new Point();
+    /** Rotation in radians of spawn positions, velocities and particles around the spawn origin */
+    public spawnRotation: number = 0;
 
     /**
-     * Gets the current content frame.
-     *
-     * @returns The current content frame or null if not set
+     * Gets the maximum number of particles allowed in the pool.
      */
-    public get contentFrame(): Rectangle | null {
-        return this._contentFrame;
+    public get maxPoolSize(): number {
+        return this._pool.maxPoolSize;
     }
 
     /**
-     * Gets the current environment settings.
-     *
-     * @returns The environment configuration object
+     * Sets the maximum number of particles allowed in the pool.
      */
-    public get environment() {
-        return this._environment;
+    public set maxPoolSize(value: number) {
+        this._pool.maxPoolSize = value;
     }
 
     /**
-     * Sets the wind force affecting particles.
-     *
-     * @param value - Point data containing X and Y wind forces
+     * Gets the pool particles are taken from, private or shared.
      */
-    public set wind(value: PointData) {
-        this._environment.windX = value.x;
-        this._environment.windY = value.y;
+    public get pool(): ParticlePool<ParticleItem> {
+        return this._pool;
     }
 
     /**
-     * Sets the gravity force affecting particles.
-     *
-     * @param value - Gravity acceleration value (positive for downward)
+     * Gets the manager the pool comes from, if any.
      */
-    public set gravity(value: number) {
-        this._environment.gravity = value;
+    public get poolManager(): ParticlePoolManager | null {
+        return this._poolManager;
     }
 
     /**
-     * Sets the air resistance coefficient affecting particles.
-     *
-     * @param value - Air resistance coefficient (higher values = more resistance)
+     * Stops using a shared pool without destroying it: live particles are given back to it and the emitter
+     * continues with a private pool. Does nothing when the pool is already private.
      */
-    public set airResistance(value: number) {
-        this._environment.airResistance = value;
+    public detachPool() {
+        if (this._ownsPool) return;
+
+        this._releaseParticles();
+        this._pool = new ParticlePool(this._classType, 0, this._maxParticles, { ...this._pool.trimOptions });
+        this._ownsPool = true;
+        this._poolManager = null;
+        // Sub-emitters follow the parent pool
+        this._buildSubEmitters();
     }
 
     /**
-     * Sets whether environmental forces should be affected by particle surface area.
-     *
-     * @param value - True if surface area should affect environmental forces
+     * Gives live particles back to the pool without firing events, e.g. before the pool changes.
      */
-    public set affectSurface(value: boolean) {
-        this._environment.affectSurface = value;
+    protected _releaseParticles() {
+        for (let i = this.children.length - 1; i >= 0; i--) {
+            const particle = this.children[i] as ParticleItem;
+            particle.trail?.removeFromParent();
+            this.removeChild(particle);
+            this._pool.return(particle);
+        }
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            this._subEmitters[i].trails.clear();
+        }
     }
 
     /**
-     * Gets whether the emitter is currently running.
+     * Creates a new particle emitter with the specified configuration.
+     * Initializes the particle pool, environment settings, and spawn parameters.
      *
-     * @returns True if the emitter is running
+     * @param options - Complete configuration for the particle emitter
+     * @throws Error if neither lifespan nor contentFrame is defined
      */
-    public get isRunning() {
-        return this._isRunning;
-    }
+    constructor(options: ParticleEmitterOptions) {
+        super(options);
 
-    /**
-     * Gets whether the emitter is currently paused.
-     *
-     * @returns True if the emitter is paused
-     */
-    public get isPaused() {
-        return this._isPaused;
-    }
+        if (!options.spawnOptions.lifespan && !options.contentFrame) {
+            throw new Error("ParticleEmitter - You must define a lifespan or a contentFrame");
+        }
 
-    /**
-     * Gets whether the emitter is currently emitting new particles.
-     *
-     * @returns True if the emitter is spawning particles
-     */
-    public get isEmitting() {
-        return this.spawn;
+        // Create Pool
+        this._classType = options.ClassType;
+        this._initialSize = options.initialSize;
+        this._maxParticles =
+            options.maxParticles !== undefined && options.maxParticles >= 0 ? options.maxParticles : Infinity;
+        this._poolManager = options.poolManager || null;
+        this._pool =
+            options.pool ||
+            this._poolManager?.getPool(options.ClassType, options.initialSize) ||
+            new ParticlePool(options.ClassType, options.initialSize, options.maxParticles, options.poolTrim);
+        this._ownsPool = !options.pool && !this._poolManager;
+        this.quota = options.quota !== undefined && options.quota >= 0 ? options.quota : Infinity;
+        this._registry = options.registry || ParticleRegistry.shared;
+        this._seeded = options.seed !== undefined || options.random !== undefined;
+
+        // Environment and Spawn Duration
+        this._applyUpdateOptions();
+
+        this._buildSubEmitters();
+        this.reset();
     }
 
     /**
-     * Gets the maximum number of particles allowed in the pool.
+     * Creates a particle emitter from a serialized config.
+     * Particle classes and textures are resolved by name through the registry.
+     *
+     * @param json - JSON string or parsed ParticleEmitterConfig
+     * @param options - Runtime-only options that cannot be part of the config (optional)
+     * @returns A new particle emitter
+     * @throws ParticleConfigError if the config is invalid, reporting the offending path
      */
-    public get maxPoolSize(): number {
-        return this._pool.maxPoolSize;
+    public static fromJSON(
+        json: string | ParticleEmitterConfig,
+        options: Pick<ParticleEmitterOptions, "ticker" | "registry" | keyof ParticleContainerRenderOptions> = {}
+    ) {
+        const { registry, ...runtimeOptions } = options;
+        const config = parseEmitterConfig(json);
+        const emitterOptions = configToEmitterOptions(config, registry || ParticleRegistry.shared);
+        return new ParticleEmitter({ ...emitterOptions, ...runtimeOptions });
     }
 
     /**
-     * Sets the maximum number of particles allowed in the pool.
+     * Serializes the emitter's current configuration.
+     * Callbacks cannot be serialized and are left out.
+     *
+     * @returns A versioned, pure JSON emitter config
+     * @throws ParticleConfigError if the particle class or texture is not registered
      */
-    public set maxPoolSize(value: number) {
-        this._pool.maxPoolSize = value;
+    public toJSON(): ParticleEmitterConfig {
+        const maxParticles = this._maxParticles;
+        return emitterOptionsToConfig(
+            {
+                ClassType: this._classType,
+                initialSize: this._initialSize,
+                maxParticles: Number.isFinite(maxParticles) ? maxParticles : undefined,
+                seed: this._seeded ? this._random.seed : undefined,
+                spawnOptions: this._spawnOptions,
+                updateOptions: {
+                    ...this._updateOptions,
+                    environment: { ...this._environment },
+                    spawnDuration: this.spawnDuration || undefined,
+                },
+                contentFrame: this._contentFrame || undefined,
+            },
+            this._registry
+        );
     }
 
     /**
-     * Creates a new particle emitter with the specified configuration.
-     * Initializes the particle pool, environment settings, and spawn parameters.
+     * Reconfigures the running emitter without destroying it or its pool.
+     * Spawn and update options are deep-merged into the current ones.
      *
-     * @param options - Complete configuration for the particle emitter
-     * @throws Error if neither lifespan nor contentFrame is defined
+     * With scope `"new"` only particles spawned from now on use the new spawn options.
+     * With scope `"all"` the changed spawn option groups are also re-sampled on live particles,
+     * keeping their current position, rotation and age.
+     * Update options (spawn rate, interval, environment, spawn duration) always apply immediately.
+     *
+     * @param config - Partial configuration to merge
+     * @param scope - Which particles the spawn options apply to (default: "new")
      */
-    constructor(options: ParticleEmitterOptions) {
-        super();
-
-        if (!options.spawnOptions.lifespan && !options.contentFrame) {
+    public updateConfig(config: ParticleEmitterConfigUpdate, scope: ParticleConfigUpdateScope = "new") {
+        // Check the result before applying anything, so a rejected update leaves the emitter untouched
+        const contentFrame = config.contentFrame !== undefined ? config.contentFrame : this._contentFrame;
+        const spawnOptions = config.spawnOptions
+            ? mergeConfigValue(this._spawnOptions, config.spawnOptions)
+            : this._spawnOptions;
+        if (!spawnOptions.lifespan && !contentFrame) {
             throw new Error("ParticleEmitter - You must define a lifespan or a contentFrame");
         }
 
-        // Create Pool
-        this._pool = new ParticlePool(options.ClassType, options.initialSize, options.maxParticles);
-
-        // Content Frame
-        if (options.contentFrame) {
-            this._contentFrame = options.contentFrame;
+        if (config.contentFrame !== undefined) {
+            this._contentFrame = config.contentFrame;
+            for (let i = 0; i < this._subEmitters.length; i++) {
+                this._subEmitters[i].emitter.updateConfig({ contentFrame: config.contentFrame });
+            }
         }
 
-        // Spawn and Update options
-        this._spawnOptions = options.spawnOptions;
-        this._updateOptions = options.updateOptions;
+        if (config.spawnOptions) {
+            this._spawnOptions = spawnOptions;
 
-        // Environment
-        if (options.updateOptions.environment) {
-            this._environment.gravity = options.updateOptions.environment.gravity || 0;
-            this._environment.airResistance = options.updateOptions.environment.airResistance || 0;
-            this._environment.windX = options.updateOptions.environment.windX || 0;
-            this._environment.windY = options.updateOptions.environment.windY || 0;
-            this._environment.affectSurface = options.updateOptions.environment.affectSurface || false;
-        }
+            if ("subEmitters" in config.spawnOptions) {
+                this._buildSubEmitters();
+            }
 
-        // Spawn Duration
-        if (options.updateOptions.spawnDuration) {
-            this.spawnDuration = options.updateOptions.spawnDuration;
+            if (scope === "all") {
+                const keys = Object.keys(config.spawnOptions) as (keyof ParticleSpawnOptions)[];
+                for (let i = 0; i < this.children.length; i++) {
+                    const particle = this.children[i] as ParticleItem;
+                    particle.reconfigure(spawnOptions, keys);
+                    if (particle.trail && !particle.trail.parent) {
+                        this.trailLayer.addChild(particle.trail);
+                    }
+                }
+            }
         }
 
-        // Ticker
-        this._ticker = options.ticker || Ticker.shared;
+        if (config.updateOptions) {
+            this._updateOptions = mergeConfigValue(this._updateOptions, config.updateOptions);
+            this._applyUpdateOptions();
+            if (config.updateOptions.spawnRate) {
+                this._initSpawnRate();
+            }
+            if ("bursts" in config.updateOptions) {
+                this._syncBursts();
+            }
+            if ("fixedStep" in config.updateOptions) {
+                this._resetFixedStep();
+            }
+        }
 
-        this.reset();
+        // Pool sizing: a shared pool is sized by its owner, the emitter only keeps its own limit
+        if (config.maxParticles !== undefined) {
+            this._maxParticles = config.maxParticles >= 0 ? config.maxParticles : Infinity;
+            if (this._ownsPool) {
+                this._pool.maxPoolSize = this._maxParticles;
+                this._shrinkPool(this._maxParticles);
+            }
+        }
+        if (config.initialSize !== undefined) {
+            const missing = Math.min(config.initialSize, this._pool.maxPoolSize) - this._pool.totalSize;
+            if (missing > 0) {
+                this._pool.prepopulate(missing);
+            } else if (this._ownsPool && config.initialSize < this._initialSize) {
+                this._shrinkPool(config.initialSize);
+            }
+            this._initialSize = config.initialSize;
+        }
     }
 
     /**
-     * Generates a random value from a range specification.
-     * If the range is an array, returns a random value between min and max.
-     * If the range is a number, returns that number directly.
+     * Destroys available particles until the pool holds at most `size` particles.
+     * Live particles are kept, they leave the pool when they die.
      *
-     * @param range - Either a fixed number or [min, max] array
-     * @returns A random value within the specified range
+     * @param size - Total pool size to shrink to
      */
-    public static randomFromRange(range: [number, number] | number = 0) {
-        if (Array.isArray(range)) {
-            return Math.random() * (range[1] - range[0]) + range[0];
-        } else {
-            return range;
-        }
-    }
-
-    protected _recalcSpawnInterval() {
-        // Avoid division by zero / negative rates
-        const rate = Math.max(this._spawnRate, 0);
-        this._spawnInterval = rate > 0 ? 1000 / rate : 0;
+    protected _shrinkPool(size: number) {
+        this._pool.trim(size - this._pool.totalUsed);
     }
 
-    protected _updateSpawnRate(elapsedMS: number) {
-        const elapsedSec = elapsedMS / 1000;
+    /**
+     * Spawns particles right away, regardless of the spawn rate and `spawn` flag.
+     * Stops early when the emitter is full and the overflow policy drops new particles.
+     *
+     * @param count - Number of particles to spawn
+     * @param overrides - Spawn options merged over the emitter ones for this burst only (optional)
+     * @returns The number of particles actually spawned
+     */
+    public burst(count: number, overrides?: ParticleDeepPartial<ParticleSpawnOptions>) {
+        const spawnOptions = overrides ? mergeConfigValue(this._spawnOptions, overrides) : this._spawnOptions;
 
-        // Integrate velocity (clamp by magnitude)
-        if (this._spawnRateAcceleration) {
-            this._spawnRateVelocity += this._spawnRateAcceleration * elapsedSec;
-        }
-        if (this._spawnRateMaxVelocity >= 0) {
-            const max = this._spawnRateMaxVelocity;
-            this._spawnRateVelocity = Math.max(-max, Math.min(max, this._spawnRateVelocity));
+        let spawned = 0;
+        while (spawned < count && this._spawnParticle(spawnOptions)) {
+            spawned++;
         }
-
-        // Integrate rate
-        if (this._spawnRateVelocity) {
-            this._spawnRate += this._spawnRateVelocity * elapsedSec;
-            if (this._spawnRate < 0) this._spawnRate = 0;
+        // The failed spawn is already counted, the rest of the burst is dropped with it
+        if (spawned < count) {
+            this._droppedCount += count - spawned - 1;
         }
-
-        this._recalcSpawnInterval();
+        return spawned;
     }
 
     /**
-     * Handles particle spawning based on spawn rate and timing.
-     * Checks spawn conditions and creates new particles when appropriate.
+     * Creates and initializes a new particle from the pool.
+     * Adds the particle to the display list for rendering.
      *
-     * @param elapsedMS - Elapsed time in milliseconds since last spawn check
+     * @param spawnOptions - Spawn options to initialize the particle with (optional, emitter ones by default)
+     * @returns The spawned particle, or undefined if the emitter is full and the overflow policy drops it
      */
-    protected _spawn(elapsedMS: number) {
-        if (!this.spawn || !this._spawnInterval) return;
-
-        this._spawnElapsed += elapsedMS;
-        if (this._spawnElapsed < this._spawnInterval) return;
+    protected _spawnParticle(spawnOptions: ParticleSpawnOptions = this._spawnOptions) {
+        // Spawn a new particle from the pool, making room for it when the overflow policy allows
+        let particle = this._hasRoom() ? this._takeParticle(spawnOptions) : undefined;
+        if (particle === undefined && this._recycleParticle()) {
+            particle = this._takeParticle(spawnOptions);
+        }
+        if (particle === undefined) {
+            this._droppedCount++;
+            return undefined;
+        }
 
-        const numSpawns = Math.floor(this._spawnElapsed / this._spawnInterval);
-        if (numSpawns <= 0) return;
+        // Bring live particles to the current origin first, so the new one is not moved twice
+        this._moveWithOrigin();
+        if (this.spawnOrigin.x || this.spawnOrigin.y || this.spawnRotation) {
+            const matrix = ParticleEmitter._tmpMatrix
+                .identity()
+                .rotate(this.spawnRotation)
+                .translate(this.spawnOrigin.x, this.spawnOrigin.y);
+            particle.applyTransform(matrix, this.spawnRotation);
+        }
 
-        for (let i = 0; i < numSpawns; i++) this._spawnParticle();
+        this.addChild(particle);
+        if (particle.trail) {
+            this.trailLayer.addChild(particle.trail);
+        }
+        this._hasEmitted = true;
+        this.emit("particleSpawned", particle);
+        if (this._subEmitters.length) {
+            this._fireSubEmitters("spawn", particle, particle.x, particle.y);
+        }
+        return particle;
+    }
 
-        this._spawnElapsed = this._spawnElapsed % this._spawnInterval;
-        // NOTE: interval is derived from current _spawnRate (no random reset here)
+    /**
+     * Checks the emitter limits and the pool manager budget before a spawn. The pool size is checked by the pool.
+     */
+    protected _hasRoom(): boolean {
+        if (this.children.length >= this.quota || this.children.length >= this._maxParticles) return false;
+        return !this._poolManager || this._poolManager.totalUsed < this._poolManager.budget;
     }
 
     /**
-     * Creates and initializes a new particle from the pool.
-     * Adds the particle to the display list for rendering.
+     * Takes an initialized particle from the pool.
+     *
+     * @param spawnOptions - Spawn options to initialize the particle with
+     * @returns The particle, or undefined if the pool is exhausted
      */
-    protected _spawnParticle() {
-        // Spawn a new particle from the pool
-        const particle = this._pool.get({
-            spawnOptions: this._spawnOptions,
+    protected _takeParticle(spawnOptions: ParticleSpawnOptions): ParticleItem | undefined {
+        return this._pool.get({
+            spawnOptions,
             contentFrame: this._contentFrame,
+            direction: this.direction,
+            random: this._random.random,
         });
+    }
 
-        if (particle !== undefined) {
-            this.addChild(particle);
+    /**
+     * Kills a live particle picked by the overflow policy, so a new one can take its place.
+     *
+     * @returns True if a particle was recycled
+     */
+    protected _recycleParticle(): boolean {
+        const policy = this._updateOptions.overflow ?? "drop";
+        const count = this.children.length;
+        if (policy === "drop" || count === 0) return false;
+
+        // Particles are added in spawn order, so the first child is the oldest
+        let victim = this.children[0] as ParticleItem;
+        if (policy === "random") {
+            victim = this.children[Math.floor(this._random.random() * count)] as ParticleItem;
+        } else if (policy === "closestToDeath") {
+            let minLeft = Infinity;
+            for (let i = 0; i < count; i++) {
+                const particle = this.children[i] as ParticleItem;
+                const left = particle.lifespan - particle.currentLife;
+                if (left < minLeft) {
+                    minLeft = left;
+                    victim = particle;
+                }
+            }
         }
+
+        this._killParticle(victim, "overflow");
+        return true;
     }
 
     /**
      * Removes a particle from the display list and returns it to the pool.
      *
      * @param particle - The particle to remove and recycle
+     * @param reason - Why the particle died, reported by the `particleDied` event
      */
-    protected _killParticle(particle: ParticleItem) {
+    protected _killParticle(particle: ParticleItem, reason: ParticleDeathReason) {
+        this.emit("particleDied", particle, reason);
+        if (this._subEmitters.length) {
+            this._fireSubEmitters("death", particle, particle.x, particle.y, reason);
+            for (let i = 0; i < this._subEmitters.length; i++) {
+                this._subEmitters[i].trails.delete(particle);
+            }
+        }
+        particle.trail?.removeFromParent();
         this.removeChild(particle);
         this._pool.return(particle);
     }
 
     /**
-     * Checks if physics should be affected by particle surface area.
+     * Kills a particle of this emitter before the end of its lifespan.
      *
-     * @returns True if environmental forces should consider particle surface area
+     * @param particle - The particle to kill
+     * @returns True if the particle belonged to the emitter
      */
-    public get isPhysicsAffectedByParticleSurface() {
-        return (
-            this._environment.affectSurface &&
-            (this._environment.windX || this._environment.windY || this._environment.airResistance)
-        );
+    public killParticle(particle: ParticleItem): boolean {
+        if (particle.parent !== this) return false;
+        this._killParticle(particle, "manual");
+        return true;
+    }
+
+    /**
+     * Checks whether particles of the emitter or of its sub-emitters are alive.
+     */
+    protected _hasParticles(): boolean {
+        if (this.children.length > 0) return true;
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            if (this._subEmitters[i].emitter._hasParticles()) return true;
+        }
+        return false;
     }
 
     /**
@@ -372,28 +573,570 @@ export class ParticleEmitter extends ParticleContainer {
         if (this._environment.windY) {
             particle.velocityY += this._environment.windY * particleSurface * elapsedSec;
         }
+
+        // Force fields
+        const forceFields = this._updateOptions.forceFields;
+        if (forceFields || this._forceFields.length) {
+            const surface = this._environment.affectSurface ? particle.surfaceFactor : 1;
+            const weight = (surface * elapsedSec) / (particle.mass || 1);
+            const time = this._elapsedTime / 1000;
+            if (forceFields) {
+                for (let i = 0; i < forceFields.length; i++) {
+                    this._applyForceField(ForceField.from(forceFields[i]), particle, time, weight);
+                }
+            }
+            for (let i = 0; i < this._forceFields.length; i++) {
+                this._applyForceField(this._forceFields[i], particle, time, weight);
+            }
+        }
     }
 
     /**
-     * Connect to game clock to update loop for the emitter.
+     * Adds the acceleration of a force field to a particle velocity.
+     *
+     * @param field - The force field
+     * @param particle - The particle to push
+     * @param time - Simulated time in seconds
+     * @param weight - Elapsed time in seconds, scaled by the particle surface and divided by its mass
      */
-    protected _startUpdate() {
-        if (this._clockConnected) {
-            return;
+    protected _applyForceField(field: ForceField, particle: ParticleItem, time: number, weight: number) {
+        if (!field.enabled) return;
+        const force = field.sample(particle.x, particle.y, time, ParticleEmitter._tmpForce);
+        particle.velocityX += force.x * weight;
+        particle.velocityY += force.y * weight;
+    }
+
+    /**
+     * Gets the force fields added at runtime.
+     */
+    public get forceFields(): readonly ForceField[] {
+        return this._forceFields;
+    }
+
+    /**
+     * Adds a force field at runtime. Unlike `updateOptions.forceFields`, runtime fields are not serialized,
+     * and their properties can be changed every frame (e.g. an attractor following the pointer).
+     *
+     * @param field - A field instance, or options to create one from
+     * @returns The added field
+     */
+    public addForceField(field: ForceField | ParticleForceFieldOptions): ForceField {
+        const forceField = field instanceof ForceField ? field : ForceField.create(field);
+        this._forceFields.push(forceField);
+        return forceField;
+    }
+
+    /**
+     * Removes a force field added with `addForceField()`.
+     *
+     * @param field - The field to remove
+     * @returns True if the field was found
+     */
+    public removeForceField(field: ForceField): boolean {
+        const index = this._forceFields.indexOf(field);
+        if (index < 0) return false;
+        this._forceFields.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Resolves the collisions of a particle with the colliders and the content frame boundary after a step.
+     *
+     * @param particle - The particle that just moved
+     * @param fromX - X position before the step
+     * @param fromY - Y position before the step
+     * @returns True if the particle died
+     */
+    protected _collide(particle: ParticleItem, fromX: number, fromY: number): boolean {
+        const colliders = this._updateOptions.colliders;
+        if (colliders) {
+            const hit = ParticleEmitter._tmpHit;
+            for (let i = 0; i < colliders.length; i++) {
+                const options = colliders[i];
+                const collider = Collider.from(options);
+                if (!collider.collide(fromX, fromY, particle.x, particle.y, particle.collisionRadius, hit)) continue;
+
+                const behavior = options.behavior ?? "bounce";
+                if (!hit.resting) {
+                    const contactX = hit.x - hit.normalX * particle.collisionRadius;
+                    const contactY = hit.y - hit.normalY * particle.collisionRadius;
+                    this._emitCollision(particle, options, behavior, contactX, contactY, hit.normalX, hit.normalY);
+                }
+                if (behavior === "kill") {
+                    this._killParticle(particle, "collision");
+                    return true;
+                }
+
+                particle.x = hit.x;
+                particle.y = hit.y;
+                this._bounce(particle, hit.normalX, hit.normalY, options.restitution ?? 1, options.friction ?? 0);
+            }
+        }
+
+        if (this._applyBoundary(particle, fromX, fromY)) {
+            this._killParticle(particle, "out-of-bounds");
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Applies the boundary behavior of the content frame edges a particle reached.
+     *
+     * @param particle - The particle that just moved
+     * @param fromX - X position before the step
+     * @param fromY - Y position before the step
+     * @returns True if the particle must die
+     */
+    protected _applyBoundary(particle: ParticleItem, fromX: number, fromY: number): boolean {
+        const frame = this._contentFrame;
+        if (!frame || !this._updateOptions.boundary) return false;
+
+        const radius = particle.collisionRadius;
+        const frameRight = frame.x + frame.width;
+        const frameBottom = frame.y + frame.height;
+
+        if (particle.x - radius <= frame.x) {
+            if (this._applyEdge(particle, "left", fromX - radius > frame.x, 1, 0, frame.x + radius)) return true;
+        } else if (particle.x + radius >= frameRight) {
+            if (this._applyEdge(particle, "right", fromX + radius < frameRight, -1, 0, frameRight - radius)) {
+                return true;
+            }
+        }
+
+        if (particle.y - radius <= frame.y) {
+            if (this._applyEdge(particle, "top", fromY - radius > frame.y, 0, 1, frame.y + radius)) return true;
+        } else if (particle.y + radius >= frameBottom) {
+            if (this._applyEdge(particle, "bottom", fromY + radius < frameBottom, 0, -1, frameBottom - radius)) {
+                return true;
+            }
         }
-        this._clockConnected = true;
-        this._ticker.add(this.updateEmitter, this);
+
+        return false;
     }
 
     /**
-     * Disconnect from game clock to stop the update loop for the emitter.
+     * Applies the behavior of one content frame edge to a particle touching or past it.
+     *
+     * @param particle - The particle
+     * @param edge - Edge name
+     * @param entering - Whether the particle was inside before the step, to fire the collision event once
+     * @param normalX - Inward normal X of the edge
+     * @param normalY - Inward normal Y of the edge
+     * @param limit - Position on the edge axis where the particle touches the edge
+     * @returns True if the particle must die
+     */
+    protected _applyEdge(
+        particle: ParticleItem,
+        edge: ParticleBoundaryEdgeName,
+        entering: boolean,
+        normalX: number,
+        normalY: number,
+        limit: number
+    ): boolean {
+        const frame = this._contentFrame!;
+        const boundary = this._updateOptions.boundary!;
+        const option = boundary[edge];
+        const settings = typeof option === "object" ? option : undefined;
+        const behavior = (typeof option === "string" ? option : option?.behavior) ?? boundary.behavior ?? "kill";
+
+        if (behavior === "kill" || behavior === "wrap") {
+            // Wait until the particle is fully outside
+            const w = particle.width;
+            const h = particle.height;
+            const outside =
+                (normalX > 0 && particle.x + w * (1 - particle.anchor.x) < frame.x) ||
+                (normalX < 0 && particle.x - w * particle.anchor.x > frame.x + frame.width) ||
+                (normalY > 0 && particle.y + h * (1 - particle.anchor.y) < frame.y) ||
+                (normalY < 0 && particle.y - h * particle.anchor.y > frame.y + frame.height);
+            if (!outside) return false;
+            if (behavior === "kill") return true;
+
+            // Come back from the opposite edge, just outside of it
+            const offsetX = normalX * (frame.width + w);
+            const offsetY = normalY * (frame.height + h);
+            particle.x += offsetX;
+            particle.y += offsetY;
+            particle.prevX += offsetX;
+            particle.prevY += offsetY;
+            particle.trail?.reset(particle.x, particle.y);
+            return false;
+        }
+
+        if (behavior === "none") return false;
+
+        if (normalX !== 0) {
+            particle.x = limit;
+        } else {
+            particle.y = limit;
+        }
+
+        if (behavior === "stick") {
+            particle.velocityX = 0;
+            particle.velocityY = 0;
+        } else {
+            const restitution = behavior === "bounce" ? settings?.restitution ?? boundary.restitution ?? 1 : 0;
+            const friction = behavior === "bounce" ? settings?.friction ?? boundary.friction ?? 0 : 0;
+            this._bounce(particle, normalX, normalY, restitution, friction);
+        }
+
+        if (entering) {
+            const radius = particle.collisionRadius;
+            const contactX = particle.x - normalX * radius;
+            const contactY = particle.y - normalY * radius;
+            this._emitCollision(particle, edge, behavior, contactX, contactY, normalX, normalY);
+        }
+        return false;
+    }
+
+    /**
+     * Reflects the part of the particle velocity going into a surface.
+     *
+     * @param particle - The particle
+     * @param normalX - Surface normal X, pointing towards the particle
+     * @param normalY - Surface normal Y, pointing towards the particle
+     * @param restitution - Part of the normal speed kept
+     * @param friction - Part of the tangential speed lost
      */
-    protected _stopUpdate() {
-        if (!this._clockConnected) {
+    protected _bounce(particle: ParticleItem, normalX: number, normalY: number, restitution: number, friction: number) {
+        const normalSpeed = particle.velocityX * normalX + particle.velocityY * normalY;
+        if (normalSpeed >= 0) return;
+
+        const tangentX = particle.velocityX - normalSpeed * normalX;
+        const tangentY = particle.velocityY - normalSpeed * normalY;
+        particle.velocityX = tangentX * (1 - friction) - normalSpeed * restitution * normalX;
+        particle.velocityY = tangentY * (1 - friction) - normalSpeed * restitution * normalY;
+    }
+
+    /**
+     * Fires the `collision` event.
+     */
+    protected _emitCollision(
+        particle: ParticleItem,
+        collider: ParticleColliderOptions | ParticleBoundaryEdgeName,
+        behavior: ParticleBoundaryBehavior,
+        x: number,
+        y: number,
+        normalX: number,
+        normalY: number
+    ) {
+        const event: ParticleCollisionEvent = { particle, collider, behavior, x, y, normalX, normalY };
+        this.emit("collision", event);
+        if (this._subEmitters.length) {
+            this._fireSubEmitters("collision", particle, x, y);
+        }
+    }
+
+    /**
+     * Gets the sub-emitters built from `spawnOptions.subEmitters`, in the same order.
+     * They are regular emitters driven by this one: listen to their events or read their particles from here.
+     */
+    public get subEmitters(): readonly ParticleEmitter[] {
+        return this._subEmitters.map((subEmitter) => subEmitter.emitter);
+    }
+
+    /**
+     * Replaces the sub-emitters with new ones built from the spawn options.
+     * Sub-emitters using the parent particle class take their particles from the parent pool.
+     */
+    protected _buildSubEmitters() {
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            this._subEmitters[i].emitter.destroy();
+        }
+
+        const subEmitters = this._spawnOptions.subEmitters || [];
+        this._subEmitters = subEmitters.map((options, index) => {
+            const ClassType = options.ClassType || this._classType;
+            const emitter = new ParticleEmitter({
+                ClassType,
+                initialSize: 0,
+                pool: ClassType === this._classType ? this._pool : undefined,
+                poolManager: this._poolManager || undefined,
+                spawnOptions: options.spawnOptions,
+                updateOptions: {
+                    ...options.updateOptions,
+                    spawnRate: { value: 0 },
+                    interval: options.updateOptions?.interval ?? 0,
+                    bursts: undefined,
+                    prewarm: undefined,
+                },
+                contentFrame: this._contentFrame || undefined,
+                ticker: this._ticker,
+                registry: this._registry,
+                seed: this._random.seed + index + 1,
+                autoUpdate: false,
+                blendMode: this.blendMode,
+            });
+            if (this._isRunning) {
+                emitter.start();
+            }
+            return { options, emitter, trails: new Map() };
+        });
+
+        this._attachSubEmitters();
+    }
+
+    /**
+     * Places the sub-emitters next to the emitter in the display list, with the same transform,
+     * so their particles share the emitter space.
+     */
+    protected _attachSubEmitters() {
+        const parent = this.parent;
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            const emitter = this._subEmitters[i].emitter;
+            if (emitter.parent !== parent) {
+                if (parent) {
+                    parent.addChildAt(emitter, parent.getChildIndex(this) + 1);
+                } else {
+                    emitter.removeFromParent();
+                }
+            }
+            this._copyTransformTo(emitter);
+            emitter._attachTrailLayer();
+            emitter._attachSubEmitters();
+        }
+    }
+
+    /**
+     * Places the trail layer just below the emitter in the display list, with the same transform.
+     */
+    protected _attachTrailLayer() {
+        const layer = this._trailLayer;
+        if (!layer) return;
+
+        const parent = this.parent;
+        if (layer.parent !== parent) {
+            if (parent) {
+                parent.addChildAt(layer, parent.getChildIndex(this));
+            } else {
+                layer.removeFromParent();
+            }
+        }
+        this._copyTransformTo(layer);
+    }
+
+    /**
+     * Gives a sibling display object the transform of the emitter.
+     *
+     * @param target - Sibling to update
+     */
+    protected _copyTransformTo(target: Container) {
+        target.position.copyFrom(this.position);
+        target.scale.copyFrom(this.scale);
+        target.skew.copyFrom(this.skew);
+        target.pivot.copyFrom(this.pivot);
+        target.origin.copyFrom(this.origin);
+        target.rotation = this.rotation;
+    }
+
+    /**
+     * Gets the container of the particle trails, creating it on first use.
+     * It is kept below the emitter in the display list; filters or a blend mode can be set on it.
+     */
+    public get trailLayer(): Container {
+        if (!this._trailLayer) {
+            this._trailLayer = new Container({ label: "ParticleTrails" });
+            this._attachTrailLayer();
+        }
+        return this._trailLayer;
+    }
+
+    /**
+     * Gets the display object the spawn origin and rotation follow, if any.
+     */
+    public get followTarget(): Container | null {
+        return this._followTarget;
+    }
+
+    /**
+     * Makes the spawn origin and rotation follow a display object, e.g. the nozzle of a ship.
+     * The target can be anywhere in the scene; its position is brought into the emitter space every frame.
+     *
+     * @param target - Display object to follow, or null to stop following
+     * @param offset - Followed point, in the target local space (optional, its position by default)
+     */
+    public follow(target: Container | null, offset?: PointData) {
+        this._followTarget = target;
+        this._followOffset.set(offset?.x ?? 0, offset?.y ?? 0);
+        this._syncOrigin();
+    }
+
+    /**
+     * Takes the spawn origin from the follow target, then moves local space particles along with the origin.
+     */
+    protected _syncOrigin() {
+        const target = this._followTarget;
+        if (target?.destroyed) {
+            this._followTarget = null;
+        } else if (target) {
+            const global = target.toGlobal(this._followOffset, ParticleEmitter._tmpPoint);
+            this.toLocal(global, undefined, this.spawnOrigin);
+            const targetMatrix = target.getGlobalTransform(ParticleEmitter._tmpMatrix, false);
+            const targetRotation = Math.atan2(targetMatrix.b, targetMatrix.a);
+            const matrix = this.getGlobalTransform(ParticleEmitter._tmpMatrix, false);
+            this.spawnRotation = targetRotation - Math.atan2(matrix.b, matrix.a);
+        }
+
+        this._moveWithOrigin();
+    }
+
+    /**
+     * Moves local space particles by the change of the spawn origin and rotation since the last call.
+     */
+    protected _moveWithOrigin() {
+        const { x, y } = this.spawnOrigin;
+        const rotation = this.spawnRotation - this._lastOriginRotation;
+        if (this._updateOptions.space !== "world" && (x !== this._lastOriginX || y !== this._lastOriginY || rotation)) {
+            const matrix = ParticleEmitter._tmpMatrix
+                .identity()
+                .translate(-this._lastOriginX, -this._lastOriginY)
+                .rotate(rotation)
+                .translate(x, y);
+            this._transformParticles(matrix, rotation);
+        }
+        this._lastOriginX = x;
+        this._lastOriginY = y;
+        this._lastOriginRotation = this.spawnRotation;
+    }
+
+    /**
+     * In world space, moves the particles back where they were before the emitter container moved.
+     */
+    protected _syncSpace() {
+        if (this._updateOptions.space !== "world") {
+            this._lastWorldTransform = null;
             return;
         }
-        this._clockConnected = false;
-        this._ticker.remove(this.updateEmitter, this);
+
+        const world = this.getGlobalTransform(ParticleEmitter._tmpMatrix, false);
+        const last = this._lastWorldTransform;
+        if (!last) {
+            this._lastWorldTransform = world.clone();
+            return;
+        }
+        if (world.equals(last)) return;
+
+        // Particle positions go from the previous emitter space to the global one, then to the current one
+        const matrix = ParticleEmitter._spaceMatrix.copyFrom(world).invert().append(last);
+        const rotation = Math.atan2(last.b, last.a) - Math.atan2(world.b, world.a);
+        this._transformParticles(matrix, rotation);
+        last.copyFrom(world);
+    }
+
+    /**
+     * Moves the live particles to another space, sub-emitter particles included.
+     *
+     * @param matrix - Transform from the current space to the new one
+     * @param rotation - Rotation of the transform in radians
+     */
+    protected _transformParticles(matrix: Matrix, rotation: number) {
+        for (let i = 0; i < this.children.length; i++) {
+            (this.children[i] as ParticleItem).applyTransform(matrix, rotation);
+        }
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            this._subEmitters[i].emitter._transformParticles(matrix, rotation);
+        }
+    }
+
+    /**
+     * Fires the sub-emitters of a trigger.
+     *
+     * @param trigger - What happened to the particle
+     * @param particle - The parent particle
+     * @param x - X position to emit from
+     * @param y - Y position to emit from
+     * @param reason - Why the particle died, for the `death` trigger (optional)
+     */
+    protected _fireSubEmitters(
+        trigger: ParticleSubEmitterTrigger,
+        particle: ParticleItem,
+        x: number,
+        y: number,
+        reason?: ParticleDeathReason
+    ) {
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            const subEmitter = this._subEmitters[i];
+            const options = subEmitter.options;
+            if (options.trigger !== trigger) continue;
+            if (reason && !(options.deathReasons ?? SUB_EMITTER_DEATH_REASONS).includes(reason)) continue;
+
+            const count = options.count ?? (trigger === "spawn" && options.rate ? 0 : 1);
+            this._emitSubParticles(
+                subEmitter,
+                particle,
+                Math.round(ParticleEmitter.randomFromRange(count, this._random.random)),
+                x,
+                y
+            );
+        }
+    }
+
+    /**
+     * Emits the trail particles of the `spawn` sub-emitters with a rate, spread along the particle move.
+     *
+     * @param particle - The parent particle
+     * @param fromX - X position before the step
+     * @param fromY - Y position before the step
+     * @param elapsedMS - Step time in milliseconds
+     */
+    protected _emitTrails(particle: ParticleItem, fromX: number, fromY: number, elapsedMS: number) {
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            const subEmitter = this._subEmitters[i];
+            const { trigger, rate } = subEmitter.options;
+            if (trigger !== "spawn" || !rate || !(rate > 0)) continue;
+
+            const interval = 1000 / rate;
+            const previous = subEmitter.trails.get(particle) ?? 0;
+            const elapsed = previous + elapsedMS;
+            const emissions = Math.floor(elapsed / interval);
+            for (let emission = 1; emission <= emissions; emission++) {
+                const t = Math.min(Math.max((emission * interval - previous) / elapsedMS, 0), 1);
+                const x = fromX + (particle.x - fromX) * t;
+                const y = fromY + (particle.y - fromY) * t;
+                this._emitSubParticles(subEmitter, particle, 1, x, y);
+            }
+            subEmitter.trails.set(particle, elapsed - emissions * interval);
+        }
+    }
+
+    /**
+     * Spawns particles of a sub-emitter around a position, passing down what the options inherit from the parent.
+     *
+     * @param subEmitter - The sub-emitter
+     * @param source - The parent particle
+     * @param count - Number of particles to spawn
+     * @param x - X position the sub-emitter spawn position is relative to
+     * @param y - Y position the sub-emitter spawn position is relative to
+     */
+    protected _emitSubParticles(subEmitter: SubEmitter, source: ParticleItem, count: number, x: number, y: number) {
+        const { options, emitter } = subEmitter;
+        if (count <= 0) return;
+        if (options.probability !== undefined && this._random.next() >= options.probability) return;
+
+        const position = emitter._spawnOptions.position;
+        const overrides: ParticleDeepPartial<ParticleSpawnOptions> = {
+            position: { x: offsetRange(position.x, x), y: offsetRange(position.y, y) },
+        };
+        if (options.inheritColor) {
+            overrides.color = source.tint;
+        }
+        if (options.inheritScale) {
+            overrides.scale = source.scale.x;
+        }
+
+        const spawnOptions = mergeConfigValue(emitter._spawnOptions, overrides);
+        const inheritVelocity = options.inheritVelocity ?? 0;
+        for (let i = 0; i < count; i++) {
+            const particle = emitter._spawnParticle(spawnOptions);
+            if (!particle) break;
+
+            if (inheritVelocity) {
+                particle.velocityX += source.velocityX * inheritVelocity;
+                particle.velocityY += source.velocityY * inheritVelocity;
+                particle.initVelocityX = particle.velocityX;
+                particle.initVelocityY = particle.velocityY;
+            }
+        }
     }
 
     /**
@@ -422,134 +1165,224 @@ export class ParticleEmitter extends ParticleContainer {
     }
 
     /**
-     * Updates the spawn duration timer and automatically stops spawning when duration is reached.
+     * Main update loop for the particle emitter.
+     * Handles spawning new particles and updating existing ones with physics and lifecycle management.
+     * With `updateOptions.fixedStep`, the simulation runs in constant steps and `interval` is ignored.
      *
-     * @param game - The forge game instance providing timing information
+     * @param ticker - The ticker providing timing information
      */
-    public updateSpawnDuration(elapsedMS: number) {
-        if (!this.spawn || this.spawnDuration <= 0) {
-            return;
-        }
+    public updateEmitter(ticker: Ticker) {
+        const elapsedMS = ticker.deltaMS;
+        const fixedStep = this._updateOptions.fixedStep;
 
-        this._spawnDurationElapsed += elapsedMS;
+        // Idle timeout: shared pools are updated once per frame by their manager, other ones by their owner
+        if (this._ownsPool) {
+            this._pool.update();
+        } else {
+            this._poolManager?.update(ticker.lastTime);
+        }
+        if (this._subEmitters.length) {
+            this._attachSubEmitters();
+        }
+        this._attachTrailLayer();
+        this._syncOrigin();
+        this._syncSpace();
 
-        if (this._spawnDurationElapsed < this.spawnDuration) {
+        if (fixedStep && fixedStep.step > 0) {
+            this._updateFixed(elapsedMS, fixedStep);
             return;
         }
 
-        this._spawnDurationElapsed = 0;
-        this.spawn = false;
+        this._updateElapsed += elapsedMS;
+
+        if (this._updateElapsed < this._updateOptions.interval) return;
+
+        this._advance(this._updateElapsed);
+        this._updateElapsed = 0;
     }
 
     /**
-     * Main update loop for the particle emitter.
-     * Handles spawning new particles and updating existing ones with physics and lifecycle management.
+     * Runs as many fixed steps as the elapsed time allows, up to `maxSubsteps`.
+     * Time beyond the cap is discarded, or kept up to `maxCatchUp` to be caught up on the next frames.
      *
-     * @param game - The forge game instance providing timing information
+     * @param elapsedMS - Frame time in milliseconds
+     * @param fixedStep - Fixed step settings
      */
-    public updateEmitter(ticker: Ticker) {
-        const elapsedMS = ticker.deltaMS;
-        this._updateElapsed += elapsedMS;
-
-        if (this._updateElapsed < this._updateOptions.interval) return;
-
-        // Update spawn rate physics at emitter tick rate
-        this._updateSpawnRate(this._updateElapsed);
+    protected _updateFixed(elapsedMS: number, fixedStep: ParticleFixedStepOptions) {
+        const { step, interpolate = false } = fixedStep;
+        const maxSubsteps = fixedStep.maxSubsteps ?? 5;
 
-        this._spawn(this._updateElapsed);
-        this.updateSpawnDuration(elapsedMS);
+        this._restoreSimulation();
+        this._fixedElapsed += elapsedMS;
 
-        for (let i = this.children.length - 1; i >= 0; i--) {
-            const particleItem = this.children[i] as ParticleItem;
+        for (let substeps = 0; substeps < maxSubsteps && this._fixedElapsed >= step && !this.destroyed; substeps++) {
+            if (interpolate) {
+                for (let i = 0; i < this.children.length; i++) {
+                    (this.children[i] as ParticleItem).savePreviousState();
+                }
+            }
+            this._advance(step);
+            this._fixedElapsed -= step;
+        }
 
-            if (particleItem.currentLife >= particleItem.lifespan || this.isOutOfBounds(particleItem)) {
-                this._killParticle(particleItem);
-                continue;
+        if (this._fixedElapsed >= step) {
+            if (fixedStep.dropPolicy === "slowdown") {
+                this._fixedElapsed = Math.min(this._fixedElapsed, fixedStep.maxCatchUp ?? step * maxSubsteps);
+            } else {
+                this._fixedElapsed %= step;
             }
+        }
 
-            // Apply environment forces before integration step
-            this._applyEnvironment(particleItem, this._updateElapsed);
-            particleItem.updatePhysics(this._updateElapsed, this._contentFrame || undefined);
+        if (interpolate) {
+            const alpha = Math.min(this._fixedElapsed / step, 1);
+            for (let i = 0; i < this.children.length; i++) {
+                (this.children[i] as ParticleItem).interpolate(alpha);
+            }
         }
+    }
 
-        this._updateElapsed = 0;
+    /**
+     * Puts back the simulated transform of interpolated particles.
+     */
+    protected _restoreSimulation() {
+        for (let i = 0; i < this.children.length; i++) {
+            (this.children[i] as ParticleItem).restoreSimulation();
+        }
     }
 
     /**
-     * Starts the particle emitter and optionally begins spawning particles immediately.
-     *
-     * @param emit - Whether to start spawning particles immediately (default: false)
+     * Drops the fixed step backlog and interpolation state, e.g. after the fixed step settings changed.
      */
-    public start(emit: boolean = false) {
-        if (this._isRunning) {
-            return;
+    protected _resetFixedStep() {
+        this._fixedElapsed = 0;
+        for (let i = 0; i < this.children.length; i++) {
+            const particleItem = this.children[i] as ParticleItem;
+            particleItem.restoreSimulation();
+            particleItem.savePreviousState();
         }
-        this.spawn = emit;
-        this._spawnElapsed = this._spawnInterval;
-        this._startUpdate();
-        this._isRunning = true;
     }
 
     /**
-     * Pauses the particle emitter, stopping updates but maintaining current state.
+     * Runs the spawn and physics loop headlessly for the given time, without waiting for the ticker.
+     * The time is split into steps of `fixedStep.step`, or of the update interval (at least one 60 FPS frame),
+     * so a long simulation is as accurate as the same time played live.
+     * Tools can seek to a given time with `stop()`, `start()` and `simulate(time - emitter.elapsedTime)`.
+     *
+     * @param ms - Time to simulate in milliseconds
      */
-    public pause() {
-        if (!this._isRunning || this._isPaused) {
+    public simulate(ms: number) {
+        if (!(ms > 0)) return;
+
+        this._restoreSimulation();
+
+        const fixedStep = this._updateOptions.fixedStep;
+        if (fixedStep && fixedStep.step > 0) {
+            this._fixedElapsed += ms;
+            while (this._fixedElapsed >= fixedStep.step && !this.destroyed) {
+                this._advance(fixedStep.step);
+                this._fixedElapsed -= fixedStep.step;
+            }
+            for (let i = 0; i < this.children.length; i++) {
+                (this.children[i] as ParticleItem).savePreviousState();
+            }
             return;
         }
-        this._isPaused = true;
-        this._stopUpdate();
+
+        const step = Math.max(this._updateOptions.interval, ParticleEmitter.simulationStep);
+        for (let remaining = ms; remaining > 0 && !this.destroyed; remaining -= step) {
+            this._advance(Math.min(step, remaining));
+        }
     }
 
     /**
-     * Resumes the particle emitter from a paused state.
+     * Advances the simulation by one step: spawning, bursts, spawn duration, then particle physics.
+     *
+     * @param elapsedMS - Simulated time in milliseconds
      */
-    public resume() {
-        if (!this._isRunning || !this._isPaused) {
-            return;
+    protected _advance(elapsedMS: number) {
+        this._updateEmission(elapsedMS);
+
+        const boundary = this._updateOptions.boundary;
+
+        for (let i = this.children.length - 1; i >= 0; i--) {
+            const particleItem = this.children[i] as ParticleItem;
+
+            if (particleItem.currentLife >= particleItem.lifespan) {
+                this._killParticle(particleItem, "lifespan");
+                continue;
+            }
+            if (!boundary && this.isOutOfBounds(particleItem)) {
+                this._killParticle(particleItem, "out-of-bounds");
+                continue;
+            }
+
+            const fromX = particleItem.x;
+            const fromY = particleItem.y;
+
+            // Apply environment forces before integration step
+            this._applyEnvironment(particleItem, elapsedMS);
+            particleItem.updatePhysics(elapsedMS, this._contentFrame || undefined);
+
+            if (this._collide(particleItem, fromX, fromY)) continue;
+
+            particleItem.trail?.record(particleItem.x, particleItem.y);
+
+            if (this._subEmitters.length) {
+                this._emitTrails(particleItem, fromX, fromY, elapsedMS);
+            }
         }
-        this._isPaused = false;
-        this._startUpdate();
+
+        // Sub-emitters are driven by their parent
+        for (let i = 0; i < this._subEmitters.length && !this.destroyed; i++) {
+            this._subEmitters[i].emitter.simulate(elapsedMS);
+        }
+
+        this._checkComplete();
     }
 
     /**
-     * Stops the particle emitter and resets its state.
+     * Syncs the spawn origin and space, and starts the sub-emitters.
      */
-    public stop() {
-        if (!this._isRunning) {
-            return;
+    protected _onStart() {
+        this._lastWorldTransform = null;
+        this._syncOrigin();
+        this._syncSpace();
+
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            this._subEmitters[i].emitter.start();
         }
-        this.reset();
-        this._stopUpdate();
     }
 
     /**
      * Resets the emitter to its initial state, clearing all particles and resetting timers.
      */
     public reset() {
-        // ...existing code...
-        this._isRunning = false;
-        this._isPaused = false;
-        this.spawn = false;
-        this._updateElapsed = 0;
-        this._spawnElapsed = 0;
+        super.reset();
+        this._fixedElapsed = 0;
 
-        // SpawnRate physics init
-        this._spawnRate = ParticleEmitter.randomFromRange(this._updateOptions.spawnRate.value);
-        this._spawnRateVelocity = this._updateOptions.spawnRate.velocity
-            ? ParticleEmitter.randomFromRange(this._updateOptions.spawnRate.velocity)
-            : 0;
-        this._spawnRateAcceleration = this._updateOptions.spawnRate.acceleration
-            ? ParticleEmitter.randomFromRange(this._updateOptions.spawnRate.acceleration)
-            : 0;
-        this._spawnRateMaxVelocity = this._updateOptions.spawnRate.maxVelocity ?? -1;
+        for (let i = this.children.length - 1; i >= 0; i--) {
+            this._killParticle(this.children[i] as ParticleItem, "manual");
+        }
 
-        this._recalcSpawnInterval();
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            this._subEmitters[i].emitter.reset();
+        }
+    }
 
-        this._spawnDurationElapsed = 0;
+    /**
+     * Particles are Sprites rendered as regular children, so the Container child API is restored
+     * over the ParticleContainer one, which only accepts lightweight particles.
+     */
+    public addChild<U extends ContainerChild[]>(...children: U): U[0] {
+        return Container.prototype.addChild.apply(this, children);
+    }
+
+    public removeChild<U extends ContainerChild[]>(...children: U): U[0] {
+        return Container.prototype.removeChild.apply(this, children);
+    }
 
-        this.children.forEach((particle) => this._pool.return(particle as ParticleItem));
-        this.removeChildren(0, this.children.length);
+    public removeChildren(beginIndex?: number, endIndex?: number): ContainerChild[] {
+        return Container.prototype.removeChildren.call(this, beginIndex, endIndex);
     }
 
     /**
@@ -559,7 +1392,16 @@ export class ParticleEmitter extends ParticleContainer {
      */
     public destroy(options?: DestroyOptions | boolean) {
         this._stopUpdate();
-        this._pool.destroy();
+        for (let i = 0; i < this._subEmitters.length; i++) {
+            this._subEmitters[i].emitter.destroy();
+        }
+        this._subEmitters = [];
+        this._releaseParticles();
+        this._trailLayer?.destroy();
+        this._trailLayer = null;
+        if (this._ownsPool) {
+            this._pool.destroy();
+        }
         super.destroy(options);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,704 @@
+import { ParticleContainer, Texture, Ticker } from "pixi.js";
+import type { ContainerChild, ContainerEvents, ParticleProperties, PointData, Rectangle } from "pixi.js";
+import type {
+    FastParticleEmitterEvents,
+    ParticleContainerRenderOptions,
+    ParticleBurst,
+    ParticleEmitterOptions,
+    ParticleSpawnOptions,
+    ParticleUpdateOptions,
+} from "./types";
+import { ParticleRandom } from "./ParticleRandom";
+
+/** Options read by the base emitter, shared by ParticleEmitter and FastParticleEmitter */
+type ParticleEmitterBaseOptions = Pick<
+    ParticleEmitterOptions,
+    | "spawnOptions"
+    | "updateOptions"
+    | "contentFrame"
+    | "ticker"
+    | "seed"
+    | "random"
+    | "autoUpdate"
+    | keyof ParticleContainerRenderOptions
+>;
+
+/** Events of an emitter: the ones fired by the base emitter, plus any other listener arguments */
+type ParticleEmitterEventMap<Events> = FastParticleEmitterEvents & { [K in keyof Events]: unknown[] };
+
+/**
+ * Emission logic shared by ParticleEmitter and FastParticleEmitter: spawn rate, bursts, spawn duration,
+ * environment, clock connection and the start / pause / resume / stop lifecycle.
+ * Subclasses own their particles and implement how they are spawned, simulated and counted.
+ */
+export abstract class ParticleEmitterBase<
+    Events extends ParticleEmitterEventMap<Events> = FastParticleEmitterEvents,
+> extends ParticleContainer {
+    /** Random generator every sample of the emitter and its particles goes through */
+    protected _random: ParticleRandom;
+    /** Whether the generator was created by the emitter, and is restarted by `reset()` */
+    protected _ownsRandom: boolean;
+    /** Whether the emitter is connected to the game clock for updates */
+    protected _clockConnected: boolean = false;
+    /** Ticker instance for managing update timing */
+    protected _ticker: Ticker;
+    /** Whether the emitter updates itself from the ticker */
+    protected _autoUpdate: boolean;
+    /** Boundary rectangle for particle containment */
+    protected _contentFrame: Rectangle | null = null;
+    /** Configuration for individual particle spawn behavior */
+    protected _spawnOptions: ParticleSpawnOptions;
+    /** Configuration for emitter update behavior and environment */
+    protected _updateOptions: ParticleUpdateOptions;
+    /** Accumulated time since last update cycle */
+    protected _updateElapsed: number = 0;
+    /** Simulated time in milliseconds since start */
+    protected _elapsedTime: number = 0;
+    /** Accumulated time since last spawn attempt */
+    protected _spawnElapsed: number = 0;
+    /** Current spawn interval in milliseconds */
+    protected _spawnInterval: number = 0;
+    /** Current spawn rate (particles per second) */
+    protected _spawnRate: number = 0;
+    /** Spawn rate velocity (particles per second per second) */
+    protected _spawnRateVelocity: number = 0;
+    /** Spawn rate acceleration (particles per second per second^2) */
+    protected _spawnRateAcceleration: number = 0;
+    /** Max abs spawn rate velocity (-1 unlimited) */
+    protected _spawnRateMaxVelocity: number = -1;
+    /** Accumulated time for automatic spawn duration */
+    protected _spawnDurationElapsed: number = 0;
+    /** Whether the emitter is currently running */
+    protected _isRunning: boolean = false;
+    /** Whether the emitter is currently paused */
+    protected _isPaused: boolean = false;
+    /** Time in milliseconds since start, used to schedule bursts */
+    protected _burstElapsed: number = 0;
+    /** Number of repetitions already due for each scheduled burst */
+    protected _burstsFired: number[] = [];
+    /** Whether a particle was spawned since start, so completion is not reported before anything happened */
+    protected _hasEmitted: boolean = false;
+    /** Whether `emitterComplete` was fired since start */
+    protected _completed: boolean = false;
+    /** Spawns dropped because the emitter was full */
+    protected _droppedCount: number = 0;
+
+    /** Duration in milliseconds for automatic spawn termination */
+    public spawnDuration: number = 0;
+    /** Whether the emitter should spawn new particles */
+    public spawn: boolean = false;
+    /**
+     * Emission direction in radians. Polar velocities (`position.speed`) are relative to it.
+     * Unlike `rotation`, changing it only affects particles spawned afterwards.
+     */
+    public direction: number = 0;
+    /** Environmental physics settings affecting all particles */
+    protected _environment = {
+        affectSurface: false,
+        gravity: 0,
+        airResistance: 0,
+        windX: 0,
+        windY: 0,
+    };
+
+    /**
+     * Stores the options shared by all emitters and passes the render options to the ParticleContainer.
+     * Subclasses apply the update options and call `reset()` once their own state is ready.
+     *
+     * @param options - Emitter options
+     */
+    constructor(options: ParticleEmitterBaseOptions) {
+        super({
+            dynamicProperties: {
+                ...ParticleEmitterBase.dynamicPropertiesFor(options.spawnOptions, options.updateOptions),
+                ...options.dynamicProperties,
+            },
+            texture: typeof options.texture === "string" ? Texture.from(options.texture) : options.texture,
+            blendMode: options.blendMode,
+            roundPixels: options.roundPixels,
+        });
+
+        this._random = options.random || new ParticleRandom(options.seed);
+        this._ownsRandom = !options.random;
+
+        // Content Frame
+        if (options.contentFrame) {
+            this._contentFrame = options.contentFrame;
+        }
+
+        // Spawn and Update options
+        this._spawnOptions = options.spawnOptions;
+        this._updateOptions = options.updateOptions;
+
+        // Ticker
+        this._ticker = options.ticker || Ticker.shared;
+        this._autoUpdate = options.autoUpdate ?? true;
+    }
+
+    /**
+     * Generates a random value from a range specification.
+     * If the range is an array, returns a random value between min and max.
+     * If the range is a number, returns that number directly.
+     *
+     * @param range - Either a fixed number or [min, max] array
+     * @param random - Random function to sample with (optional, Math.random by default)
+     * @returns A random value within the specified range
+     */
+    public static randomFromRange(range: [number, number] | number = 0, random: () => number = Math.random) {
+        if (Array.isArray(range)) {
+            return random() * (range[1] - range[0]) + range[0];
+        } else {
+            return range;
+        }
+    }
+
+    /**
+     * Chooses the particle properties that change every frame with the given options. Properties that only change
+     * when a particle spawns stay static: they are uploaded when particles are added or removed.
+     * Positions are static for particles that never move, so changing gravity or wind at runtime on such an emitter
+     * needs `dynamicProperties.position`.
+     *
+     * @param spawnOptions - Spawn options of the emitter
+     * @param updateOptions - Update options of the emitter
+     * @returns The dynamic properties (vertex is scale, color is tint and alpha)
+     */
+    public static dynamicPropertiesFor(
+        spawnOptions: ParticleSpawnOptions,
+        updateOptions: ParticleUpdateOptions
+    ): ParticleProperties {
+        const { position, rotation, scale, alpha, color, emissionShape } = spawnOptions;
+        const environment = updateOptions.environment || {};
+        const moving =
+            !!position.speed ||
+            !!position.velocity ||
+            !!position.velocityX ||
+            !!position.velocityY ||
+            !!position.acceleration ||
+            !!position.accelerationX ||
+            !!position.accelerationY ||
+            !!emissionShape?.normalVelocity ||
+            !!environment.gravity ||
+            !!environment.windX ||
+            !!environment.windY ||
+            !!updateOptions.forceFields?.length;
+        const scaling =
+            typeof scale === "object" &&
+            !Array.isArray(scale) &&
+            ("start" in scale ||
+                "keyframes" in scale ||
+                !!(scale.velocity || scale.velocityX || scale.velocityY) ||
+                !!(scale.acceleration || scale.accelerationX || scale.accelerationY));
+        const coloring =
+            alpha !== undefined ||
+            (typeof color === "object" && !Array.isArray(color) && ("gradient" in color || "start" in color));
+
+        return {
+            position: moving,
+            rotation: !!(rotation?.velocity || rotation?.acceleration),
+            vertex: scaling,
+            color: coloring,
+            uvs: false,
+        };
+    }
+
+    /**
+     * Clamps a value by magnitude, a negative limit meaning no limit.
+     *
+     * @param value - Value to clamp
+     * @param maxAbs - Maximum magnitude, or a negative number for none
+     * @returns The clamped value
+     */
+    public static clampAbs(value: number, maxAbs: number) {
+        if (maxAbs < 0) return value;
+        if (value > maxAbs) return maxAbs;
+        if (value < -maxAbs) return -maxAbs;
+        return value;
+    }
+
+    /**
+     * Sets the content frame for particle boundary checking.
+     *
+     * @param frame - Rectangle defining the particle containment area
+     */
+    public set contentFrame(frame: Rectangle) {
+        this._contentFrame = frame;
+    }
+
+    /**
+     * Gets the current content frame.
+     *
+     * @returns The current content frame or null if not set
+     */
+    public get contentFrame(): Rectangle | null {
+        return this._contentFrame;
+    }
+
+    /**
+     * Gets the current environment settings.
+     *
+     * @returns The environment configuration object
+     */
+    public get environment() {
+        return this._environment;
+    }
+
+    /**
+     * Sets the wind force affecting particles.
+     *
+     * @param value - Point data containing X and Y wind forces
+     */
+    public set wind(value: PointData) {
+        this._environment.windX = value.x;
+        this._environment.windY = value.y;
+    }
+
+    /**
+     * Sets the gravity force affecting particles.
+     *
+     * @param value - Gravity acceleration value (positive for downward)
+     */
+    public set gravity(value: number) {
+        this._environment.gravity = value;
+    }
+
+    /**
+     * Sets the air resistance coefficient affecting particles.
+     *
+     * @param value - Air resistance coefficient (higher values = more resistance)
+     */
+    public set airResistance(value: number) {
+        this._environment.airResistance = value;
+    }
+
+    /**
+     * Sets whether environmental forces should be affected by particle surface area.
+     *
+     * @param value - True if surface area should affect environmental forces
+     */
+    public set affectSurface(value: boolean) {
+        this._environment.affectSurface = value;
+    }
+
+    /**
+     * Checks if physics should be affected by particle surface area.
+     *
+     * @returns True if environmental forces should consider particle surface area
+     */
+    public get isPhysicsAffectedByParticleSurface() {
+        return (
+            this._environment.affectSurface &&
+            (this._environment.windX || this._environment.windY || this._environment.airResistance)
+        );
+    }
+
+    /**
+     * Gets whether the emitter is currently running.
+     *
+     * @returns True if the emitter is running
+     */
+    public get isRunning() {
+        return this._isRunning;
+    }
+
+    /**
+     * Gets the random generator every sample of the emitter and its particles goes through.
+     * Callbacks such as `onInit` should draw from it to stay deterministic.
+     */
+    public get random(): ParticleRandom {
+        return this._random;
+    }
+
+    /**
+     * Gets whether the emitter is currently paused.
+     *
+     * @returns True if the emitter is paused
+     */
+    public get isPaused() {
+        return this._isPaused;
+    }
+
+    /**
+     * Gets whether the emitter is currently emitting new particles.
+     *
+     * @returns True if the emitter is spawning particles
+     */
+    public get isEmitting() {
+        return this.spawn;
+    }
+
+    /**
+     * Gets the number of spawns dropped because the emitter was full, since the last `reset()`.
+     */
+    public get droppedCount(): number {
+        return this._droppedCount;
+    }
+
+    /**
+     * Gets the simulated time in milliseconds since `start()`, prewarm included.
+     */
+    public get elapsedTime(): number {
+        return this._elapsedTime;
+    }
+
+    /**
+     * Copies environment and spawn duration from the update options into the live emitter state.
+     */
+    protected _applyUpdateOptions() {
+        const environment = this._updateOptions.environment || {};
+        this._environment.gravity = environment.gravity || 0;
+        this._environment.airResistance = environment.airResistance || 0;
+        this._environment.windX = environment.windX || 0;
+        this._environment.windY = environment.windY || 0;
+        this._environment.affectSurface = environment.affectSurface || false;
+
+        this.spawnDuration = this._updateOptions.spawnDuration || 0;
+    }
+
+    /**
+     * Samples the spawn rate physics from the update options.
+     */
+    protected _initSpawnRate() {
+        const spawnRate = this._updateOptions.spawnRate;
+        this._spawnRate = ParticleEmitterBase.randomFromRange(spawnRate.value, this._random.random);
+        this._spawnRateVelocity = spawnRate.velocity
+            ? ParticleEmitterBase.randomFromRange(spawnRate.velocity, this._random.random)
+            : 0;
+        this._spawnRateAcceleration = spawnRate.acceleration
+            ? ParticleEmitterBase.randomFromRange(spawnRate.acceleration, this._random.random)
+            : 0;
+        this._spawnRateMaxVelocity = spawnRate.maxVelocity ?? -1;
+
+        this._recalcSpawnInterval();
+    }
+
+    protected _recalcSpawnInterval() {
+        // Avoid division by zero / negative rates
+        const rate = Math.max(this._spawnRate, 0);
+        this._spawnInterval = rate > 0 ? 1000 / rate : 0;
+    }
+
+    protected _updateSpawnRate(elapsedMS: number) {
+        const elapsedSec = elapsedMS / 1000;
+
+        // Integrate velocity (clamp by magnitude)
+        if (this._spawnRateAcceleration) {
+            this._spawnRateVelocity += this._spawnRateAcceleration * elapsedSec;
+        }
+        if (this._spawnRateMaxVelocity >= 0) {
+            const max = this._spawnRateMaxVelocity;
+            this._spawnRateVelocity = Math.max(-max, Math.min(max, this._spawnRateVelocity));
+        }
+
+        // Integrate rate
+        if (this._spawnRateVelocity) {
+            this._spawnRate += this._spawnRateVelocity * elapsedSec;
+            if (this._spawnRate < 0) this._spawnRate = 0;
+        }
+
+        this._recalcSpawnInterval();
+    }
+
+    /**
+     * Runs the emission part of a simulation step: spawn rate, spawning, bursts and spawn duration.
+     *
+     * @param elapsedMS - Simulated time in milliseconds
+     */
+    protected _updateEmission(elapsedMS: number) {
+        this._elapsedTime += elapsedMS;
+
+        // Update spawn rate physics at emitter tick rate
+        this._updateSpawnRate(elapsedMS);
+
+        this._spawn(elapsedMS);
+        this._updateBursts(elapsedMS);
+        this.updateSpawnDuration(elapsedMS);
+    }
+
+    /**
+     * Handles particle spawning based on spawn rate and timing.
+     * Checks spawn conditions and creates new particles when appropriate.
+     *
+     * @param elapsedMS - Elapsed time in milliseconds since last spawn check
+     */
+    protected _spawn(elapsedMS: number) {
+        if (!this.spawn || !this._spawnInterval) return;
+
+        this._spawnElapsed += elapsedMS;
+        if (this._spawnElapsed < this._spawnInterval) return;
+
+        const numSpawns = Math.floor(this._spawnElapsed / this._spawnInterval);
+        if (numSpawns <= 0) return;
+
+        for (let i = 0; i < numSpawns; i++) this._spawnParticle();
+
+        this._spawnElapsed = this._spawnElapsed % this._spawnInterval;
+        // NOTE: interval is derived from current _spawnRate (no random reset here)
+    }
+
+    /**
+     * Fires the scheduled bursts that became due.
+     *
+     * @param elapsedMS - Elapsed time in milliseconds since last update
+     */
+    protected _updateBursts(elapsedMS: number) {
+        const bursts = this._updateOptions.bursts;
+        if (!bursts) return;
+
+        this._burstElapsed += elapsedMS;
+        for (let i = 0; i < bursts.length; i++) {
+            const due = this._countDueBursts(bursts[i]);
+            for (let fired = this._burstsFired[i] ?? 0; fired < due; fired++) {
+                const burst = bursts[i];
+                if (burst.probability === undefined || this._random.next() < burst.probability) {
+                    this.burst(Math.round(ParticleEmitterBase.randomFromRange(burst.count, this._random.random)));
+                }
+            }
+            this._burstsFired[i] = due;
+        }
+    }
+
+    /**
+     * Counts the repetitions of a burst scheduled up to the current burst time.
+     */
+    protected _countDueBursts(burst: ParticleBurst) {
+        if (this._burstElapsed < burst.time) return 0;
+
+        const interval = burst.interval ?? 0;
+        const repeat = burst.repeat ?? 0;
+        if (interval <= 0 || repeat === 0) return 1;
+
+        const due = Math.floor((this._burstElapsed - burst.time) / interval) + 1;
+        return repeat < 0 ? due : Math.min(due, repeat + 1);
+    }
+
+    /**
+     * Marks bursts scheduled before the current burst time as fired, so that a schedule
+     * replaced while running does not fire its past bursts at once.
+     */
+    protected _syncBursts() {
+        const bursts = this._updateOptions.bursts || [];
+        this._burstsFired = bursts.map((burst) => this._countDueBursts(burst));
+    }
+
+    /**
+     * Checks whether scheduled bursts are still to come.
+     */
+    protected _hasPendingBursts(): boolean {
+        const bursts = this._updateOptions.bursts;
+        if (!bursts) return false;
+
+        for (let i = 0; i < bursts.length; i++) {
+            const { interval = 0, repeat = 0 } = bursts[i];
+            const total = interval <= 0 || repeat === 0 ? 1 : repeat < 0 ? Infinity : repeat + 1;
+            if ((this._burstsFired[i] ?? 0) < total) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Fires `emitterComplete` once spawning stopped, no burst is pending and the last particle died.
+     */
+    protected _checkComplete() {
+        if (this._completed || !this._isRunning || !this._hasEmitted) return;
+        if (this.spawn || this._hasParticles() || this._hasPendingBursts()) return;
+
+        this._completed = true;
+        // Events of the subclass are unknown here, the shared ones are checked against the default map
+        (this as ParticleEmitterBase).emit("emitterComplete");
+    }
+
+    /**
+     * Connect to game clock to update loop for the emitter.
+     */
+    protected _startUpdate() {
+        if (this._clockConnected || !this._autoUpdate) {
+            return;
+        }
+        this._clockConnected = true;
+        this._ticker.add(this.updateEmitter, this);
+    }
+
+    /**
+     * Disconnect from game clock to stop the update loop for the emitter.
+     */
+    protected _stopUpdate() {
+        if (!this._clockConnected) {
+            return;
+        }
+        this._clockConnected = false;
+        this._ticker.remove(this.updateEmitter, this);
+    }
+
+    /**
+     * Updates the spawn duration timer and automatically stops spawning when duration is reached.
+     *
+     * @param elapsedMS - Elapsed time in milliseconds
+     */
+    public updateSpawnDuration(elapsedMS: number) {
+        if (!this.spawn || this.spawnDuration <= 0) {
+            return;
+        }
+
+        this._spawnDurationElapsed += elapsedMS;
+
+        if (this._spawnDurationElapsed < this.spawnDuration) {
+            return;
+        }
+
+        this._spawnDurationElapsed = 0;
+        this.spawn = false;
+        (this as ParticleEmitterBase).emit("spawnDurationEnded");
+    }
+
+    /**
+     * Starts the particle emitter and optionally begins spawning particles immediately.
+     *
+     * @param emit - Whether to start spawning particles immediately (default: false)
+     */
+    public start(emit: boolean = false) {
+        if (this._isRunning) {
+            return;
+        }
+        this.spawn = emit;
+        this._spawnElapsed = this._spawnInterval;
+        this._startUpdate();
+        this._isRunning = true;
+        this._onStart();
+        (this as ParticleEmitterBase).emit("emitterStarted");
+
+        if (this._updateOptions.prewarm) {
+            this.simulate(this._updateOptions.prewarm * 1000);
+        }
+    }
+
+    /**
+     * Called by `start()` once the emitter is running, before `emitterStarted` is fired and prewarm runs.
+     */
+    protected _onStart() {}
+
+    /**
+     * Pauses the particle emitter, stopping updates but maintaining current state.
+     */
+    public pause() {
+        if (!this._isRunning || this._isPaused) {
+            return;
+        }
+        this._isPaused = true;
+        this._stopUpdate();
+    }
+
+    /**
+     * Resumes the particle emitter from a paused state.
+     */
+    public resume() {
+        if (!this._isRunning || !this._isPaused) {
+            return;
+        }
+        this._isPaused = false;
+        this._startUpdate();
+    }
+
+    /**
+     * Stops the particle emitter and resets its state.
+     */
+    public stop() {
+        if (!this._isRunning) {
+            return;
+        }
+        this.reset();
+        this._stopUpdate();
+    }
+
+    /**
+     * Resets the emission state: timers, spawn rate, bursts and the random sequence.
+     * Subclasses also clear their particles.
+     */
+    public reset() {
+        this._isRunning = false;
+        this._isPaused = false;
+        this.spawn = false;
+        this._updateElapsed = 0;
+        this._elapsedTime = 0;
+        this._spawnElapsed = 0;
+
+        // Replay the same random sequence from the start, a shared generator is restarted by its owner
+        if (this._ownsRandom) {
+            this._random.reset();
+        }
+
+        // SpawnRate physics init
+        this._initSpawnRate();
+
+        this._spawnDurationElapsed = 0;
+        this._burstElapsed = 0;
+        this._burstsFired = [];
+
+        this._hasEmitted = false;
+        this._completed = false;
+        this._droppedCount = 0;
+    }
+
+    /**
+     * Spawns particles right away, regardless of the spawn rate and `spawn` flag.
+     *
+     * @param count - Number of particles to spawn
+     * @returns The number of particles actually spawned
+     */
+    public abstract burst(count: number): number;
+
+    /**
+     * Main update loop, called by the ticker when `autoUpdate` is on.
+     *
+     * @param ticker - The ticker providing timing information
+     */
+    public abstract updateEmitter(ticker: Ticker): void;
+
+    /**
+     * Runs the spawn and physics loop headlessly for the given time, without waiting for the ticker.
+     *
+     * @param ms - Time to simulate in milliseconds
+     */
+    public abstract simulate(ms: number): void;
+
+    /**
+     * Spawns one particle with the emitter spawn options.
+     *
+     * @returns A falsy value if the emitter is full and the overflow policy drops the particle
+     */
+    protected abstract _spawnParticle(): unknown;
+
+    /**
+     * Checks whether particles of the emitter are alive.
+     */
+    protected abstract _hasParticles(): boolean;
+}
+
+/**
+ * Typed listeners for the emitter events, on top of the Container ones.
+ */
+export interface ParticleEmitterBase<Events extends ParticleEmitterEventMap<Events> = FastParticleEmitterEvents> {
+    on<K extends keyof Events>(event: K, fn: (...args: Events[K]) => void, context?: unknown): this;
+    on<K extends keyof ContainerEvents<ContainerChild>>(
+        event: K,
+        fn: (...args: ContainerEvents<ContainerChild>[K]) => void,
+        context?: unknown
+    ): this;
+    once<K extends keyof Events>(event: K, fn: (...args: Events[K]) => void, context?: unknown): this;
+    once<K extends keyof ContainerEvents<ContainerChild>>(
+        event: K,
+        fn: (...args: ContainerEvents<ContainerChild>[K]) => void,
+        context?: unknown
+    ): this;
+    off<K extends keyof Events>(event: K, fn?: (...args: Events[K]) => void, context?: unknown, once?: boolean): this;
+    off<K extends keyof ContainerEvents<ContainerChild>>(
+        event: K,
+        fn?: (...args: ContainerEvents<ContainerChild>[K]) => void,
+        context?: unknown,
+        once?: boolean
+    ): this;
+    emit<K extends keyof Events>(event: K, ...args: Events[K]): boolean;
+    emit<K extends keyof ContainerEvents<ContainerChild>>(
+        event: K,
+        ...args: ContainerEvents<ContainerChild>[K]
+    ): boolean;
+}
@@ -1,6 +1,21 @@
 import { ParticleEmitter } from "./ParticleEmitter";
-import { ParticleOptionUpdateCallback, ParticleOptionFunction, ParticleEmitterInitData, PoolItem } from "./types";
-import { Color, Rectangle, Sprite, Texture } from "pixi.js";
+import type {
+    ParticleEasingFunction,
+    ParticleOptionUpdateCallback,
+    ParticleOptionFunction,
+    ParticleEmitterInitData,
+    ParticleSpawnOptions,
+    ParticleTextureOption,
+    ParticleWeightedTexture,
+    PoolItem,
+} from "./types";
+import { Color, Sprite, Texture } from "pixi.js";
+import { ParticleCurve, ParticleGradient } from "./ParticleCurve";
+import { resolveEasing } from "./Easing";
+import { EmissionShape } from "./EmissionShape";
+import { ParticleTrail } from "./ParticleTrail";
+import type { EmissionSample } from "./EmissionShape";
+import type { DestroyOptions, Matrix, Rectangle } from "pixi.js";
 
 /**
  * Base particle class that extends PIXI Sprite with physics and lifecycle management.
@@ -8,12 +23,21 @@ import { Color, Rectangle, Sprite, Texture } from "pixi.js";
  * Supports position, scale, rotation, alpha, and color animations with various physics properties.
  */
 export class ParticleItem extends Sprite implements PoolItem {
+    /** Reuse buffer for emission shape samples */
+    protected static _tmpSample: EmissionSample = { x: 0, y: 0, normalX: 0, normalY: 0 };
+
     /** Color handlers for smooth color transitions */
     protected _colorHandlers: [Color, Color] = [new Color(), new Color()];
     /** Random seed value for deterministic behavior */
     protected _seed: number = 0;
     /** Factor for environmental effects */
     protected _surfaceFactor: number = 1;
+    /** Emitter direction at spawn time, polar velocities are relative to it */
+    protected _direction: number = 0;
+    /** Random function of the emitter, every sample goes through it */
+    protected _random: () => number = Math.random;
+    /** Texture given to the constructor, shown when the spawn options have none */
+    protected _defaultTexture: Texture;
 
     public inPool: boolean = false;
 
@@ -59,22 +83,42 @@ export class ParticleItem extends Sprite implements PoolItem {
     public alphaStart: number = -1;
     /** Ending alpha value for alpha transitions */
     public alphaEnd: number = -1;
+    /** Easing applied to the alpha transition */
+    public alphaEasing: ParticleEasingFunction | null = null;
     /** Function to calculate alpha dynamically */
     public alphaGetter: ParticleOptionFunction | null = null;
     /** Starting color value for color transitions */
     public colorStart: number | null = null;
     /** Ending color value for color transitions */
     public colorEnd: number | null = null;
+    /** Easing applied to the color transition */
+    public colorEasing: ParticleEasingFunction | null = null;
     /** Function to calculate color dynamically */
     public colorGetter: ParticleOptionFunction | null = null;
     /** Starting scale value for scale transitions */
     public scaleStart: number | null = null;
     /** Ending scale value for scale transitions */
     public scaleEnd: number | null = null;
+    /** Easing applied to the scale transition */
+    public scaleEasing: ParticleEasingFunction | null = null;
+    /** Scale over lifetime curve */
+    public scaleCurve: ParticleCurve | null = null;
+    /** Alpha over lifetime curve */
+    public alphaCurve: ParticleCurve | null = null;
+    /** Color over lifetime gradient */
+    public colorGradient: ParticleGradient | null = null;
+    /** Velocity multiplier over lifetime curve */
+    public velocityCurve: ParticleCurve | null = null;
+    /** Rotation velocity multiplier over lifetime curve */
+    public rotationVelocityCurve: ParticleCurve | null = null;
     /** Total lifetime of the particle in seconds */
     public lifespan: number = Infinity; // was 0 (could cause NaN when lifespan isn't provided)
     /** Current age of the particle in seconds */
     public currentLife: number = 0;
+    /** Radius used against the content frame boundary and colliders */
+    public collisionRadius: number = 0;
+    /** Ribbon drawn behind the particle, kept across pooled reuses while the spawn options ask for one */
+    public trail: ParticleTrail | null = null;
     /** Custom update callback function */
     public onUpdate: ParticleOptionUpdateCallback | null = null;
 
@@ -95,6 +139,21 @@ export class ParticleItem extends Sprite implements PoolItem {
     /** Initial rotation velocity when particle was created */
     public initRotationVelocity: number = 0;
 
+    /** X position at the previous fixed step, used for interpolation */
+    public prevX: number = 0;
+    /** Y position at the previous fixed step, used for interpolation */
+    public prevY: number = 0;
+    /** Rotation at the previous fixed step, used for interpolation */
+    public prevRotation: number = 0;
+    /** Simulated X position while an interpolated one is displayed */
+    protected _simX: number = 0;
+    /** Simulated Y position while an interpolated one is displayed */
+    protected _simY: number = 0;
+    /** Simulated rotation while an interpolated one is displayed */
+    protected _simRotation: number = 0;
+    /** Whether the displayed transform is interpolated and the simulated one is stored aside */
+    protected _interpolated: boolean = false;
+
     /** Reuse buffer to avoid per-frame allocations in color transitions */
     protected _tmpColorTransition: Float32Array = new Float32Array(4);
 
@@ -119,6 +178,7 @@ export class ParticleItem extends Sprite implements PoolItem {
      */
     constructor(texture: Texture = Texture.EMPTY) {
         super(texture);
+        this._defaultTexture = texture;
         this.anchor.set(0.5);
     }
 
@@ -135,37 +195,178 @@ export class ParticleItem extends Sprite implements PoolItem {
         const spawnOptions = data.spawnOptions;
         const contentFrame = data.contentFrame;
 
-        this._seed = Math.random();
+        this._random = data.random ?? Math.random;
+        this._seed = this._random();
+        this._direction = data.direction ?? 0;
 
         // Position
-        this.x = ParticleEmitter.randomFromRange(spawnOptions.position.x);
-        this.y = ParticleEmitter.randomFromRange(spawnOptions.position.y);
+        this.x = ParticleEmitter.randomFromRange(spawnOptions.position.x, this._random);
+        this.y = ParticleEmitter.randomFromRange(spawnOptions.position.y, this._random);
+        this._initMotion(spawnOptions);
+        this._initEmissionShape(spawnOptions);
+
+        // Scale
+        if (spawnOptions.scale) {
+            this._initScale(spawnOptions);
+            this.updateSurfaceFactor();
+        }
+
+        // Rotation
+        if (spawnOptions.rotation) {
+            this.rotation = ParticleEmitter.randomFromRange(spawnOptions.rotation.value, this._random);
+            this._initRotationPhysics(spawnOptions);
+        }
 
+        this._initAlpha(spawnOptions);
+        this._initColor(spawnOptions);
+        this._initTexture(spawnOptions);
+        this._initLifespan(spawnOptions);
+        this._initCollisionRadius(spawnOptions);
+        this.currentLife = 0;
+
+        // On Init
+        if (spawnOptions.onInit) {
+            spawnOptions.onInit(this, contentFrame);
+        }
+
+        // If onInit changed texture/scale, refresh surface factor
+        this.updateSurfaceFactor();
+
+        // Capture "created" state after onInit may have touched it
+        this.initAlpha = this.alpha;
+        this.initX = this.x;
+        this.initY = this.y;
+        this.initVelocityX = this.velocityX;
+        this.initVelocityY = this.velocityY;
+        this.initScaleX = this.scale.x;
+        this.initScaleY = this.scale.y;
+        this.initRotation = this.rotation;
+        this.initRotationVelocity = this.rotationVelocity;
+        this.savePreviousState();
+        this._initTrail(spawnOptions);
+
+        // On Update
+        if (spawnOptions.onUpdate) {
+            this.onUpdate = spawnOptions.onUpdate;
+        }
+    }
+
+    /**
+     * Re-applies spawn options to a particle that is already alive, e.g. after a live config update.
+     * Current position, rotation angle and age are kept; only the listed option groups are re-sampled.
+     * `texture`, `textures` and `animation` all re-apply the texture, which subclasses may animate.
+     *
+     * @param spawnOptions - Updated spawn options
+     * @param keys - Spawn option groups that changed
+     */
+    public reconfigure(spawnOptions: ParticleSpawnOptions, keys: (keyof ParticleSpawnOptions)[]) {
+        let textureChanged = false;
+        for (const key of keys) {
+            switch (key) {
+                case "position":
+                    this.velocityX = this.velocityY = 0;
+                    this.accelerationX = this.accelerationY = 0;
+                    this.maxVelocityX = this.maxVelocityY = -1;
+                    this.velocityCurve = null;
+                    this._initMotion(spawnOptions);
+                    break;
+                case "scale":
+                    this.scaleStart = this.scaleEnd = null;
+                    this.scaleEasing = null;
+                    this.scaleCurve = null;
+                    this.scaleVelocityX = this.scaleVelocityY = 0;
+                    this.scaleAccelerationX = this.scaleAccelerationY = 0;
+                    this.maxScaleVelocityX = this.maxScaleVelocityY = -1;
+                    if (spawnOptions.scale) this._initScale(spawnOptions);
+                    this.updateSurfaceFactor();
+                    break;
+                case "rotation":
+                    this.rotationVelocity = 0;
+                    this.rotationAcceleration = 0;
+                    this.maxRotationVelocity = -1;
+                    this.rotationVelocityCurve = null;
+                    if (spawnOptions.rotation) this._initRotationPhysics(spawnOptions);
+                    break;
+                case "alpha":
+                    this.alphaStart = this.alphaEnd = -1;
+                    this.alphaEasing = null;
+                    this.alphaGetter = null;
+                    this.alphaCurve = null;
+                    this._initAlpha(spawnOptions);
+                    break;
+                case "color":
+                    this.colorStart = this.colorEnd = null;
+                    this.colorEasing = null;
+                    this.colorGetter = null;
+                    this.colorGradient = null;
+                    this.tint = 0xffffff;
+                    this._initColor(spawnOptions);
+                    break;
+                case "texture":
+                case "textures":
+                case "animation":
+                    textureChanged = true;
+                    break;
+                case "lifespan":
+                    this._initLifespan(spawnOptions);
+                    break;
+                case "collisionRadius":
+                    this._initCollisionRadius(spawnOptions);
+                    break;
+                case "trail":
+                    this._initTrail(spawnOptions);
+                    break;
+                case "onUpdate":
+                    this.onUpdate = spawnOptions.onUpdate || null;
+                    break;
+            }
+        }
+
+        // Once, however many of the texture keys changed
+        if (textureChanged) {
+            this._initTexture(spawnOptions);
+            this.updateSurfaceFactor();
+        }
+    }
+
+    /**
+     * Sets up velocity, acceleration and max velocity from the position options.
+     */
+    protected _initMotion(spawnOptions: ParticleSpawnOptions) {
         // Velocity
-        if (spawnOptions.position.velocity) {
-            const velocity = ParticleEmitter.randomFromRange(spawnOptions.position.velocity);
+        if (spawnOptions.position.speed !== undefined) {
+            const spread = spawnOptions.position.spread ?? 0;
+            const angle =
+                this._direction +
+                ParticleEmitter.randomFromRange(spawnOptions.position.angle, this._random) +
+                (this._random() - 0.5) * spread;
+            const speed = ParticleEmitter.randomFromRange(spawnOptions.position.speed, this._random);
+            this.velocityX = Math.cos(angle) * speed;
+            this.velocityY = Math.sin(angle) * speed;
+        } else if (spawnOptions.position.velocity) {
+            const velocity = ParticleEmitter.randomFromRange(spawnOptions.position.velocity, this._random);
             this.velocityX = velocity;
             this.velocityY = velocity;
         } else {
             if (spawnOptions.position.velocityX) {
-                this.velocityX = ParticleEmitter.randomFromRange(spawnOptions.position.velocityX);
+                this.velocityX = ParticleEmitter.randomFromRange(spawnOptions.position.velocityX, this._random);
             }
             if (spawnOptions.position.velocityY) {
-                this.velocityY = ParticleEmitter.randomFromRange(spawnOptions.position.velocityY);
+                this.velocityY = ParticleEmitter.randomFromRange(spawnOptions.position.velocityY, this._random);
             }
         }
 
         // Acceleration
         if (spawnOptions.position.acceleration) {
-            const acceleration = ParticleEmitter.randomFromRange(spawnOptions.position.acceleration);
+            const acceleration = ParticleEmitter.randomFromRange(spawnOptions.position.acceleration, this._random);
             this.accelerationX = acceleration;
             this.accelerationY = acceleration;
         } else {
             if (spawnOptions.position.accelerationX) {
-                this.accelerationX = ParticleEmitter.randomFromRange(spawnOptions.position.accelerationX);
+                this.accelerationX = ParticleEmitter.randomFromRange(spawnOptions.position.accelerationX, this._random);
             }
             if (spawnOptions.position.accelerationY) {
-                this.accelerationY = ParticleEmitter.randomFromRange(spawnOptions.position.accelerationY);
+                this.accelerationY = ParticleEmitter.randomFromRange(spawnOptions.position.accelerationY, this._random);
             }
         }
 
@@ -182,138 +383,212 @@ export class ParticleItem extends Sprite implements PoolItem {
             }
         }
 
-        // Scale
-        if (spawnOptions.scale) {
-            //ParticleOptionRange?
-            if (Array.isArray(spawnOptions.scale) || typeof spawnOptions.scale === "number") {
-                const scale = ParticleEmitter.randomFromRange(spawnOptions.scale);
-                this.scale.x = scale;
-                this.scale.y = scale;
-            } else if (spawnOptions.scale && "start" in spawnOptions.scale && "end" in spawnOptions.scale) {
-                this.scaleStart = ParticleEmitter.randomFromRange(spawnOptions.scale.start);
-                this.scaleEnd = ParticleEmitter.randomFromRange(spawnOptions.scale.end);
-                // Set initial visual state immediately
-                this.scale.set(this.scaleStart);
-            }
-            // ParticleVector2Physics?
-            else if (spawnOptions.scale && "x" in spawnOptions.scale && "y" in spawnOptions.scale) {
-                this.scale.x = ParticleEmitter.randomFromRange(spawnOptions.scale.x);
-                this.scale.y = ParticleEmitter.randomFromRange(spawnOptions.scale.y);
-                if (spawnOptions.scale.velocity) {
-                    const scaleVelocity = ParticleEmitter.randomFromRange(spawnOptions.scale.velocity);
-                    this.scaleVelocityX = scaleVelocity;
-                    this.scaleVelocityY = scaleVelocity;
-                } else {
-                    if (spawnOptions.scale.velocityX) {
-                        this.scaleVelocityX = ParticleEmitter.randomFromRange(spawnOptions.scale.velocityX);
-                    }
-                    if (spawnOptions.scale.velocityY) {
-                        this.scaleVelocityY = ParticleEmitter.randomFromRange(spawnOptions.scale.velocityY);
-                    }
-                }
+        // Velocity over lifetime
+        if (spawnOptions.position.velocityCurve) {
+            this.velocityCurve = ParticleCurve.from(spawnOptions.position.velocityCurve);
+        }
+    }
 
-                if (spawnOptions.scale.acceleration) {
-                    const scaleAcceleration = ParticleEmitter.randomFromRange(spawnOptions.scale.acceleration);
-                    this.scaleAccelerationX = scaleAcceleration;
-                    this.scaleAccelerationY = scaleAcceleration;
-                } else {
-                    if (spawnOptions.scale.accelerationX) {
-                        this.scaleAccelerationX = ParticleEmitter.randomFromRange(spawnOptions.scale.accelerationX);
-                    }
-                    if (spawnOptions.scale.accelerationY) {
-                        this.scaleAccelerationY = ParticleEmitter.randomFromRange(spawnOptions.scale.accelerationY);
-                    }
+    /**
+     * Sets up scale, either fixed, as a start/end transition, as a keyframe curve, or with full 2D physics.
+     */
+    protected _initScale(spawnOptions: ParticleSpawnOptions) {
+        if (spawnOptions.scale === undefined) return;
+        //ParticleOptionRange?
+        if (Array.isArray(spawnOptions.scale) || typeof spawnOptions.scale === "number") {
+            const scale = ParticleEmitter.randomFromRange(spawnOptions.scale, this._random);
+            this.scale.x = scale;
+            this.scale.y = scale;
+        } else if (spawnOptions.scale && "start" in spawnOptions.scale && "end" in spawnOptions.scale) {
+            this.scaleStart = ParticleEmitter.randomFromRange(spawnOptions.scale.start, this._random);
+            this.scaleEnd = ParticleEmitter.randomFromRange(spawnOptions.scale.end, this._random);
+            this.scaleEasing = resolveEasing(spawnOptions.scale.easing);
+            // Set initial visual state immediately
+            this.scale.set(this.scaleStart);
+        } else if ("keyframes" in spawnOptions.scale) {
+            this.scaleCurve = ParticleCurve.from(spawnOptions.scale);
+            this.scale.set(this.scaleCurve.evaluate(0));
+        }
+        // ParticleVector2Physics?
+        else if (spawnOptions.scale && "x" in spawnOptions.scale && "y" in spawnOptions.scale) {
+            this.scale.x = ParticleEmitter.randomFromRange(spawnOptions.scale.x, this._random);
+            this.scale.y = ParticleEmitter.randomFromRange(spawnOptions.scale.y, this._random);
+            if (spawnOptions.scale.velocity) {
+                const scaleVelocity = ParticleEmitter.randomFromRange(spawnOptions.scale.velocity, this._random);
+                this.scaleVelocityX = scaleVelocity;
+                this.scaleVelocityY = scaleVelocity;
+            } else {
+                if (spawnOptions.scale.velocityX) {
+                    this.scaleVelocityX = ParticleEmitter.randomFromRange(spawnOptions.scale.velocityX, this._random);
                 }
-
-                if (spawnOptions.scale.maxVelocity) {
-                    this.maxScaleVelocityX = spawnOptions.scale.maxVelocity;
-                    this.maxScaleVelocityY = spawnOptions.scale.maxVelocity;
-                } else {
-                    if (spawnOptions.scale.maxVelocityX) {
-                        this.maxScaleVelocityX = spawnOptions.scale.maxVelocityX;
-                    }
-                    if (spawnOptions.scale.maxVelocityY) {
-                        this.maxScaleVelocityY = spawnOptions.scale.maxVelocityY;
-                    }
+                if (spawnOptions.scale.velocityY) {
+                    this.scaleVelocityY = ParticleEmitter.randomFromRange(spawnOptions.scale.velocityY, this._random);
                 }
             }
-            this.updateSurfaceFactor();
-        }
 
-        // Rotation
-        if (spawnOptions.rotation) {
-            this.rotation = ParticleEmitter.randomFromRange(spawnOptions.rotation.value);
-            if (spawnOptions.rotation.velocity) {
-                this.rotationVelocity = ParticleEmitter.randomFromRange(spawnOptions.rotation.velocity);
-            }
-            if (spawnOptions.rotation.acceleration) {
-                this.rotationAcceleration = ParticleEmitter.randomFromRange(spawnOptions.rotation.acceleration);
-            }
-            if (spawnOptions.rotation.maxVelocity) {
-                this.maxRotationVelocity = spawnOptions.rotation.maxVelocity;
+            if (spawnOptions.scale.acceleration) {
+                const scaleAcceleration = ParticleEmitter.randomFromRange(
+                    spawnOptions.scale.acceleration,
+                    this._random
+                );
+                this.scaleAccelerationX = scaleAcceleration;
+                this.scaleAccelerationY = scaleAcceleration;
+            } else {
+                if (spawnOptions.scale.accelerationX) {
+                    this.scaleAccelerationX = ParticleEmitter.randomFromRange(
+                        spawnOptions.scale.accelerationX,
+                        this._random
+                    );
+                }
+                if (spawnOptions.scale.accelerationY) {
+                    this.scaleAccelerationY = ParticleEmitter.randomFromRange(
+                        spawnOptions.scale.accelerationY,
+                        this._random
+                    );
+                }
             }
-        }
 
-        // Alpha
-        if (spawnOptions.alpha) {
-            if (typeof spawnOptions.alpha === "function") {
-                this.alphaGetter = spawnOptions.alpha;
+            if (spawnOptions.scale.maxVelocity) {
+                this.maxScaleVelocityX = spawnOptions.scale.maxVelocity;
+                this.maxScaleVelocityY = spawnOptions.scale.maxVelocity;
             } else {
-                this.alphaStart = ParticleEmitter.randomFromRange(spawnOptions.alpha.start);
-                this.alphaEnd = ParticleEmitter.randomFromRange(spawnOptions.alpha.end);
-                // Set initial visual state immediately
-                if (this.alphaStart > -1) this.alpha = this.alphaStart;
+                if (spawnOptions.scale.maxVelocityX) {
+                    this.maxScaleVelocityX = spawnOptions.scale.maxVelocityX;
+                }
+                if (spawnOptions.scale.maxVelocityY) {
+                    this.maxScaleVelocityY = spawnOptions.scale.maxVelocityY;
+                }
             }
         }
+    }
 
-        // Color
-        if (spawnOptions.color) {
-            if (typeof spawnOptions.color === "function") {
-                this.colorGetter = spawnOptions.color;
-            } else if (Array.isArray(spawnOptions.color)) {
-                this.tint = spawnOptions.color[Math.floor(this._seed * spawnOptions.color.length)];
-            } else if (typeof spawnOptions.color === "number") {
-                this.tint = spawnOptions.color;
-            } else if (spawnOptions.color.start && spawnOptions.color.end) {
-                this.colorStart = ParticleEmitter.randomFromRange(spawnOptions.color.start);
-                this.colorEnd = ParticleEmitter.randomFromRange(spawnOptions.color.end);
-                // Set initial visual state immediately
-                this._colorHandlers[0].value = this.colorStart;
-                this.tint = this._colorHandlers[0];
-            }
+    /**
+     * Offsets the spawn position by a point sampled from the emission shape,
+     * and adds the optional outward normal velocity.
+     */
+    protected _initEmissionShape(spawnOptions: ParticleSpawnOptions) {
+        if (!spawnOptions.emissionShape) return;
+        const sample = EmissionShape.from(spawnOptions.emissionShape).sample(this._random, ParticleItem._tmpSample);
+        this.x += sample.x;
+        this.y += sample.y;
+
+        if (spawnOptions.emissionShape.normalVelocity !== undefined) {
+            const speed = ParticleEmitter.randomFromRange(spawnOptions.emissionShape.normalVelocity, this._random);
+            this.velocityX += sample.normalX * speed;
+            this.velocityY += sample.normalY * speed;
         }
+    }
 
-        // Lifespan
-        if (spawnOptions.lifespan) {
-            this.lifespan = ParticleEmitter.randomFromRange(spawnOptions.lifespan);
+    /**
+     * Sets up rotation velocity, acceleration and max velocity.
+     */
+    protected _initRotationPhysics(spawnOptions: ParticleSpawnOptions) {
+        if (!spawnOptions.rotation) return;
+        if (spawnOptions.rotation.velocity) {
+            this.rotationVelocity = ParticleEmitter.randomFromRange(spawnOptions.rotation.velocity, this._random);
+        }
+        if (spawnOptions.rotation.acceleration) {
+            this.rotationAcceleration = ParticleEmitter.randomFromRange(
+                spawnOptions.rotation.acceleration,
+                this._random
+            );
+        }
+        if (spawnOptions.rotation.maxVelocity) {
+            this.maxRotationVelocity = spawnOptions.rotation.maxVelocity;
+        }
+        if (spawnOptions.rotation.velocityCurve) {
+            this.rotationVelocityCurve = ParticleCurve.from(spawnOptions.rotation.velocityCurve);
+        }
+    }
+
+    /**
+     * Sets up alpha, either as a start/end transition, a keyframe curve or a dynamic function.
+     */
+    protected _initAlpha(spawnOptions: ParticleSpawnOptions) {
+        if (!spawnOptions.alpha) return;
+        if (typeof spawnOptions.alpha === "function") {
+            this.alphaGetter = spawnOptions.alpha;
+        } else if ("keyframes" in spawnOptions.alpha) {
+            this.alphaCurve = ParticleCurve.from(spawnOptions.alpha);
+            this.alpha = this.alphaCurve.evaluate(0);
         } else {
-            this.lifespan = Infinity;
+            this.alphaStart = ParticleEmitter.randomFromRange(spawnOptions.alpha.start, this._random);
+            this.alphaEnd = ParticleEmitter.randomFromRange(spawnOptions.alpha.end, this._random);
+            this.alphaEasing = resolveEasing(spawnOptions.alpha.easing);
+            // Set initial visual state immediately
+            if (this.alphaStart > -1) this.alpha = this.alphaStart;
         }
-        this.currentLife = 0;
+    }
 
-        // On Init
-        if (spawnOptions.onInit) {
-            spawnOptions.onInit(this, contentFrame);
+    /**
+     * Sets up the tint, either fixed, picked from a list, as a start/end transition, a gradient or a dynamic function.
+     */
+    protected _initColor(spawnOptions: ParticleSpawnOptions) {
+        if (!spawnOptions.color) return;
+        if (typeof spawnOptions.color === "function") {
+            this.colorGetter = spawnOptions.color;
+        } else if (Array.isArray(spawnOptions.color)) {
+            this.tint = spawnOptions.color[Math.floor(this._seed * spawnOptions.color.length)];
+        } else if (typeof spawnOptions.color === "number") {
+            this.tint = spawnOptions.color;
+        } else if ("gradient" in spawnOptions.color) {
+            this.colorGradient = ParticleGradient.from(spawnOptions.color);
+            this._colorHandlers[0].value = this.colorGradient.evaluate(0, this._tmpColorTransition);
+            this.tint = this._colorHandlers[0];
+        } else if (spawnOptions.color.start && spawnOptions.color.end) {
+            this.colorStart = ParticleEmitter.randomFromRange(spawnOptions.color.start, this._random);
+            this.colorEnd = ParticleEmitter.randomFromRange(spawnOptions.color.end, this._random);
+            this.colorEasing = resolveEasing(spawnOptions.color.easing);
+            // Set initial visual state immediately
+            this._colorHandlers[0].value = this.colorStart;
+            this.tint = this._colorHandlers[0];
         }
+    }
 
-        // If onInit changed texture/scale, refresh surface factor
-        this.updateSurfaceFactor();
+    /**
+     * Applies the configured texture, if any.
+     */
+    protected _initTexture(spawnOptions: ParticleSpawnOptions) {
+        if (spawnOptions.textures?.length) {
+            // Drawn apart from the seed, which also picks from a color list
+            this.texture = pickTexture(spawnOptions.textures, this._random());
+        } else if (spawnOptions.texture) {
+            this.texture =
+                typeof spawnOptions.texture === "string" ? Texture.from(spawnOptions.texture) : spawnOptions.texture;
+        }
+    }
 
-        // Capture "created" state after onInit may have touched it
-        this.initAlpha = this.alpha;
-        this.initX = this.x;
-        this.initY = this.y;
-        this.initVelocityX = this.velocityX;
-        this.initVelocityY = this.velocityY;
-        this.initScaleX = this.scale.x;
-        this.initScaleY = this.scale.y;
-        this.initRotation = this.rotation;
-        this.initRotationVelocity = this.rotationVelocity;
+    /**
+     * Samples the particle lifespan.
+     */
+    protected _initLifespan(spawnOptions: ParticleSpawnOptions) {
+        if (spawnOptions.lifespan) {
+            this.lifespan = ParticleEmitter.randomFromRange(spawnOptions.lifespan, this._random);
+        } else {
+            this.lifespan = Infinity;
+        }
+    }
 
-        // On Update
-        if (spawnOptions.onUpdate) {
-            this.onUpdate = spawnOptions.onUpdate;
+    /**
+     * Samples the particle collision radius.
+     */
+    protected _initCollisionRadius(spawnOptions: ParticleSpawnOptions) {
+        this.collisionRadius = ParticleEmitter.randomFromRange(spawnOptions.collisionRadius, this._random);
+    }
+
+    /**
+     * Sets up the trail from the spawn options, starting it at the current position.
+     * The trail is destroyed when the options have none.
+     */
+    protected _initTrail(spawnOptions: ParticleSpawnOptions) {
+        if (!spawnOptions.trail) {
+            this.trail?.destroy();
+            this.trail = null;
+            return;
         }
+        this.trail ??= new ParticleTrail(this);
+        this.trail.configure(spawnOptions.trail);
+        this.trail.reset(this.x, this.y);
     }
 
     public updateSurfaceFactor() {
@@ -336,15 +611,20 @@ export class ParticleItem extends Sprite implements PoolItem {
         const lifePercent = safeLifespan === Infinity ? 0 : Math.min(this.currentLife / safeLifespan, 1);
 
         // Update Position
-        this.x += this.velocityX * elapsedSec;
-        this.y += this.velocityY * elapsedSec;
+        const velocityFactor = this.velocityCurve ? this.velocityCurve.evaluate(lifePercent) : 1;
+        this.x += this.velocityX * velocityFactor * elapsedSec;
+        this.y += this.velocityY * velocityFactor * elapsedSec;
         this.velocityX += this.accelerationX * elapsedSec;
         this.velocityY += this.accelerationY * elapsedSec;
 
         // Update Scale
-        if (this.scaleStart !== null && this.scaleEnd !== null) {
-            this.scale.x = this.scaleStart + (this.scaleEnd - this.scaleStart) * lifePercent;
-            this.scale.y = this.scaleStart + (this.scaleEnd - this.scaleStart) * lifePercent;
+        if (this.scaleCurve) {
+            this.scale.set(this.scaleCurve.evaluate(lifePercent));
+            this.updateSurfaceFactor();
+        } else if (this.scaleStart !== null && this.scaleEnd !== null) {
+            const progress = this.scaleEasing ? this.scaleEasing(lifePercent) : lifePercent;
+            this.scale.x = this.scaleStart + (this.scaleEnd - this.scaleStart) * progress;
+            this.scale.y = this.scaleStart + (this.scaleEnd - this.scaleStart) * progress;
             this.updateSurfaceFactor();
         } else {
             this.scale.x += this.scaleVelocityX * elapsedSec;
@@ -355,46 +635,55 @@ export class ParticleItem extends Sprite implements PoolItem {
         }
 
         // Update Rotation
-        this.rotation += this.rotationVelocity * elapsedSec;
+        const rotationFactor = this.rotationVelocityCurve ? this.rotationVelocityCurve.evaluate(lifePercent) : 1;
+        this.rotation += this.rotationVelocity * rotationFactor * elapsedSec;
         this.rotationVelocity += this.rotationAcceleration * elapsedSec;
 
         // Update Alpha
         if (this.alphaGetter) {
             this.alpha = this.alphaGetter(this, elapsedMS);
+        } else if (this.alphaCurve) {
+            this.alpha = this.alphaCurve.evaluate(lifePercent);
         } else if (this.alphaStart > -1 && this.alphaEnd > -1) {
-            this.alpha = this.alphaStart + (this.alphaEnd - this.alphaStart) * lifePercent;
+            const progress = this.alphaEasing ? this.alphaEasing(lifePercent) : lifePercent;
+            this.alpha = this.alphaStart + (this.alphaEnd - this.alphaStart) * progress;
         }
 
         // Update Color
         if (this.colorGetter) {
             this._colorHandlers[0].value = this.colorGetter(this, elapsedMS);
             this.tint = this._colorHandlers[0];
+        } else if (this.colorGradient) {
+            this._colorHandlers[0].value = this.colorGradient.evaluate(lifePercent, this._tmpColorTransition);
+            this.tint = this._colorHandlers[0];
         } else if (this.colorStart !== null && this.colorEnd !== null) {
             this._colorHandlers[0].value = this.colorStart;
             this._colorHandlers[1].value = this.colorEnd;
 
+            const progress = this.colorEasing ? this.colorEasing(lifePercent) : lifePercent;
+
             // Avoid allocating a new array every frame
             this._tmpColorTransition[0] =
-                this._colorHandlers[0].red + (this._colorHandlers[1].red - this._colorHandlers[0].red) * lifePercent;
+                this._colorHandlers[0].red + (this._colorHandlers[1].red - this._colorHandlers[0].red) * progress;
             this._tmpColorTransition[1] =
                 this._colorHandlers[0].green +
-                (this._colorHandlers[1].green - this._colorHandlers[0].green) * lifePercent;
+                (this._colorHandlers[1].green - this._colorHandlers[0].green) * progress;
             this._tmpColorTransition[2] =
-                this._colorHandlers[0].blue + (this._colorHandlers[1].blue - this._colorHandlers[0].blue) * lifePercent;
+                this._colorHandlers[0].blue + (this._colorHandlers[1].blue - this._colorHandlers[0].blue) * progress;
             this._tmpColorTransition[3] =
                 this._colorHandlers[0].alpha +
-                (this._colorHandlers[1].alpha - this._colorHandlers[0].alpha) * lifePercent;
+                (this._colorHandlers[1].alpha - this._colorHandlers[0].alpha) * progress;
 
             this._colorHandlers[0].value = this._tmpColorTransition;
             this.tint = this._colorHandlers[0];
         }
 
         // Max Velocities (clamp by magnitude so it works with negative speeds too)
-        this.velocityX = ParticleItem.clampAbs(this.velocityX, this.maxVelocityX);
-        this.velocityY = ParticleItem.clampAbs(this.velocityY, this.maxVelocityY);
-        this.scaleVelocityX = ParticleItem.clampAbs(this.scaleVelocityX, this.maxScaleVelocityX);
-        this.scaleVelocityY = ParticleItem.clampAbs(this.scaleVelocityY, this.maxScaleVelocityY);
-        this.rotationVelocity = ParticleItem.clampAbs(this.rotationVelocity, this.maxRotationVelocity);
+        this.velocityX = ParticleEmitter.clampAbs(this.velocityX, this.maxVelocityX);
+        this.velocityY = ParticleEmitter.clampAbs(this.velocityY, this.maxVelocityY);
+        this.scaleVelocityX = ParticleEmitter.clampAbs(this.scaleVelocityX, this.maxScaleVelocityX);
+        this.scaleVelocityY = ParticleEmitter.clampAbs(this.scaleVelocityY, this.maxScaleVelocityY);
+        this.rotationVelocity = ParticleEmitter.clampAbs(this.rotationVelocity, this.maxRotationVelocity);
 
         // On Update
         if (this.onUpdate) {
@@ -429,22 +718,34 @@ export class ParticleItem extends Sprite implements PoolItem {
         this.maxRotationVelocity = -1;
         this.alphaStart = -1;
         this.alphaEnd = -1;
+        this.alphaEasing = null;
         this.alphaGetter = null;
         this.alpha = 1;
         this.tint = 0xffffff;
+        // Pools can be shared, the next emitter must not inherit the texture
+        this.texture = this._defaultTexture;
 
         // Clear transitions/callbacks to avoid state leaking across pooled reuses
         this.onUpdate = null;
 
         this.colorStart = null;
         this.colorEnd = null;
+        this.colorEasing = null;
         this.colorGetter = null;
 
         this.scaleStart = null;
         this.scaleEnd = null;
+        this.scaleEasing = null;
+
+        this.scaleCurve = null;
+        this.alphaCurve = null;
+        this.colorGradient = null;
+        this.velocityCurve = null;
+        this.rotationVelocityCurve = null;
 
         this.lifespan = Infinity;
         this.currentLife = 0;
+        this.collisionRadius = 0;
 
         this.initAlpha = 0;
         this.initX = 0;
@@ -455,12 +756,130 @@ export class ParticleItem extends Sprite implements PoolItem {
         this.initScaleY = 0;
         this.initRotation = 0;
         this.initRotationVelocity = 0;
+
+        this.prevX = 0;
+        this.prevY = 0;
+        this.prevRotation = 0;
+        this._interpolated = false;
+    }
+
+    /**
+     * Stores the current transform as the previous step, before a fixed step is integrated.
+     */
+    public savePreviousState() {
+        this.prevX = this.x;
+        this.prevY = this.y;
+        this.prevRotation = this.rotation;
+    }
+
+    /**
+     * Displays the particle between its previous and current step.
+     * The simulated transform is kept aside until `restoreSimulation()` is called.
+     *
+     * @param alpha - Progress from the previous step (0) to the current one (1)
+     */
+    public interpolate(alpha: number) {
+        if (!this._interpolated) {
+            this._simX = this.x;
+            this._simY = this.y;
+            this._simRotation = this.rotation;
+            this._interpolated = true;
+        }
+        this.x = this.prevX + (this._simX - this.prevX) * alpha;
+        this.y = this.prevY + (this._simY - this.prevY) * alpha;
+        this.rotation = this.prevRotation + (this._simRotation - this.prevRotation) * alpha;
+    }
+
+    /**
+     * Puts back the simulated transform after `interpolate()`, before the next step is integrated.
+     */
+    public restoreSimulation() {
+        if (!this._interpolated) return;
+        this.x = this._simX;
+        this.y = this._simY;
+        this.rotation = this._simRotation;
+        this._interpolated = false;
     }
 
-    private static clampAbs(value: number, maxAbs: number) {
-        if (maxAbs < 0) return value;
-        if (value > maxAbs) return maxAbs;
-        if (value < -maxAbs) return -maxAbs;
-        return value;
+    /**
+     * Moves the particle to another space, e.g. when the emitter origin moves in local space.
+     * Positions (current, previous and initial) go through the matrix, velocity and acceleration through its
+     * linear part, and the rotation is turned by `rotation`.
+     *
+     * @param matrix - Transform from the current space to the new one
+     * @param rotation - Rotation of the transform in radians
+     */
+    public applyTransform(matrix: Matrix, rotation: number) {
+        this.restoreSimulation();
+        const { a, b, c, d, tx, ty } = matrix;
+        let x = this.x;
+        this.x = a * x + c * this.y + tx;
+        this.y = b * x + d * this.y + ty;
+        x = this.prevX;
+        this.prevX = a * x + c * this.prevY + tx;
+        this.prevY = b * x + d * this.prevY + ty;
+        x = this.initX;
+        this.initX = a * x + c * this.initY + tx;
+        this.initY = b * x + d * this.initY + ty;
+
+        x = this.velocityX;
+        this.velocityX = a * x + c * this.velocityY;
+        this.velocityY = b * x + d * this.velocityY;
+        x = this.initVelocityX;
+        this.initVelocityX = a * x + c * this.initVelocityY;
+        this.initVelocityY = b * x + d * this.initVelocityY;
+        x = this.accelerationX;
+        this.accelerationX = a * x + c * this.accelerationY;
+        this.accelerationY = b * x + d * this.accelerationY;
+
+        this.rotation += rotation;
+        this.prevRotation += rotation;
+        this.initRotation += rotation;
+        this.trail?.applyTransform(matrix);
+    }
+
+    /**
+     * Destroys the particle and its trail.
+     *
+     * @param options - Destruction options for the display object
+     */
+    public destroy(options?: DestroyOptions | boolean) {
+        this.trail?.destroy();
+        this.trail = null;
+        super.destroy(options);
     }
 }
+
+/** Cumulative weights of texture variant lists */
+const textureWeights: WeakMap<ParticleTextureOption[], Float32Array> = new WeakMap();
+
+/**
+ * Picks a texture variant from a normalized value, honoring weights.
+ *
+ * @param textures - Texture variants
+ * @param t - Value in [0, 1), typically a random sample
+ */
+export function pickTexture(textures: ParticleTextureOption[], t: number): Texture {
+    let cumulative = textureWeights.get(textures);
+    if (!cumulative) {
+        cumulative = new Float32Array(textures.length);
+        let total = 0;
+        textures.forEach((option, index) => {
+            total += isWeightedTexture(option) ? Math.max(option.weight ?? 1, 0) : 1;
+            cumulative![index] = total;
+        });
+        textureWeights.set(textures, cumulative);
+    }
+
+    const target = t * cumulative[cumulative.length - 1];
+    let index = 0;
+    while (index < cumulative.length - 1 && cumulative[index] <= target) index++;
+
+    const option = textures[index];
+    const texture = isWeightedTexture(option) ? option.texture : option;
+    return typeof texture === "string" ? Texture.from(texture) : texture;
+}
+
+function isWeightedTexture(option: ParticleTextureOption): option is ParticleWeightedTexture {
+    return typeof option === "object" && !(option instanceof Texture) && "texture" in option;
+}
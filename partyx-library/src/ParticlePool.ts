@@ -1,4 +1,4 @@
-import { PoolItem, PoolItemConstructor } from "./types";
+import type { ParticlePoolStats, ParticlePoolTrimOptions, PoolItem, PoolItemConstructor } from "./types";
 
 /**
  * Object pool implementation for efficient particle management.
@@ -9,21 +9,40 @@ import { PoolItem, PoolItemConstructor } from "./types";
 export class ParticlePool<T extends PoolItem> {
     /** Array of available items ready for reuse */
     protected _items: T[] = [];
+    /** Time each available item was returned at, in the same order as `_items` */
+    protected _returnTimes: number[] = [];
     /** Constructor function for creating new items */
     protected _constructor: PoolItemConstructor<T>;
     /** Total number of items ever created by this pool */
     protected _createdCount: number = 0;
+    /** Usage counters reported by `stats` */
+    protected _peakUsed: number = 0;
+    protected _allocations: number = 0;
+    protected _reuses: number = 0;
+    protected _failedGets: number = 0;
+    protected _trimmed: number = 0;
+    /** Maximum number of items the pool can create (Infinity for unlimited) */
     public maxPoolSize: number;
+    /** How the pool gives memory back after usage peaks */
+    public trimOptions: ParticlePoolTrimOptions;
 
     /**
      * Creates a new particle pool with the specified item type.
      *
      * @param ClassType - Constructor for the type of items this pool will manage
      * @param initialSize - Optional number of items to pre-create in the pool
+     * @param maxPoolSize - Optional maximum number of items (-1 or undefined for unlimited)
+     * @param trimOptions - Optional trim policy (by default the pool never shrinks by itself)
      */
-    constructor(ClassType: PoolItemConstructor<T>, initialSize?: number, maxPoolSize?: number) {
+    constructor(
+        ClassType: PoolItemConstructor<T>,
+        initialSize?: number,
+        maxPoolSize?: number,
+        trimOptions: ParticlePoolTrimOptions = {}
+    ) {
         this._constructor = ClassType;
-        this.maxPoolSize = maxPoolSize ?? Infinity;
+        this.maxPoolSize = maxPoolSize !== undefined && maxPoolSize >= 0 ? maxPoolSize : Infinity;
+        this.trimOptions = trimOptions;
         if (initialSize && initialSize > 0) {
             this.prepopulate(initialSize);
         }
@@ -37,6 +56,7 @@ export class ParticlePool<T extends PoolItem> {
      */
     protected _getNewItem(): T {
         this._createdCount++;
+        this._allocations++;
         return new this._constructor();
     }
 
@@ -48,18 +68,21 @@ export class ParticlePool<T extends PoolItem> {
      * @returns An initialized item ready for use
      */
     public get(data?: unknown): T | undefined {
+        let item: T;
         if (this._items.length > 0) {
-            const item = this._items.pop()!;
-            item.inPool = false;
-            item.init(data);
-            return item;
-        }
-        if (this._createdCount < this.maxPoolSize) {
-            const item = this._getNewItem();
-            item.inPool = false;
-            item.init(data);
-            return item;
+            item = this._items.pop()!;
+            this._returnTimes.pop();
+            this._reuses++;
+        } else if (this._createdCount < this.maxPoolSize) {
+            item = this._getNewItem();
+        } else {
+            this._failedGets++;
+            return undefined;
         }
+        item.inPool = false;
+        item.init(data);
+        this._peakUsed = Math.max(this._peakUsed, this.totalUsed);
+        return item;
     }
 
     /**
@@ -73,8 +96,19 @@ export class ParticlePool<T extends PoolItem> {
             return;
         }
         item.inPool = true;
+
+        // Above the high-water mark, items are let go instead of kept
+        const { highWaterMark } = this.trimOptions;
+        if (highWaterMark !== undefined && highWaterMark >= 0 && this._createdCount > highWaterMark) {
+            this._createdCount--;
+            this._trimmed++;
+            item.destroy();
+            return;
+        }
+
         item.reset();
         this._items.push(item);
+        this._returnTimes.push(ParticlePool._now());
     }
 
     /**
@@ -110,21 +144,80 @@ export class ParticlePool<T extends PoolItem> {
      * @param count - Number of objects to create
      */
     public prepopulate(count: number): void {
+        const now = ParticlePool._now();
         for (let i = 0; i < count; i++) {
             const item = this._getNewItem();
             item.inPool = true;
             item.reset();
             this._items.push(item);
+            this._returnTimes.push(now);
         }
     }
 
     /**
-     * Clear the pool of all objects.
+     * Destroys available items until at most `maxFree` are left. Items in use are not affected.
+     *
+     * @param maxFree - Number of available items to keep (optional, `trimOptions.minFree` or 0 by default)
+     * @returns Number of destroyed items
+     */
+    public trim(maxFree: number = this.trimOptions.minFree ?? 0): number {
+        return this._destroyFree(this._items.length - Math.max(maxFree, 0));
+    }
+
+    /**
+     * Applies the idle timeout: available items unused for longer than `trimOptions.idleTimeout` are destroyed,
+     * down to `trimOptions.minFree`. The emitter or manager owning the pool calls it every frame; it is cheap
+     * when nothing expired.
+     *
+     * @param now - Current time in milliseconds (optional, `performance.now()` by default)
+     * @returns Number of destroyed items
+     */
+    public update(now: number = ParticlePool._now()): number {
+        const { idleTimeout, minFree = 0 } = this.trimOptions;
+        if (idleTimeout === undefined || idleTimeout < 0) return 0;
+
+        // Items are reused from the end, so the ones idle for the longest come first
+        const expired = now - idleTimeout;
+        let count = 0;
+        while (count < this._items.length - minFree && this._returnTimes[count] <= expired) {
+            count++;
+        }
+        return this._destroyFree(count);
+    }
+
+    /**
+     * Gets usage counters since the pool was created or `resetStats()` was called.
+     */
+    public get stats(): ParticlePoolStats {
+        return {
+            size: this._createdCount,
+            used: this.totalUsed,
+            free: this._items.length,
+            peakUsed: this._peakUsed,
+            allocations: this._allocations,
+            reuses: this._reuses,
+            failedGets: this._failedGets,
+            trimmed: this._trimmed,
+        };
+    }
+
+    /**
+     * Resets the usage counters; the peak starts again from the current usage.
+     */
+    public resetStats(): void {
+        this._peakUsed = this.totalUsed;
+        this._allocations = 0;
+        this._reuses = 0;
+        this._failedGets = 0;
+        this._trimmed = 0;
+    }
+
+    /**
+     * Clear the pool of all available objects, destroying them. Items in use are not affected
+     * and still count in `totalSize` until they are returned.
      */
     public clear(): void {
-        this._items.forEach((item) => item.reset());
-        this._items.length = 0;
-        // NOTE: do not reset _createdCount here; objects may still exist and be in use.
+        this._destroyFree(this._items.length);
     }
 
     /**
@@ -133,6 +226,32 @@ export class ParticlePool<T extends PoolItem> {
     public destroy(): void {
         this._items.forEach((item) => item.destroy());
         this._items.length = 0;
+        this._returnTimes.length = 0;
         this._createdCount = 0;
     }
+
+    /**
+     * Destroys the available items that were returned first.
+     *
+     * @param count - Number of items to destroy
+     * @returns Number of destroyed items
+     */
+    protected _destroyFree(count: number): number {
+        count = Math.min(count, this._items.length);
+        if (count <= 0) return 0;
+
+        const items = this._items.splice(0, count);
+        this._returnTimes.splice(0, count);
+        items.forEach((item) => item.destroy());
+        this._createdCount -= count;
+        this._trimmed += count;
+        return count;
+    }
+
+    /**
+     * Gets the current time in milliseconds.
+     */
+    protected static _now(): number {
+        return typeof performance !== "undefined" ? performance.now() : Date.now();
+    }
 }
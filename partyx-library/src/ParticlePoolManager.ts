@@ -0,0 +1,159 @@
+import { ParticlePool } from "./ParticlePool";
+import type { ParticleItem } from "./ParticleItem";
+import type { ParticlePoolManagerOptions, ParticlePoolTrimOptions, PoolItemConstructor } from "./types";
+
+/**
+ * Shared particle pools, one per particle class, with a budget of live particles across all of them.
+ * Emitters created with a manager take their particles from its pools and give them back when destroyed,
+ * so short-lived effects spawned over and over reuse the same sprites instead of allocating new ones.
+ */
+export class ParticlePoolManager {
+    protected static _shared: ParticlePoolManager | null = null;
+
+    /** Pools by particle class */
+    protected _pools: Map<PoolItemConstructor<ParticleItem>, ParticlePool<ParticleItem>> = new Map();
+    /** Maximum number of items each new pool can create */
+    protected _maxPoolSize: number;
+    /** Trim policy given to each new pool */
+    protected _trimOptions: ParticlePoolTrimOptions;
+    /** Frame time of the last `update()` */
+    protected _lastUpdate: number = -1;
+    /** Maximum number of live particles across all pools (Infinity for unlimited) */
+    public budget: number;
+
+    /**
+     * Default manager, for emitters created with `poolManager: ParticlePoolManager.shared`.
+     */
+    public static get shared(): ParticlePoolManager {
+        if (!ParticlePoolManager._shared) {
+            ParticlePoolManager._shared = new ParticlePoolManager();
+        }
+        return ParticlePoolManager._shared;
+    }
+
+    /**
+     * Creates a pool manager.
+     *
+     * @param options - Global budget and pool size limit (optional, unlimited by default)
+     */
+    constructor(options: ParticlePoolManagerOptions = {}) {
+        this.budget = options.budget !== undefined && options.budget >= 0 ? options.budget : Infinity;
+        this._maxPoolSize = options.maxPoolSize ?? -1;
+        this._trimOptions = options.trim ?? {};
+    }
+
+    /**
+     * Gets the pool of a particle class, creating it on first use.
+     *
+     * @param ClassType - Particle class of the pool
+     * @param initialSize - Number of items the pool should hold at least, created if missing (optional)
+     * @returns The shared pool
+     */
+    public getPool(ClassType: PoolItemConstructor<ParticleItem>, initialSize: number = 0): ParticlePool<ParticleItem> {
+        let pool = this._pools.get(ClassType);
+        if (!pool) {
+            pool = new ParticlePool(ClassType, 0, this._maxPoolSize, { ...this._trimOptions });
+            this._pools.set(ClassType, pool);
+        }
+        const missing = Math.min(initialSize, pool.maxPoolSize) - pool.totalSize;
+        if (missing > 0) {
+            pool.prepopulate(missing);
+        }
+        return pool;
+    }
+
+    /**
+     * Checks whether a pool exists for a particle class.
+     *
+     * @param ClassType - Particle class of the pool
+     */
+    public hasPool(ClassType: PoolItemConstructor<ParticleItem>): boolean {
+        return this._pools.has(ClassType);
+    }
+
+    /**
+     * Gets all the pools of the manager.
+     */
+    public get pools(): ParticlePool<ParticleItem>[] {
+        return [...this._pools.values()];
+    }
+
+    /**
+     * Gets the number of live particles taken from all pools.
+     */
+    public get totalUsed(): number {
+        let used = 0;
+        this._pools.forEach((pool) => (used += pool.totalUsed));
+        return used;
+    }
+
+    /**
+     * Gets the number of free particles held by all pools.
+     */
+    public get totalFree(): number {
+        let free = 0;
+        this._pools.forEach((pool) => (free += pool.totalFree));
+        return free;
+    }
+
+    /**
+     * Gets the number of particles that can still be spawned before the budget is reached.
+     */
+    public get remainingBudget(): number {
+        return Math.max(this.budget - this.totalUsed, 0);
+    }
+
+    /**
+     * Destroys the pool of a particle class. Emitters still using it keep their reference and should be
+     * destroyed or detached first.
+     *
+     * @param ClassType - Particle class of the pool
+     * @returns True if a pool was destroyed
+     */
+    public destroyPool(ClassType: PoolItemConstructor<ParticleItem>): boolean {
+        const pool = this._pools.get(ClassType);
+        if (!pool) return false;
+        pool.destroy();
+        this._pools.delete(ClassType);
+        return true;
+    }
+
+    /**
+     * Applies the idle timeout of all pools. Emitters call it with their frame time, so the pools are scanned
+     * once per frame however many emitters share them.
+     *
+     * @param now - Current time in milliseconds (optional, `performance.now()` by default)
+     * @returns Number of destroyed particles
+     */
+    public update(now: number = performance.now()): number {
+        if (now === this._lastUpdate) return 0;
+        this._lastUpdate = now;
+
+        let trimmed = 0;
+        this._pools.forEach((pool) => (trimmed += pool.update(now)));
+        return trimmed;
+    }
+
+    /**
+     * Destroys available particles of all pools, keeping at most `maxFree` in each.
+     *
+     * @param maxFree - Number of available particles kept per pool (optional, each pool `minFree` by default)
+     * @returns Number of destroyed particles
+     */
+    public trim(maxFree?: number): number {
+        let trimmed = 0;
+        this._pools.forEach((pool) => (trimmed += pool.trim(maxFree)));
+        return trimmed;
+    }
+
+    /**
+     * Destroys all the pools.
+     */
+    public destroy(): void {
+        this._pools.forEach((pool) => pool.destroy());
+        this._pools.clear();
+        if (ParticlePoolManager._shared === this) {
+            ParticlePoolManager._shared = null;
+        }
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Seeded pseudo random number generator (mulberry32).
+ * Every random sample of an emitter goes through its ParticleRandom, so an emitter created with the same
+ * seed and updated with the same sequence of ticks reproduces exactly the same particles.
+ */
+export class ParticleRandom {
+    /** Seed the generator was created or last reset with */
+    protected _seed: number;
+    /** Current generator state */
+    protected _state: number;
+
+    /**
+     * Creates a generator.
+     *
+     * @param seed - 32-bit integer seed (optional, random by default)
+     */
+    constructor(seed: number = ParticleRandom.randomSeed()) {
+        this._seed = seed >>> 0;
+        this._state = this._seed;
+    }
+
+    /**
+     * Creates a random 32-bit seed from `Math.random()`.
+     */
+    public static randomSeed(): number {
+        return Math.floor(Math.random() * 0x100000000);
+    }
+
+    /**
+     * Gets the seed of the current sequence.
+     */
+    public get seed(): number {
+        return this._seed;
+    }
+
+    /**
+     * Restarts the sequence.
+     *
+     * @param seed - New seed (optional, restarts the current sequence by default)
+     */
+    public reset(seed: number = this._seed) {
+        this._seed = seed >>> 0;
+        this._state = this._seed;
+    }
+
+    /**
+     * Gets the next value of the sequence.
+     *
+     * @returns A number in [0, 1)
+     */
+    public next(): number {
+        this._state = (this._state + 0x6d2b79f5) | 0;
+        let t = this._state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    }
+
+    /**
+     * Bound version of `next()`, for APIs taking a random function.
+     */
+    public readonly random = () => this.next();
+}
@@ -0,0 +1,160 @@
+import { Cache, Spritesheet, Texture } from "pixi.js";
+import { AnimatedParticleItem } from "./AnimatedParticleItem";
+import { ParticleItem } from "./ParticleItem";
+import type { PoolItemConstructor } from "./types";
+
+/**
+ * Name-based lookup for everything a serialized emitter config cannot hold directly:
+ * particle classes, textures and spritesheets. Configs reference them by name and the registry
+ * resolves those names when loading, and maps them back when saving.
+ */
+export class ParticleRegistry {
+    protected static _shared: ParticleRegistry | null = null;
+
+    /** Registered particle classes by name */
+    protected _particleClasses: Map<string, PoolItemConstructor<ParticleItem>> = new Map();
+    /** Registered textures by name */
+    protected _textures: Map<string, Texture> = new Map();
+    /** Registered spritesheets by name */
+    protected _spritesheets: Map<string, Spritesheet> = new Map();
+
+    /**
+     * Default registry used when no registry is provided.
+     */
+    public static get shared(): ParticleRegistry {
+        if (!ParticleRegistry._shared) {
+            ParticleRegistry._shared = new ParticleRegistry();
+        }
+        return ParticleRegistry._shared;
+    }
+
+    /**
+     * Creates a registry with the built-in particle classes already registered.
+     */
+    constructor() {
+        this.registerParticleClass("ParticleItem", ParticleItem);
+        this.registerParticleClass("AnimatedParticleItem", AnimatedParticleItem);
+    }
+
+    /**
+     * Registers a particle class under a name so configs can reference it.
+     *
+     * @param name - Name used in `ParticleEmitterConfig.particleClass`
+     * @param ClassType - Particle class constructor
+     */
+    public registerParticleClass(name: string, ClassType: PoolItemConstructor<ParticleItem>) {
+        this._particleClasses.set(name, ClassType);
+        return this;
+    }
+
+    /**
+     * Resolves a particle class by name.
+     *
+     * @param name - Registered particle class name
+     * @throws Error if no class is registered with that name
+     */
+    public getParticleClass(name: string): PoolItemConstructor<ParticleItem> {
+        const ClassType = this._particleClasses.get(name);
+        if (!ClassType) {
+            throw new Error(`ParticleRegistry - Particle class "${name}" is not registered`);
+        }
+        return ClassType;
+    }
+
+    /**
+     * Finds the name a particle class was registered with.
+     *
+     * @param ClassType - Particle class constructor
+     * @returns The registered name, or undefined if the class is unknown
+     */
+    public getParticleClassName(ClassType: PoolItemConstructor<ParticleItem>): string | undefined {
+        for (const [name, registered] of this._particleClasses) {
+            if (registered === ClassType) return name;
+        }
+        return undefined;
+    }
+
+    /**
+     * Registers a texture under a name so configs can reference it.
+     *
+     * @param name - Name used in configs
+     * @param texture - Texture instance
+     */
+    public registerTexture(name: string, texture: Texture) {
+        this._textures.set(name, texture);
+        return this;
+    }
+
+    /**
+     * Resolves a texture by name. Registered textures take precedence; otherwise the name
+     * is looked up as an asset alias in the Pixi Assets cache.
+     *
+     * @param name - Registered texture name or loaded asset alias
+     * @throws Error if the texture is neither registered nor loaded
+     */
+    public getTexture(name: string): Texture {
+        const texture = this._textures.get(name);
+        if (texture) return texture;
+
+        if (Cache.has(name)) {
+            return Texture.from(name);
+        }
+
+        throw new Error(`ParticleRegistry - Texture "${name}" is not registered nor loaded`);
+    }
+
+    /**
+     * Finds the name a texture was registered with, falling back to its asset alias.
+     *
+     * @param texture - Texture instance
+     * @returns The texture name, or undefined if it cannot be referenced by name
+     */
+    public getTextureName(texture: Texture): string | undefined {
+        for (const [name, registered] of this._textures) {
+            if (registered === texture) return name;
+        }
+        if (texture.label && Cache.has(texture.label) && Cache.get(texture.label) === texture) {
+            return texture.label;
+        }
+        return undefined;
+    }
+
+    /**
+     * Registers a spritesheet under a name so animation configs can reference it.
+     *
+     * @param name - Name used in configs
+     * @param spritesheet - Parsed spritesheet
+     */
+    public registerSpritesheet(name: string, spritesheet: Spritesheet) {
+        this._spritesheets.set(name, spritesheet);
+        return this;
+    }
+
+    /**
+     * Resolves a spritesheet by name. Registered spritesheets take precedence; otherwise the name
+     * is looked up as an asset alias in the Pixi Assets cache.
+     *
+     * @param name - Registered spritesheet name or loaded asset alias
+     * @throws Error if the spritesheet is neither registered nor loaded
+     */
+    public getSpritesheet(name: string): Spritesheet {
+        const spritesheet = this._spritesheets.get(name) ?? (Cache.has(name) ? Cache.get(name) : undefined);
+        if (!(spritesheet instanceof Spritesheet)) {
+            throw new Error(`ParticleRegistry - Spritesheet "${name}" is not registered nor loaded`);
+        }
+        return spritesheet;
+    }
+
+    /**
+     * Finds the name a spritesheet was registered with.
+     *
+     * @param spritesheet - Spritesheet instance
+     * @returns The registered name, or undefined if the spritesheet is unknown
+     */
+    public getSpritesheetName(spritesheet: Spritesheet): string | undefined {
+        for (const [name, registered] of this._spritesheets) {
+            if (registered === spritesheet) return name;
+        }
+        return undefined;
+    }
+}
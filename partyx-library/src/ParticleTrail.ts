@@ -0,0 +1,303 @@
+import {
+    Buffer,
+    BufferUsage,
+    Mesh,
+    MeshGeometry,
+    Shader,
+    Texture,
+    colorBit,
+    colorBitGl,
+    compileHighShaderGlProgram,
+    compileHighShaderGpuProgram,
+    localUniformBit,
+    localUniformBitGl,
+    roundPixelsBit,
+    roundPixelsBitGl,
+    textureBit,
+    textureBitGl,
+} from "pixi.js";
+import type { DestroyOptions, GlProgram, GpuProgram, Matrix } from "pixi.js";
+import { ParticleCurve } from "./ParticleCurve";
+import type { ParticleItem } from "./ParticleItem";
+import type { ParticleOptionKeyframes, ParticleTrailOptions } from "./types";
+
+/** Default width and alpha along the trail: full at the head, nothing at the tail */
+const TAPER: ParticleOptionKeyframes = {
+    keyframes: [
+        { time: 0, value: 1 },
+        { time: 1, value: 0 },
+    ],
+};
+
+/**
+ * Ribbon drawn behind a particle from its recent positions.
+ * The strip is a mesh with one vertex pair per recorded point; width and alpha follow curves from the head (0)
+ * to the tail (1) and the texture is stretched along the trail.
+ * Trails belong to their particle and are reused with it by the pool; the emitter draws them below its particles.
+ */
+export class ParticleTrail extends Mesh<MeshGeometry, Shader> {
+    protected static _gpuProgram: GpuProgram | null = null;
+    protected static _glProgram: GlProgram | null = null;
+
+    /** Recorded positions, the newest (the head) first */
+    protected _points: Float32Array = new Float32Array(0);
+    /** Number of valid points, including the head */
+    protected _count: number = 0;
+    /** Per-vertex colors, premultiplied by the shader */
+    protected _colors: Float32Array = new Float32Array(0);
+    protected _options: ParticleTrailOptions = { length: 2 };
+    protected _widthCurve: ParticleCurve = ParticleCurve.from(TAPER);
+    protected _alphaCurve: ParticleCurve = ParticleCurve.from(TAPER);
+
+    /** Particle the trail follows */
+    public readonly particle: ParticleItem;
+
+    /**
+     * Creates an empty trail for a particle. It is sized by `configure()`.
+     *
+     * @param particle - Particle the trail follows
+     */
+    constructor(particle: ParticleItem) {
+        ParticleTrail._gpuProgram ??= compileHighShaderGpuProgram({
+            name: "particle-trail",
+            bits: [localUniformBit, textureBit, colorBit, roundPixelsBit],
+        });
+        ParticleTrail._glProgram ??= compileHighShaderGlProgram({
+            name: "particle-trail",
+            bits: [localUniformBitGl, textureBitGl, colorBitGl, roundPixelsBitGl],
+        });
+
+        const texture = Texture.WHITE;
+        super({
+            geometry: new MeshGeometry({ positions: new Float32Array(0) }),
+            shader: new Shader({
+                gpuProgram: ParticleTrail._gpuProgram,
+                glProgram: ParticleTrail._glProgram,
+                resources: {
+                    uTexture: texture.source,
+                    uSampler: texture.source.style,
+                    textureUniforms: {
+                        uTextureMatrix: { type: "mat3x3<f32>", value: texture.textureMatrix.mapCoord },
+                    },
+                },
+            }),
+            texture,
+        });
+        this.label = "ParticleTrail";
+        this.particle = particle;
+        this.onRender = () => this.updateGeometry();
+    }
+
+    /**
+     * Number of recorded points, including the particle position.
+     */
+    public get count(): number {
+        return this._count;
+    }
+
+    /**
+     * Applies trail options, resizing the mesh when the length changed.
+     *
+     * @param options - Trail options
+     */
+    public configure(options: ParticleTrailOptions) {
+        const length = Math.max(2, Math.floor(options.length));
+        if (length * 2 !== this._points.length) {
+            this._resize(length);
+        }
+        this._options = options;
+        this._widthCurve = ParticleCurve.from(options.widthCurve ?? TAPER);
+        this._alphaCurve = ParticleCurve.from(options.alphaCurve ?? TAPER);
+
+        const texture =
+            (typeof options.texture === "string" ? Texture.from(options.texture) : options.texture) ?? Texture.WHITE;
+        if (texture !== this.texture) {
+            this.texture = texture;
+            const resources = this.shader!.resources;
+            resources.uTexture = texture.source;
+            resources.uSampler = texture.source.style;
+            resources.textureUniforms.uniforms.uTextureMatrix = texture.textureMatrix.mapCoord;
+        }
+    }
+
+    /**
+     * Clears the history, leaving the head alone at a position.
+     *
+     * @param x - Head position on X-axis
+     * @param y - Head position on Y-axis
+     */
+    public reset(x: number, y: number) {
+        this._points[0] = x;
+        this._points[1] = y;
+        this._count = 1;
+    }
+
+    /**
+     * Moves the head to a new position. The previous head is kept as a point of the trail once it is at least
+     * `minDistance` away from the last kept point; the oldest point is dropped when the trail is full.
+     *
+     * @param x - Head position on X-axis
+     * @param y - Head position on Y-axis
+     */
+    public record(x: number, y: number) {
+        const points = this._points;
+        const minDistance = this._options.minDistance ?? 0;
+        const keep =
+            this._count === 1 ||
+            (points[0] - points[2]) * (points[0] - points[2]) + (points[1] - points[3]) * (points[1] - points[3]) >=
+                minDistance * minDistance;
+
+        if (keep) {
+            points.copyWithin(2, 0, points.length - 2);
+            this._count = Math.min(this._count + 1, points.length / 2);
+        }
+        points[0] = x;
+        points[1] = y;
+    }
+
+    /**
+     * Transforms the recorded points, e.g. when live particles are moved with the emitter.
+     *
+     * @param matrix - Transform applied to the points
+     */
+    public applyTransform(matrix: Matrix) {
+        const points = this._points;
+        for (let i = 0; i < this._count * 2; i += 2) {
+            const x = points[i];
+            const y = points[i + 1];
+            points[i] = matrix.a * x + matrix.c * y + matrix.tx;
+            points[i + 1] = matrix.b * x + matrix.d * y + matrix.ty;
+        }
+    }
+
+    /**
+     * Rebuilds the strip from the recorded points and the displayed particle. Runs before every render.
+     * Unused vertices collapse onto the tail, so the buffers never change size.
+     */
+    public updateGeometry() {
+        const particle = this.particle;
+        const points = this._points;
+        const length = points.length / 2;
+        const count = this._count;
+        if (!count) return;
+
+        // The head is drawn where the particle is displayed, which differs from the simulation when interpolating
+        const headX = points[0];
+        const headY = points[1];
+        points[0] = particle.x;
+        points[1] = particle.y;
+
+        const options = this._options;
+        const width =
+            (options.width ?? 8) * (options.scaleWithParticle === false ? 1 : Math.abs(particle.scale.x)) * 0.5;
+        const color = options.color ?? particle.tint;
+        const r = ((color >> 16) & 0xff) / 255;
+        const g = ((color >> 8) & 0xff) / 255;
+        const b = (color & 0xff) / 255;
+        const alpha = particle.alpha;
+
+        const positions = this.geometry.positions;
+        const uvs = this.geometry.uvs;
+        const colors = this._colors;
+        let normalX = 0;
+        let normalY = 1;
+
+        for (let i = 0; i < length; i++) {
+            const used = i < count;
+            const index = used ? i : count - 1;
+            const x = points[index * 2];
+            const y = points[index * 2 + 1];
+            const t = count > 1 ? index / (count - 1) : 0;
+
+            // Normal from the neighbouring points, the previous one is kept on zero-length segments
+            const before = Math.max(index - 1, 0) * 2;
+            const after = Math.min(index + 1, count - 1) * 2;
+            const dx = points[before] - points[after];
+            const dy = points[before + 1] - points[after + 1];
+            const distance = Math.sqrt(dx * dx + dy * dy);
+            if (distance > 1e-6) {
+                normalX = -dy / distance;
+                normalY = dx / distance;
+            }
+
+            const halfWidth = used ? width * this._widthCurve.evaluate(t) : 0;
+            const offset = i * 4;
+            positions[offset] = x + normalX * halfWidth;
+            positions[offset + 1] = y + normalY * halfWidth;
+            positions[offset + 2] = x - normalX * halfWidth;
+            positions[offset + 3] = y - normalY * halfWidth;
+            uvs[offset] = t;
+            uvs[offset + 1] = 0;
+            uvs[offset + 2] = t;
+            uvs[offset + 3] = 1;
+
+            const a = used ? alpha * this._alphaCurve.evaluate(t) : 0;
+            for (let j = i * 8; j < i * 8 + 8; j += 4) {
+                colors[j] = r;
+                colors[j + 1] = g;
+                colors[j + 2] = b;
+                colors[j + 3] = a;
+            }
+        }
+
+        points[0] = headX;
+        points[1] = headY;
+
+        this.geometry.getBuffer("aPosition").update();
+        this.geometry.getBuffer("aUV").update();
+        this.geometry.getBuffer("aColor").update();
+    }
+
+    /**
+     * Replaces the geometry with one sized for a number of points.
+     *
+     * @param length - Number of points
+     */
+    protected _resize(length: number) {
+        const points = new Float32Array(length * 2);
+        points.set(this._points.subarray(0, Math.min(this._count, length) * 2));
+        this._points = points;
+        this._count = Math.min(this._count, length);
+        this._colors = new Float32Array(length * 8);
+
+        // Two triangles per segment, between the vertex pairs of consecutive points
+        const indices = new Uint32Array((length - 1) * 6);
+        for (let i = 0; i < length - 1; i++) {
+            const vertex = i * 2;
+            indices.set([vertex, vertex + 1, vertex + 2, vertex + 1, vertex + 3, vertex + 2], i * 6);
+        }
+
+        const geometry = new MeshGeometry({
+            positions: new Float32Array(length * 4),
+            uvs: new Float32Array(length * 4),
+            indices,
+        });
+        geometry.addAttribute("aColor", {
+            buffer: new Buffer({
+                data: this._colors,
+                label: "attribute-particle-trail-colors",
+                usage: BufferUsage.VERTEX | BufferUsage.COPY_DST,
+            }),
+            format: "float32x4",
+            stride: 4 * 4,
+            offset: 0,
+        });
+
+        const previous = this.geometry;
+        this.geometry = geometry;
+        previous.destroy();
+    }
+
+    /**
+     * Destroys the trail with its geometry and shader.
+     *
+     * @param options - Destruction options for the display object
+     */
+    public destroy(options?: DestroyOptions | boolean) {
+        const geometry = this.geometry;
+        const shader = this.shader;
+        super.destroy(options);
+        geometry.destroy();
+        shader?.destroy();
+    }
+}
@@ -1,4 +1,40 @@
+export { ParticleEmitterBase } from "./ParticleEmitterBase";
 export { ParticleEmitter } from "./ParticleEmitter";
+export { FastParticleEmitter } from "./FastParticleEmitter";
 export { ParticleItem } from "./ParticleItem";
+export { AnimatedParticleItem } from "./AnimatedParticleItem";
 export { ParticlePool } from "./ParticlePool";
+export { ParticlePoolManager } from "./ParticlePoolManager";
+export { ParticleRandom } from "./ParticleRandom";
+export { ParticleRegistry } from "./ParticleRegistry";
+export { ParticleCurve, ParticleGradient } from "./ParticleCurve";
+export { ParticleTrail } from "./ParticleTrail";
+export { EmissionShape, PointShape, PolygonAreaShape, PolylineShape, RingShape } from "./EmissionShape";
+export type { EmissionSample, EmissionShapeFactory } from "./EmissionShape";
+export { CircleCollider, Collider, PolygonCollider, SegmentCollider } from "./Collider";
+export type { ColliderFactory, ColliderHit } from "./Collider";
+export {
+    DirectionalForceField,
+    ForceField,
+    PointForceField,
+    TurbulenceForceField,
+    VortexForceField,
+} from "./ForceField";
+export type { ForceFieldFactory } from "./ForceField";
+export { easings, getEasingName, registerEasing, resolveEasing } from "./Easing";
+export {
+    cloneConfigValue,
+    configToEmitterOptions,
+    emitterOptionsToConfig,
+    mergeConfigValue,
+    parseEmitterConfig,
+} from "./ParticleConfig";
+export {
+    PARTICLE_CONFIG_VERSION,
+    ParticleConfigError,
+    emitterConfigSchema,
+    particleConfigSchema,
+    validateEmitterConfig,
+} from "./ParticleConfigSchema";
+export type { ParticleConfigValidator } from "./ParticleConfigSchema";
 export * from "./types";
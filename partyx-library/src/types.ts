@@ -1,5 +1,9 @@
-import type { Texture, ICanvas, Rectangle, Ticker } from "pixi.js";
+import type { BLEND_MODES, ParticleProperties, Texture, ICanvas, Rectangle, Spritesheet, Ticker } from "pixi.js";
 import type { ParticleItem } from "./ParticleItem";
+import type { ParticlePool } from "./ParticlePool";
+import type { ParticlePoolManager } from "./ParticlePoolManager";
+import type { ParticleRandom } from "./ParticleRandom";
+import type { ParticleRegistry } from "./ParticleRegistry";
 
 /**
  * Represents a range of values that can be either a fixed number or a range with min/max values.
@@ -53,9 +57,77 @@ export interface PoolItem {
     destroy(): void;
 }
 
+/**
+ * How a ParticlePool gives memory back after usage peaks. Without options the pool never shrinks by itself.
+ */
+export interface ParticlePoolTrimOptions {
+    /** Available items kept by `trim()` and the idle timeout (optional, 0 by default) */
+    minFree?: number;
+    /** Time in milliseconds after which unused available items are destroyed, down to `minFree` (optional) */
+    idleTimeout?: number;
+    /** Number of items the pool keeps at most; items returned above it are destroyed instead (optional) */
+    highWaterMark?: number;
+}
+
+/**
+ * Usage counters of a ParticlePool.
+ */
+export interface ParticlePoolStats {
+    /** Items currently owned by the pool, in use or available */
+    size: number;
+    /** Items currently in use */
+    used: number;
+    /** Items currently available */
+    free: number;
+    /** Highest number of items in use at the same time */
+    peakUsed: number;
+    /** Items created */
+    allocations: number;
+    /** `get()` calls served by an available item instead of a new one */
+    reuses: number;
+    /** `get()` calls that returned nothing because `maxPoolSize` was reached */
+    failedGets: number;
+    /** Available items destroyed by trimming or by the high-water mark */
+    trimmed: number;
+}
+
+/**
+ * Playback mode of animated particles.
+ * - `"loop"`: restarts from the first frame after the last one
+ * - `"once"`: holds the last frame
+ * - `"pingpong"`: plays forward then backward
+ */
+export type ParticleAnimationMode = "loop" | "once" | "pingpong";
+
+/**
+ * Flipbook animation played by AnimatedParticleItem, set with `ParticleSpawnOptions.animation`.
+ * Frames come from `imageSources`, or from a spritesheet when `imageSources` is not set.
+ */
 export interface SpriteParticleItemOptions {
+    /** Frames per second */
     frameRate: number;
-    imageSources: (string | Texture | HTMLImageElement | HTMLVideoElement | ImageBitmap | ICanvas)[];
+    /** Frames as textures, asset aliases or image sources (optional) */
+    imageSources?: (string | Texture | HTMLImageElement | HTMLVideoElement | ImageBitmap | ICanvas)[];
+    /** Spritesheet, or the asset alias of a loaded one, providing the frames (optional) */
+    spritesheet?: Spritesheet | string;
+    /** Name of the spritesheet animation to play (optional, all frames of the sheet by default) */
+    animation?: string;
+    /** Playback mode (optional, "loop" by default) */
+    mode?: ParticleAnimationMode;
+    /** Start each particle at a random frame (optional) */
+    randomStartFrame?: boolean;
+    /** Play exactly one cycle over the particle lifespan, ignoring `frameRate` (optional) */
+    fitLifespan?: boolean;
+}
+
+/**
+ * Serializable flipbook animation: frames and spritesheets are referenced by name.
+ */
+export interface ParticleAnimationConfig extends Omit<SpriteParticleItemOptions, "imageSources" | "spritesheet"> {
+    /** Registered texture names or asset aliases (optional) */
+    imageSources?: string[];
+    /** Registered spritesheet name or asset alias (optional) */
+    spritesheet?: string;
 }
 
 /**
@@ -78,6 +150,58 @@ export interface ParticleOptionStartEnd {
     start: ParticleOptionRange;
     /** Final value at particle death */
     end: ParticleOptionRange;
+    /** Easing applied to the transition, by registered name or function (linear by default) */
+    easing?: ParticleOptionEasing;
+}
+
+/**
+ * Easing function mapping normalized progress (0..1) to eased progress.
+ */
+export type ParticleEasingFunction = (t: number) => number;
+
+/**
+ * Easing given by registered name (e.g. "linear", "smooth") or as a function.
+ * Only named easings survive JSON serialization.
+ */
+export type ParticleOptionEasing = string | ParticleEasingFunction;
+
+/**
+ * A single stop of a keyframe curve.
+ */
+export interface ParticleKeyframe {
+    /** Normalized lifetime of the stop (0 = spawn, 1 = death) */
+    time: number;
+    /** Value at this stop */
+    value: number;
+    /** Easing of the segment from this stop to the next one (optional, linear by default) */
+    easing?: ParticleOptionEasing;
+}
+
+/**
+ * Property-over-lifetime curve defined by a list of keyframes.
+ * Values before the first and after the last keyframe are held.
+ */
+export interface ParticleOptionKeyframes {
+    keyframes: ParticleKeyframe[];
+}
+
+/**
+ * A single stop of a color gradient.
+ */
+export interface ParticleColorStop {
+    /** Normalized lifetime of the stop (0 = spawn, 1 = death) */
+    time: number;
+    /** Color at this stop */
+    color: number;
+    /** Easing of the segment from this stop to the next one (optional, linear by default) */
+    easing?: ParticleOptionEasing;
+}
+
+/**
+ * Color-over-lifetime defined by a list of color stops.
+ */
+export interface ParticleOptionGradient {
+    gradient: ParticleColorStop[];
 }
 
 /**
@@ -93,6 +217,8 @@ export interface ParticleVector1Physics {
     acceleration?: ParticleOptionRange;
     /** Maximum allowed velocity (optional, -1 for unlimited) */
     maxVelocity?: number;
+    /** Multiplier applied to the velocity over the particle lifetime (optional) */
+    velocityCurve?: ParticleOptionKeyframes;
 }
 
 /**
@@ -122,29 +248,173 @@ export interface ParticleVector2Physics {
     maxVelocityX?: number;
     /** Maximum Y-axis velocity (optional) */
     maxVelocityY?: number;
+    /** Multiplier applied to the velocity over the particle lifetime (optional) */
+    velocityCurve?: ParticleOptionKeyframes;
 }
 
+/**
+ * Physics configuration for the particle position.
+ * Besides the X/Y velocities, velocity can be given in polar form: setting `speed` sprays particles
+ * at `angle` (plus a random `spread`), relative to the emitter direction.
+ */
+export interface ParticlePositionPhysics extends ParticleVector2Physics {
+    /** Speed along the emission angle, enables polar velocity (optional) */
+    speed?: ParticleOptionRange;
+    /** Emission angle in radians, relative to the emitter direction (optional, 0 by default) */
+    angle?: ParticleOptionRange;
+    /** Width in radians of the cone the emission angle is randomized in (optional) */
+    spread?: number;
+}
+
+/**
+ * Emits from the spawn position itself.
+ */
+export interface ParticleEmissionPoint {
+    type: "point";
+}
+
+/**
+ * Emits from a circle centered on the spawn position.
+ */
+export interface ParticleEmissionCircle {
+    type: "circle";
+    radius: number;
+    /** Emit from the circumference only (optional) */
+    edge?: boolean;
+    /** Spread points uniformly over the area rather than evenly along the radius (optional, true by default) */
+    uniform?: boolean;
+}
+
+/**
+ * Emits from a ring centered on the spawn position.
+ */
+export interface ParticleEmissionRing {
+    type: "ring";
+    radius: number;
+    innerRadius: number;
+    /** Spread points uniformly over the area rather than evenly along the radius (optional, true by default) */
+    uniform?: boolean;
+}
+
+/**
+ * Emits from a rectangle centered on the spawn position.
+ */
+export interface ParticleEmissionRectangle {
+    type: "rectangle";
+    width: number;
+    height: number;
+    /** Emit from the perimeter only (optional) */
+    edge?: boolean;
+}
+
+/**
+ * Emits from a line segment, relative to the spawn position.
+ */
+export interface ParticleEmissionLine {
+    type: "line";
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+/**
+ * Emits from a simple polygon, relative to the spawn position.
+ */
+export interface ParticleEmissionPolygon {
+    type: "polygon";
+    /** Flat list of vertices [x0, y0, x1, y1, ...] */
+    points: number[];
+    /** Emit from the outline only (optional) */
+    edge?: boolean;
+}
+
+/**
+ * Emits along a chain of cubic bezier curves, relative to the spawn position.
+ */
+export interface ParticleEmissionPath {
+    type: "path";
+    /** Start point followed by [cp1x, cp1y, cp2x, cp2y, x, y] per curve */
+    points: number[];
+    /** Line segments sampled per curve (optional, 16 by default) */
+    samples?: number;
+}
+
+/**
+ * Options of a shape registered with `EmissionShape.register()`.
+ */
+export interface ParticleEmissionCustom {
+    type: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Area, outline or path particles are spawned from.
+ */
+export type ParticleEmissionShapeOptions = (
+    | ParticleEmissionPoint
+    | ParticleEmissionCircle
+    | ParticleEmissionRing
+    | ParticleEmissionRectangle
+    | ParticleEmissionLine
+    | ParticleEmissionPolygon
+    | ParticleEmissionPath
+    | ParticleEmissionCustom
+) & {
+    /** Speed along the outward normal of the shape, added to the particle velocity (optional) */
+    normalVelocity?: ParticleOptionRange;
+};
+
+/**
+ * Texture variant with a relative weight.
+ */
+export interface ParticleWeightedTexture {
+    /** Texture instance or loaded asset alias */
+    texture: Texture | string;
+    /** Relative chance of being picked (optional, 1 by default) */
+    weight?: number;
+}
+
+/**
+ * Texture variant: an instance, a loaded asset alias, or either with a weight.
+ */
+export type ParticleTextureOption = Texture | string | ParticleWeightedTexture;
+
 /**
  * Configuration options for individual particle spawn behavior.
  * Defines all the visual and physical properties a particle can have when created.
  */
 export interface ParticleSpawnOptions {
     /** Position configuration with physics properties */
-    position: ParticleVector2Physics;
-    /** Scale configuration - can be uniform, start/end transition, or full 2D physics */
-    scale?: ParticleOptionStartEnd | ParticleVector2Physics | ParticleOptionRange;
+    position: ParticlePositionPhysics;
+    /** Shape spawn positions are sampled from, offset by `position` (optional) */
+    emissionShape?: ParticleEmissionShapeOptions;
+    /** Scale configuration - can be uniform, start/end transition, keyframe curve, or full 2D physics */
+    scale?: ParticleOptionStartEnd | ParticleOptionKeyframes | ParticleVector2Physics | ParticleOptionRange;
     /** Rotation configuration with physics properties */
     rotation?: ParticleVector1Physics;
-    /** Alpha transparency - can be start/end transition or dynamic function */
-    alpha?: ParticleOptionStartEnd | ParticleOptionFunction;
-    /** Color tint - can be start/end transition, dynamic function, array of colors, or single color */
-    color?: ParticleOptionStartEnd | ParticleOptionFunction | number[] | number;
+    /** Alpha transparency - can be start/end transition, keyframe curve or dynamic function */
+    alpha?: ParticleOptionStartEnd | ParticleOptionKeyframes | ParticleOptionFunction;
+    /** Color tint - can be start/end transition, gradient, dynamic function, array of colors, or single color */
+    color?: ParticleOptionStartEnd | ParticleOptionGradient | ParticleOptionFunction | number[] | number;
     /** Callback executed when particle is initialized */
     onInit?: ParticleOptionInitCallback;
     /** Callback executed every frame during particle update */
     onUpdate?: ParticleOptionUpdateCallback;
     /** Particle lifetime in seconds */
     lifespan?: ParticleOptionRange;
+    /** Radius used against the content frame boundary and colliders (optional, 0 by default) */
+    collisionRadius?: ParticleOptionRange;
+    /** Texture applied to every particle, as an instance or a loaded asset alias (optional) */
+    texture?: Texture | string;
+    /** Texture variants, one is picked per particle from its seed; takes precedence over `texture` (optional) */
+    textures?: ParticleTextureOption[];
+    /** Flipbook animation, played by AnimatedParticleItem (optional) */
+    animation?: SpriteParticleItemOptions;
+    /** Child emitters fired by the particle spawn, death or collisions (optional) */
+    subEmitters?: ParticleSubEmitterOptions[];
+    /** Ribbon drawn behind each particle (optional) */
+    trail?: ParticleTrailOptions;
 }
 
 /**
@@ -171,13 +441,423 @@ export interface ParticleUpdateOptions {
     };
     /** Automatic spawn duration in milliseconds - stops emitting after this time (optional) */
     spawnDuration?: number;
+    /** One-shot emissions scheduled from `start()`, independent of the spawn rate (optional) */
+    bursts?: ParticleBurst[];
+    /** Time in seconds simulated on `start()` so the effect starts in its steady state (optional) */
+    prewarm?: number;
+    /** Per-edge behavior of the content frame; without it, particles die once fully outside (optional) */
+    boundary?: ParticleBoundaryOptions;
+    /** Shapes particles bounce off or die on, in emitter coordinates (optional) */
+    colliders?: ParticleColliderOptions[];
+    /** Positional forces (attractors, vortices, zones, turbulence) applied with the environment (optional) */
+    forceFields?: ParticleForceFieldOptions[];
+    /** Integrates with a constant time step instead of the accumulated frame time (optional) */
+    fixedStep?: ParticleFixedStepOptions;
+    /** Whether live particles move with the emitter or stay where they were spawned (optional, local by default) */
+    space?: ParticleSpace;
+    /** What happens to spawns once the emitter is full (optional, `drop` by default) */
+    overflow?: ParticleOverflowPolicy;
+}
+
+/**
+ * What happens to a particle reaching an edge of the content frame.
+ * - `none`: nothing, the particle leaves the frame
+ * - `kill`: the particle dies once fully outside
+ * - `bounce`: the particle bounces back with the edge restitution and friction
+ * - `wrap`: the particle comes back from the opposite edge once fully outside
+ * - `clamp`: the particle is kept inside and slides along the edge
+ * - `stick`: the particle is kept inside and stops
+ */
+export type ParticleBoundaryBehavior = "none" | "kill" | "bounce" | "wrap" | "clamp" | "stick";
+
+/**
+ * Name of a content frame edge.
+ */
+export type ParticleBoundaryEdgeName = "left" | "right" | "top" | "bottom";
+
+/**
+ * Behavior of one content frame edge.
+ */
+export interface ParticleBoundaryEdge {
+    behavior: ParticleBoundaryBehavior;
+    /** Part of the normal speed kept when bouncing (optional, defaults to the boundary restitution) */
+    restitution?: number;
+    /** Part of the tangential speed lost when bouncing (optional, defaults to the boundary friction) */
+    friction?: number;
+}
+
+/**
+ * Content frame boundary behavior, set for all edges at once and overridden per edge.
+ */
+export interface ParticleBoundaryOptions {
+    /** Behavior of the edges not set below (optional, `kill` by default) */
+    behavior?: ParticleBoundaryBehavior;
+    /** Part of the normal speed kept when bouncing, from 0 to 1 (optional, 1 by default) */
+    restitution?: number;
+    /** Part of the tangential speed lost when bouncing, from 0 to 1 (optional, 0 by default) */
+    friction?: number;
+    left?: ParticleBoundaryBehavior | ParticleBoundaryEdge;
+    right?: ParticleBoundaryBehavior | ParticleBoundaryEdge;
+    top?: ParticleBoundaryBehavior | ParticleBoundaryEdge;
+    bottom?: ParticleBoundaryBehavior | ParticleBoundaryEdge;
+}
+
+/**
+ * What happens to a particle hitting a collider.
+ */
+export type ParticleColliderBehavior = "bounce" | "kill";
+
+/**
+ * Response settings shared by all colliders.
+ */
+export interface ParticleColliderResponse {
+    /** Behavior on contact (optional, `bounce` by default) */
+    behavior?: ParticleColliderBehavior;
+    /** Part of the normal speed kept when bouncing, from 0 to 1 (optional, 1 by default) */
+    restitution?: number;
+    /** Part of the tangential speed lost when bouncing, from 0 to 1 (optional, 0 by default) */
+    friction?: number;
+}
+
+/**
+ * Solid axis-aligned rectangle.
+ */
+export interface ParticleRectangleCollider extends ParticleColliderResponse {
+    type: "rectangle";
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Solid circle.
+ */
+export interface ParticleCircleCollider extends ParticleColliderResponse {
+    type: "circle";
+    x: number;
+    y: number;
+    radius: number;
+}
+
+/**
+ * Two-sided line segment.
+ */
+export interface ParticleLineCollider extends ParticleColliderResponse {
+    type: "line";
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+/**
+ * Solid simple polygon.
+ */
+export interface ParticlePolygonCollider extends ParticleColliderResponse {
+    type: "polygon";
+    /** Flat list of vertices [x0, y0, x1, y1, ...] */
+    points: number[];
+}
+
+/**
+ * Options of a collider registered with `Collider.register()`.
+ */
+export interface ParticleCustomCollider extends ParticleColliderResponse {
+    type: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Shape particles collide with.
+ */
+export type ParticleColliderOptions =
+    | ParticleRectangleCollider
+    | ParticleCircleCollider
+    | ParticleLineCollider
+    | ParticlePolygonCollider
+    | ParticleCustomCollider;
+
+/**
+ * Payload of the emitter `collision` event.
+ */
+export interface ParticleCollisionEvent {
+    /** Colliding particle, already moved out of the surface (or about to be returned to the pool on `kill`) */
+    particle: ParticleItem;
+    /** Collider options, or the content frame edge */
+    collider: ParticleColliderOptions | ParticleBoundaryEdgeName;
+    /** Applied behavior */
+    behavior: ParticleBoundaryBehavior;
+    /** Contact point */
+    x: number;
+    y: number;
+    /** Unit normal of the surface, pointing towards the particle */
+    normalX: number;
+    normalY: number;
+}
+
+/**
+ * Why a particle died.
+ * - `lifespan`: it reached the end of its lifespan
+ * - `out-of-bounds`: it left the content frame
+ * - `collision`: it hit a collider with the `kill` behavior
+ * - `manual`: it was killed with `killParticle()`, or cleared by `stop()`/`reset()`
+ * - `overflow`: it was recycled for a new particle by the overflow policy
+ */
+export type ParticleDeathReason = "lifespan" | "out-of-bounds" | "collision" | "manual" | "overflow";
+
+/**
+ * What happens to a spawn when the emitter is full (pool size, quota or pool manager budget reached).
+ * - `drop`: the new particle is not spawned
+ * - `oldest`: the particle spawned first is recycled for the new one
+ * - `closestToDeath`: the particle with the least lifetime left is recycled
+ * - `random`: a random live particle is recycled
+ */
+export type ParticleOverflowPolicy = "drop" | "oldest" | "closestToDeath" | "random";
+
+/**
+ * Events of a ParticleEmitter, with their listener arguments.
+ */
+export interface ParticleEmitterEvents {
+    /** A particle was spawned and added to the emitter */
+    particleSpawned: [particle: ParticleItem];
+    /** A particle died, it is returned to the pool right after the listeners are called */
+    particleDied: [particle: ParticleItem, reason: ParticleDeathReason];
+    /** A particle touched a collider or a content frame edge */
+    collision: [event: ParticleCollisionEvent];
+    /** `start()` was called */
+    emitterStarted: [];
+    /** The spawn duration elapsed and spawning stopped */
+    spawnDurationEnded: [];
+    /** Spawning stopped, no burst is pending and the last particle (sub-emitters included) died; once per `start()` */
+    emitterComplete: [];
+}
+
+/**
+ * What fires a sub-emitter.
+ * - `spawn`: a particle was spawned; with a `rate`, the sub-emitter also emits along the particle path while it lives
+ * - `death`: a particle died, for one of the `deathReasons`
+ * - `collision`: a particle touched a collider or a content frame edge, at the contact point
+ */
+export type ParticleSubEmitterTrigger = "spawn" | "death" | "collision";
+
+/**
+ * Child emitter fired by the particles of an emitter, e.g. the burst of a firework rocket or the smoke of a projectile.
+ * Sub-emitters are configured like regular emitters; the `position` of their spawn options is relative to the
+ * particle that fired them. They share the parent pool when they use the same particle class.
+ */
+export interface ParticleSubEmitterOptions {
+    /** What fires the sub-emitter */
+    trigger: ParticleSubEmitterTrigger;
+    /** Constructor for the particle class (optional, the parent one by default) */
+    ClassType?: PoolItemConstructor<ParticleItem>;
+    /** Spawn behavior of the sub-emitter particles, positioned relative to the parent particle */
+    spawnOptions: ParticleSpawnOptions;
+    /** Environment, force fields and colliders of the sub-emitter; spawn rate and bursts are not used (optional) */
+    updateOptions?: Partial<ParticleUpdateOptions>;
+    /** Number of particles emitted each time the sub-emitter fires (optional, 1 by default) */
+    count?: ParticleOptionRange;
+    /** With the `spawn` trigger, particles emitted per second along the path of the living particle (optional) */
+    rate?: number;
+    /** Chance for each trigger to emit, between 0 and 1 (optional, 1 by default) */
+    probability?: number;
+    /** With the `death` trigger, the reasons that fire it (optional, lifespan and collision by default) */
+    deathReasons?: ParticleDeathReason[];
+    /** Part of the parent particle velocity added to the emitted particles (optional, 0 by default) */
+    inheritVelocity?: number;
+    /** Whether emitted particles take the parent particle tint instead of their color (optional) */
+    inheritColor?: boolean;
+    /** Whether emitted particles take the parent particle scale instead of their scale (optional) */
+    inheritScale?: boolean;
+}
+
+/**
+ * Ribbon drawn behind each particle from its recent positions, e.g. comet tails or sword slashes.
+ * Curves go from the head of the trail (time 0, the particle) to its tail (time 1).
+ */
+export interface ParticleTrailOptions {
+    /** Number of points kept, including the particle position (at least 2) */
+    length: number;
+    /** Minimum distance in pixels between kept points; smaller moves only drag the head (optional, 0 by default) */
+    minDistance?: number;
+    /** Width in pixels at the head (optional, 8 by default) */
+    width?: number;
+    /** Width multiplier along the trail (optional, tapers from 1 to 0 by default) */
+    widthCurve?: ParticleOptionKeyframes;
+    /** Alpha multiplier along the trail, on top of the particle alpha (optional, fades from 1 to 0 by default) */
+    alphaCurve?: ParticleOptionKeyframes;
+    /** Whether the width follows the particle scale (optional, true by default) */
+    scaleWithParticle?: boolean;
+    /** Texture stretched along the trail, as an instance or a loaded asset alias (optional, plain by default) */
+    texture?: Texture | string;
+    /** Trail color (optional, the particle tint by default) */
+    color?: number;
+}
+
+/**
+ * How the strength of a force field decreases from its center to its radius.
+ */
+export type ParticleForceFalloff = "none" | "linear" | "quadratic";
+
+/**
+ * Pulls particles towards a point (`attractor`) or pushes them away (`repulsor`).
+ */
+export interface ParticleAttractorField {
+    type: "attractor" | "repulsor";
+    x: number;
+    y: number;
+    /** Acceleration at the center in pixels per second squared */
+    strength: number;
+    /** Range of the field (optional, unlimited by default) */
+    radius?: number;
+    /** How the strength decreases towards the radius (optional, `quadratic` by default) */
+    falloff?: ParticleForceFalloff;
+}
+
+/**
+ * Makes particles orbit around a point.
+ */
+export interface ParticleVortexField {
+    type: "vortex";
+    x: number;
+    y: number;
+    /** Tangential acceleration in pixels per second squared, positive turns clockwise on screen */
+    strength: number;
+    /** Acceleration towards the center, negative to push particles out (optional, 0 by default) */
+    pull?: number;
+    /** Range of the field (optional, unlimited by default) */
+    radius?: number;
+    /** How the strength decreases towards the radius (optional, `quadratic` by default) */
+    falloff?: ParticleForceFalloff;
+}
+
+/**
+ * Constant acceleration inside a zone.
+ */
+export interface ParticleDirectionalField {
+    type: "directional";
+    forceX: number;
+    forceY: number;
+    /** Zone the field applies to (optional, everywhere by default) */
+    zone?: ParticleRectangleConfig;
+}
+
+/**
+ * Swirling curl-noise turbulence.
+ */
+export interface ParticleTurbulenceField {
+    type: "turbulence";
+    /** Acceleration scale in pixels per second squared */
+    strength: number;
+    /** Noise frequency, the inverse of the swirl size in pixels (optional, 0.01 by default) */
+    scale?: number;
+    /** How fast the swirls change over time (optional, 0.5 by default) */
+    speed?: number;
+    /** Seed of the noise (optional, 0 by default) */
+    seed?: number;
+}
+
+/**
+ * Options of a field registered with `ForceField.register()`.
+ */
+export interface ParticleCustomForceField {
+    type: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Positional force applied to particles.
+ */
+export type ParticleForceFieldOptions =
+    | ParticleAttractorField
+    | ParticleVortexField
+    | ParticleDirectionalField
+    | ParticleTurbulenceField
+    | ParticleCustomForceField;
+
+/**
+ * Space live particles belong to.
+ * - `local`: particles are attached to the emitter and move with its container and spawn origin (e.g. an aura)
+ * - `world`: particles stay where they were spawned when the emitter moves (e.g. an exhaust trail)
+ */
+export type ParticleSpace = "local" | "world";
+
+/**
+ * What happens to the time left over when a frame needs more substeps than allowed.
+ * - `discard`: the simulation drops it and falls behind real time
+ * - `slowdown`: it is kept and caught up on the next frames, up to `maxCatchUp`
+ */
+export type ParticleFixedStepPolicy = "discard" | "slowdown";
+
+/**
+ * Fixed timestep settings.
+ */
+export interface ParticleFixedStepOptions {
+    /** Duration of one simulation step in milliseconds */
+    step: number;
+    /** Max number of steps run per frame (optional, 5 by default) */
+    maxSubsteps?: number;
+    /** Policy for the time the substep cap drops (optional, `discard` by default) */
+    dropPolicy?: ParticleFixedStepPolicy;
+    /** Max backlog in milliseconds kept by the `slowdown` policy (optional, `step * maxSubsteps` by default) */
+    maxCatchUp?: number;
+    /** Renders particles between the last two steps to hide the step rate (optional, false by default) */
+    interpolate?: boolean;
+}
+
+/**
+ * A scheduled burst of particles.
+ */
+export interface ParticleBurst {
+    /** Time of the first burst in milliseconds after `start()` */
+    time: number;
+    /** Number of particles emitted per burst */
+    count: ParticleOptionRange;
+    /** Number of repetitions after the first burst (optional, 0 by default, -1 repeats forever) */
+    repeat?: number;
+    /** Delay in milliseconds between repetitions, repetitions need a positive interval (optional) */
+    interval?: number;
+    /** Chance from 0 to 1 that each repetition fires (optional, 1 by default) */
+    probability?: number;
+}
+
+/**
+ * Settings of a ParticlePoolManager.
+ */
+export interface ParticlePoolManagerOptions {
+    /** Maximum number of live particles across all pools (optional, -1 or undefined for unlimited) */
+    budget?: number;
+    /** Maximum number of items each pool can create (optional, -1 or undefined for unlimited) */
+    maxPoolSize?: number;
+    /** Trim policy given to each pool (optional, pools never shrink by themselves by default) */
+    trim?: ParticlePoolTrimOptions;
+}
+
+/**
+ * Render options of the ParticleContainer an emitter is built on.
+ */
+export interface ParticleContainerRenderOptions {
+    /**
+     * Particle properties uploaded to the GPU every frame, merged over the ones chosen from the spawn and update
+     * options (optional). Static properties are only uploaded when particles are added or removed
+     */
+    dynamicProperties?: ParticleProperties;
+    /** Blend mode of the particles, e.g. "add" for fire and glow (optional, "normal" by default) */
+    blendMode?: BLEND_MODES;
+    /**
+     * Texture whose source all particles share (optional). FastParticleEmitter also uses it when the spawn options
+     * have none
+     */
+    texture?: Texture | string;
+    /** Whether particle positions are rounded to whole pixels (optional, false by default) */
+    roundPixels?: boolean;
 }
 
 /**
  * Complete configuration for creating a particle emitter system.
- * Combines particle class type, pool settings, spawn behavior, and update behavior.
+ * Combines particle class type, pool settings, spawn behavior, update behavior and render options.
  */
-export interface ParticleEmitterOptions {
+export interface ParticleEmitterOptions extends ParticleContainerRenderOptions {
     /** Constructor for the particle class to be used in the pool */
     ClassType: PoolItemConstructor<ParticleItem>;
     /** Initial number of particles to pre-allocate in the pool */
@@ -192,6 +872,171 @@ export interface ParticleEmitterOptions {
     contentFrame?: Rectangle;
     /** Ticker instance for managing update timing (optional). By default Ticker.shared is used */
     ticker?: Ticker;
+    /** Registry used to reference particle classes and textures by name (optional). By default ParticleRegistry.shared is used */
+    registry?: ParticleRegistry;
+    /** Seed of the emitter random generator, for reproducible effects (optional, random by default) */
+    seed?: number;
+    /**
+     * Random generator to use instead of creating one from `seed` (optional).
+     * It can be shared between emitters; `reset()` does not restart it, call `random.reset()` to replay it.
+     */
+    random?: ParticleRandom;
+    /** Pool to take particles from instead of creating one, e.g. to share it between emitters (optional) */
+    pool?: ParticlePool<ParticleItem>;
+    /** Manager providing a shared pool for the particle class, used when no `pool` is given (optional) */
+    poolManager?: ParticlePoolManager;
+    /** Maximum number of live particles of this emitter, whatever the pool size (optional, unlimited by default) */
+    quota?: number;
+    /** Trim policy of the pool created by the emitter; shared pools have their own (optional) */
+    poolTrim?: ParticlePoolTrimOptions;
+    /** Whether the emitter updates itself from the ticker (optional, true by default). Use `simulate()` otherwise */
+    autoUpdate?: boolean;
+}
+
+/**
+ * Configuration of a FastParticleEmitter. Spawn and update options are the ones of ParticleEmitter,
+ * minus the features that need a Sprite per particle (callbacks, animation, trails, sub-emitters, collisions).
+ */
+export interface FastParticleEmitterOptions extends ParticleContainerRenderOptions {
+    /** Maximum number of live particles, allocated up front (optional, 10000 by default) */
+    maxParticles?: number;
+    /** Configuration for individual particle spawn behavior */
+    spawnOptions: ParticleSpawnOptions;
+    /** Configuration for emitter update behavior and environment */
+    updateOptions: ParticleUpdateOptions;
+    /** Boundary rectangle for out-of-bounds checking (optional) */
+    contentFrame?: Rectangle;
+    /** Ticker instance for managing update timing (optional). By default Ticker.shared is used */
+    ticker?: Ticker;
+    /** Seed of the emitter random generator, for reproducible effects (optional, random by default) */
+    seed?: number;
+    /**
+     * Random generator to use instead of creating one from `seed` (optional).
+     * It can be shared between emitters; `reset()` does not restart it, call `random.reset()` to replay it.
+     */
+    random?: ParticleRandom;
+    /** Whether the emitter updates itself from the ticker (optional, true by default). Use `simulate()` otherwise */
+    autoUpdate?: boolean;
+}
+
+/**
+ * Events of a FastParticleEmitter. Particles are not objects of their own, so only emitter events are sent.
+ */
+export type FastParticleEmitterEvents = Pick<
+    ParticleEmitterEvents,
+    "emitterStarted" | "spawnDurationEnded" | "emitterComplete"
+>;
+
+/**
+ * Pure JSON description of a rectangle.
+ */
+export interface ParticleRectangleConfig {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Serializable subset of ParticleSpawnOptions.
+ * Callbacks and functions are left out and textures are referenced by registry name.
+ */
+export interface ParticleSpawnConfig
+    extends Omit<
+        ParticleSpawnOptions,
+        "alpha" | "color" | "onInit" | "onUpdate" | "texture" | "textures" | "animation" | "subEmitters" | "trail"
+    > {
+    /** Alpha transparency start/end transition or keyframe curve */
+    alpha?: ParticleOptionStartEnd | ParticleOptionKeyframes;
+    /** Color tint - start/end transition, gradient, array of colors, or single color */
+    color?: ParticleOptionStartEnd | ParticleOptionGradient | number[] | number;
+    /** Registered texture name or asset alias */
+    texture?: string;
+    /** Texture variants referenced by name, optionally weighted */
+    textures?: (string | { texture: string; weight?: number })[];
+    /** Flipbook animation with frames referenced by name */
+    animation?: ParticleAnimationConfig;
+    /** Serializable sub-emitters */
+    subEmitters?: ParticleSubEmitterConfig[];
+    /** Trail with its texture referenced by name */
+    trail?: ParticleTrailConfig;
+}
+
+/**
+ * Serializable subset of ParticleTrailOptions, with the texture referenced by registry name.
+ */
+export interface ParticleTrailConfig extends Omit<ParticleTrailOptions, "texture"> {
+    /** Registered texture name or asset alias */
+    texture?: string;
+}
+
+/**
+ * Serializable subset of ParticleSubEmitterOptions, with the particle class referenced by registry name.
+ */
+export interface ParticleSubEmitterConfig extends Omit<ParticleSubEmitterOptions, "ClassType" | "spawnOptions"> {
+    /** Registered particle class name (optional). Defaults to the parent one */
+    particleClass?: string;
+    /** Serializable spawn behavior of the sub-emitter particles */
+    spawnOptions: ParticleSpawnConfig;
+}
+
+/**
+ * Versioned, pure JSON description of a particle emitter.
+ * Can be stored in files and turned into a live emitter with `ParticleEmitter.fromJSON()`.
+ */
+export interface ParticleEmitterConfig {
+    /** Config format version */
+    version: number;
+    /** Registered particle class name (optional). Defaults to "ParticleItem" */
+    particleClass?: string;
+    /** Initial number of particles to pre-allocate in the pool */
+    initialSize: number;
+    /** Maximum number of particles that can exist simultaneously (optional) */
+    maxParticles?: number;
+    /** Serializable particle spawn behavior */
+    spawnOptions: ParticleSpawnConfig;
+    /** Emitter update behavior and environment */
+    updateOptions: ParticleUpdateOptions;
+    /** Boundary rectangle for particle containment (optional) */
+    contentFrame?: ParticleRectangleConfig;
+    /** Seed of the emitter random generator (optional) */
+    seed?: number;
+}
+
+/**
+ * Recursive partial used for live config updates.
+ * Functions and arrays are replaced as a whole rather than merged.
+ */
+export type ParticleDeepPartial<T> = T extends (...args: never[]) => unknown
+    ? T
+    : T extends readonly unknown[]
+      ? T
+      : T extends object
+        ? { [K in keyof T]?: ParticleDeepPartial<T[K]> }
+        : T;
+
+/**
+ * Which particles a live config update applies to.
+ * - `"new"`: only particles spawned after the update
+ * - `"all"`: also re-samples the changed options on particles that are already alive
+ */
+export type ParticleConfigUpdateScope = "new" | "all";
+
+/**
+ * Partial configuration accepted by `ParticleEmitter.updateConfig()`.
+ * Spawn and update options are deep-merged; setting a key to `undefined` removes it.
+ */
+export interface ParticleEmitterConfigUpdate {
+    /** Spawn options to merge into the current ones */
+    spawnOptions?: ParticleDeepPartial<ParticleSpawnOptions>;
+    /** Update options to merge into the current ones */
+    updateOptions?: ParticleDeepPartial<ParticleUpdateOptions>;
+    /** New initial pool size. Growing it pre-allocates the difference, shrinking it frees unused particles */
+    initialSize?: number;
+    /** New maximum number of particles (-1 for unlimited). A private pool also frees unused particles above it */
+    maxParticles?: number;
+    /** New content frame, or null to remove it */
+    contentFrame?: Rectangle | null;
 }
 
 /**
@@ -203,4 +1048,8 @@ export interface ParticleEmitterInitData {
     spawnOptions: ParticleSpawnOptions;
     /** Boundary rectangle for particle containment (optional) */
     contentFrame?: Rectangle;
+    /** Emitter direction in radians that polar velocities are relative to (optional) */
+    direction?: number;
+    /** Random function every sample goes through (optional, Math.random by default) */
+    random?: () => number;
 }
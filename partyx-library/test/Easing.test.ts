@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { easings, ParticleEmitter } from "../src";
+
+describe("easings", () => {
+    it("go from 0 to 1", () => {
+        for (const [name, easing] of Object.entries(easings)) {
+            expect(easing(0), name).toBeCloseTo(0);
+            expect(easing(1), name).toBeCloseTo(1);
+        }
+    });
+});
+
+describe("ParticleEmitter.easing", () => {
+    it("keeps the legacy formulas", () => {
+        const { parabolic, sinusoidal, exponential, circular } = ParticleEmitter.easing;
+        expect(parabolic(5, 10)).toBeCloseTo(0.75);
+        expect(sinusoidal(5, 10)).toBeCloseTo(Math.sin(-Math.PI / 4));
+        expect(exponential(5, 10)).toBeCloseTo(0.25);
+        expect(circular(5, 10)).toBeCloseTo(1 - Math.sqrt(0.75));
+    });
+});
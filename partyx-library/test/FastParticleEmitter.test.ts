@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { FastParticleEmitter } from "../src";
+import type { FastParticleEmitterOptions } from "../src";
+import { createEmitter, spawnOptions, updateOptions } from "./helpers";
+
+/** Creates a fast emitter driven by hand through `simulate()` */
+const createFastEmitter = (options: Partial<FastParticleEmitterOptions> = {}) =>
+    new FastParticleEmitter({
+        maxParticles: 10,
+        spawnOptions: spawnOptions(),
+        updateOptions: updateOptions(),
+        autoUpdate: false,
+        ...options,
+    });
+
+describe("FastParticleEmitter spawning", () => {
+    it("spawns at the same rate as a ParticleEmitter", () => {
+        const options = { seed: 5, updateOptions: updateOptions({ spawnRate: { value: [20, 60] } }) };
+        const fast = createFastEmitter({ ...options, maxParticles: 100 });
+        const emitter = createEmitter(options);
+
+        fast.start(true);
+        emitter.start(true);
+        fast.simulate(500);
+        emitter.simulate(500);
+
+        expect(fast.particleCount).toBeGreaterThan(0);
+        expect(fast.particleCount).toBe(emitter.children.length);
+        expect(fast.particleChildren).toHaveLength(fast.particleCount);
+        fast.destroy();
+        emitter.destroy();
+    });
+
+    it("drops the spawns that do not fit", () => {
+        const emitter = createFastEmitter({ maxParticles: 4 });
+        emitter.start();
+
+        expect(emitter.burst(6)).toBe(4);
+        expect(emitter.particleCount).toBe(4);
+        expect(emitter.droppedCount).toBe(2);
+        emitter.destroy();
+    });
+
+    it("kills particles at the end of their lifespan and completes", () => {
+        const emitter = createFastEmitter();
+        let completed = 0;
+        emitter.on("emitterComplete", () => completed++);
+        emitter.start();
+        emitter.burst(5);
+
+        emitter.simulate(900);
+        expect(emitter.particleCount).toBe(5);
+        expect(completed).toBe(0);
+
+        emitter.simulate(200);
+        expect(emitter.particleCount).toBe(0);
+        expect(emitter.particleChildren).toHaveLength(0);
+        expect(completed).toBe(1);
+        emitter.destroy();
+    });
+
+    it("rejects options that need a ParticleEmitter", () => {
+        expect(() => createFastEmitter({ spawnOptions: spawnOptions({ onInit: () => {} }) })).toThrow(
+            "spawnOptions.onInit"
+        );
+        expect(() => createFastEmitter({ updateOptions: updateOptions({ space: "world" }) })).toThrow("World space");
+    });
+});
+
+describe("FastParticleEmitter reset", () => {
+    it("clears the particles and reuses their objects", () => {
+        const emitter = createFastEmitter();
+        emitter.start();
+        emitter.burst(3);
+        const particles = [...emitter.particleChildren];
+
+        emitter.reset();
+        expect(emitter.particleCount).toBe(0);
+        expect(emitter.particleChildren).toHaveLength(0);
+        expect(emitter.isRunning).toBe(false);
+
+        emitter.start();
+        emitter.burst(3);
+        expect(new Set(emitter.particleChildren)).toEqual(new Set(particles));
+        emitter.destroy();
+    });
+
+    it("handles more particles than fit in a call stack", () => {
+        const count = 200000;
+        const emitter = createFastEmitter({ maxParticles: count });
+        emitter.start();
+        emitter.burst(count);
+
+        expect(() => emitter.reset()).not.toThrow();
+        expect(emitter.particleCount).toBe(0);
+        emitter.destroy();
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { easings, ParticleEmitter } from "../src";
+import { createEmitter, spawnOptions, updateOptions } from "./helpers";
+
+describe("ParticleEmitter.toJSON", () => {
+    it("writes easing functions by their registered name", () => {
+        const emitter = createEmitter({
+            spawnOptions: spawnOptions({ alpha: { start: 1, end: 0, easing: easings.quadIn } }),
+            updateOptions: updateOptions({
+                spawnRate: {
+                    value: 10,
+                    velocityCurve: { keyframes: [{ time: 0, value: 1, easing: easings.quadOut }] },
+                },
+            }),
+        });
+
+        const config = emitter.toJSON();
+        expect(config.spawnOptions.alpha).toMatchObject({ easing: "quadIn" });
+        expect(config.updateOptions.spawnRate.velocityCurve?.keyframes[0].easing).toBe("quadOut");
+        expect(JSON.parse(JSON.stringify(config))).toEqual(config);
+        emitter.destroy();
+    });
+
+    it("round-trips through fromJSON", () => {
+        const emitter = createEmitter({ seed: 7, maxParticles: 100 });
+        const config = emitter.toJSON();
+        const copy = ParticleEmitter.fromJSON(JSON.stringify(config));
+        expect(copy.toJSON()).toEqual(config);
+        emitter.destroy();
+        copy.destroy();
+    });
+});
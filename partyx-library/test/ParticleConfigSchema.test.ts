@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { PARTICLE_CONFIG_VERSION, ParticleConfigError, parseEmitterConfig, validateEmitterConfig } from "../src";
+
+const baseConfig = () => ({
+    version: PARTICLE_CONFIG_VERSION,
+    initialSize: 10,
+    spawnOptions: {
+        position: { x: 0, y: 0 },
+        lifespan: [500, 1000],
+    },
+    updateOptions: {
+        spawnRate: { value: 10 },
+        interval: 1000,
+    },
+});
+
+const errorOf = (config: unknown) => {
+    try {
+        validateEmitterConfig(config);
+    } catch (error) {
+        expect(error).toBeInstanceOf(ParticleConfigError);
+        return error as ParticleConfigError;
+    }
+    throw new Error("expected the config to be rejected");
+};
+
+describe("validateEmitterConfig", () => {
+    it("accepts a minimal config", () => {
+        expect(() => validateEmitterConfig(baseConfig())).not.toThrow();
+    });
+
+    it("reports the path of an invalid range bound", () => {
+        const config = baseConfig();
+        (config.spawnOptions.position as { x: unknown }).x = [0, "10"];
+        const error = errorOf(config);
+        expect(error.path).toBe("spawnOptions.position.x[1]");
+    });
+
+    it("reports missing required keys", () => {
+        const config = baseConfig() as Record<string, unknown>;
+        delete config.initialSize;
+        expect(errorOf(config).path).toBe("initialSize");
+    });
+
+    it("rejects unknown keys", () => {
+        const config = baseConfig();
+        (config.updateOptions as Record<string, unknown>).spawnRat = 10;
+        expect(errorOf(config).path).toBe("updateOptions.spawnRat");
+    });
+
+    it("includes the received value in literal mismatches", () => {
+        const config = { ...baseConfig(), version: 2 };
+        const error = errorOf(config);
+        expect(error.path).toBe("version");
+        expect(error.message).toContain("got 2");
+    });
+
+    it("requires a lifespan without a content frame", () => {
+        const config = baseConfig();
+        delete (config.spawnOptions as { lifespan?: unknown }).lifespan;
+        expect(errorOf(config).path).toBe("spawnOptions.lifespan");
+
+        const framed = { ...config, contentFrame: { x: 0, y: 0, width: 100, height: 100 } };
+        expect(() => validateEmitterConfig(framed)).not.toThrow();
+    });
+
+    it("validates the fixed step", () => {
+        const config = baseConfig();
+        (config.updateOptions as Record<string, unknown>).fixedStep = { step: 0 };
+        expect(errorOf(config).path).toBe("updateOptions.fixedStep.step");
+
+        (config.updateOptions as Record<string, unknown>).fixedStep = { step: 16, maxSubsteps: 0 };
+        expect(errorOf(config).path).toBe("updateOptions.fixedStep.maxSubsteps");
+    });
+
+    it("validates keyframe curves", () => {
+        const config = baseConfig();
+        (config.spawnOptions as Record<string, unknown>).alpha = { keyframes: [{ time: 0, value: "1" }] };
+        expect(errorOf(config).path).toBe("spawnOptions.alpha.keyframes[0].value");
+
+        (config.spawnOptions as Record<string, unknown>).alpha = { keyframes: [] };
+        expect(errorOf(config).path).toBe("spawnOptions.alpha.keyframes");
+    });
+});
+
+describe("parseEmitterConfig", () => {
+    it("parses and validates a JSON string", () => {
+        const config = parseEmitterConfig(JSON.stringify(baseConfig()));
+        expect(config.initialSize).toBe(10);
+    });
+
+    it("reports invalid JSON at the root", () => {
+        expect(() => parseEmitterConfig("{")).toThrow(ParticleConfigError);
+    });
+});
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { Container, Texture } from "pixi.js";
+import type { ParticleEmitter } from "../src";
+import { createEmitter, spawnOptions } from "./helpers";
+
+describe("ParticleEmitter", () => {
+    let emitter: ParticleEmitter;
+
+    afterEach(() => {
+        if (!emitter.destroyed) emitter.destroy();
+    });
+
+    it("adds spawned particles as children", () => {
+        emitter = createEmitter();
+        emitter.start();
+        emitter.burst(5);
+        expect(emitter.children).toHaveLength(5);
+    });
+
+    it("returns particles to the pool when they die", () => {
+        emitter = createEmitter();
+        emitter.start();
+        emitter.burst(5);
+        emitter.simulate(1100);
+        expect(emitter.children).toHaveLength(0);
+    });
+
+    it("can be destroyed with live particles", () => {
+        const parent = new Container();
+        emitter = createEmitter();
+        parent.addChild(emitter);
+        emitter.start();
+        emitter.burst(3);
+        expect(() => emitter.destroy({ children: true })).not.toThrow();
+        expect(parent.children).toHaveLength(0);
+    });
+
+    it("passes the render options to the ParticleContainer", () => {
+        const texture = new Texture();
+        emitter = createEmitter({
+            spawnOptions: spawnOptions({ rotation: { value: 0, velocity: 1 } }),
+            blendMode: "add",
+            roundPixels: true,
+            texture,
+            dynamicProperties: { uvs: true },
+        });
+        expect(emitter.blendMode).toBe("add");
+        expect(emitter.roundPixels).toBe(true);
+        expect(emitter.texture).toBe(texture);
+        // Chosen from the spawn options, then overridden
+        expect(emitter._properties.rotation.dynamic).toBe(true);
+        expect(emitter._properties.vertex.dynamic).toBe(false);
+        expect(emitter._properties.uvs.dynamic).toBe(true);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Ticker } from "pixi.js";
+import { ParticlePool, ParticlePoolManager } from "../src";
+import type { PoolItem } from "../src";
+import { createEmitter } from "./helpers";
+
+class Item implements PoolItem {
+    public inPool = false;
+    public destroyed = false;
+    public init() {}
+    public reset() {}
+    public destroy() {
+        this.destroyed = true;
+    }
+}
+
+const frame = (lastTime: number) => ({ deltaMS: 16, lastTime }) as Ticker;
+
+describe("ParticlePool", () => {
+    it("reports usage stats", () => {
+        const pool = new ParticlePool(Item, 2, 4);
+        const items = [pool.get(), pool.get(), pool.get(), pool.get()];
+        expect(pool.get()).toBeUndefined();
+        pool.return(items[0]!);
+        pool.get();
+
+        expect(pool.stats).toEqual({
+            size: 4,
+            used: 4,
+            free: 0,
+            peakUsed: 4,
+            allocations: 4,
+            reuses: 3,
+            failedGets: 1,
+            trimmed: 0,
+        });
+
+        pool.resetStats();
+        expect(pool.stats).toMatchObject({ peakUsed: 4, allocations: 0, reuses: 0, failedGets: 0 });
+    });
+
+    it("trims available items only", () => {
+        const pool = new ParticlePool(Item, 10);
+        const item = pool.get()!;
+        expect(pool.trim(3)).toBe(6);
+        expect(pool.totalFree).toBe(3);
+        expect(pool.totalUsed).toBe(1);
+        expect(item.destroyed).toBe(false);
+        expect(pool.stats.trimmed).toBe(6);
+    });
+
+    it("destroys items returned above the high-water mark", () => {
+        const pool = new ParticlePool(Item, 0, -1, { highWaterMark: 2 });
+        const items = [pool.get()!, pool.get()!, pool.get()!];
+        items.forEach((item) => pool.return(item));
+        expect(pool.totalSize).toBe(2);
+        expect(items[0].destroyed).toBe(true);
+    });
+
+    it("destroys items idle for longer than the timeout", () => {
+        vi.spyOn(performance, "now").mockReturnValue(1000);
+        const pool = new ParticlePool(Item, 5, -1, { idleTimeout: 500, minFree: 1 });
+        vi.restoreAllMocks();
+
+        expect(pool.update(1400)).toBe(0);
+        expect(pool.update(1500)).toBe(4);
+        expect(pool.totalFree).toBe(1);
+    });
+
+    it("clears and destroys available items, keeping the ones in use", () => {
+        const pool = new ParticlePool(Item, 5);
+        const used = pool.get()!;
+        const free = pool.get()!;
+        pool.return(free);
+
+        pool.clear();
+        expect(pool.totalSize).toBe(1);
+        expect(pool.totalUsed).toBe(1);
+        expect(pool.totalFree).toBe(0);
+        expect(free.destroyed).toBe(true);
+        expect(used.destroyed).toBe(false);
+    });
+});
+
+describe("pool idle timeout", () => {
+    it("is applied to shared pools once per frame", () => {
+        const poolManager = new ParticlePoolManager({ trim: { idleTimeout: 500 } });
+        const emitters = [createEmitter({ poolManager }), createEmitter({ poolManager })];
+        const update = vi.spyOn(emitters[0].pool, "update");
+
+        emitters.forEach((emitter) => emitter.updateEmitter(frame(100)));
+        expect(update).toHaveBeenCalledTimes(1);
+
+        emitters.forEach((emitter) => emitter.updateEmitter(frame(116)));
+        expect(update).toHaveBeenCalledTimes(2);
+
+        emitters.forEach((emitter) => emitter.destroy());
+        poolManager.destroy();
+    });
+
+    it("is applied to private pools by their emitter", () => {
+        const emitter = createEmitter({ poolTrim: { idleTimeout: 0 } });
+        expect(emitter.pool.totalFree).toBe(10);
+        emitter.updateEmitter(frame(16));
+        expect(emitter.pool.totalFree).toBe(0);
+        emitter.destroy();
+    });
+});
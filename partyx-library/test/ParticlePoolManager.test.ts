@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Texture } from "pixi.js";
+import { ParticleItem, ParticlePoolManager } from "../src";
+import { createEmitter, particlesOf, spawnOptions } from "./helpers";
+
+describe("ParticlePoolManager", () => {
+    it("shares one pool per particle class", () => {
+        const poolManager = new ParticlePoolManager();
+        const first = createEmitter({ poolManager });
+        const second = createEmitter({ poolManager });
+        expect(first.pool).toBe(second.pool);
+        expect(first.pool).toBe(poolManager.getPool(ParticleItem));
+
+        first.destroy();
+        second.destroy();
+        poolManager.destroy();
+    });
+
+    it("does not leak textures between emitters", () => {
+        const poolManager = new ParticlePoolManager();
+        const textured = createEmitter({ poolManager, spawnOptions: spawnOptions({ texture: new Texture() }) });
+        textured.start();
+        textured.burst(3);
+        textured.simulate(1100);
+
+        const plain = createEmitter({ poolManager });
+        plain.start();
+        plain.burst(3);
+        expect(particlesOf(plain).every((particle) => particle.texture === Texture.EMPTY)).toBe(true);
+
+        textured.destroy();
+        plain.destroy();
+        poolManager.destroy();
+    });
+
+    it("keeps the texture a particle class is created with", () => {
+        const texture = new Texture();
+        class TexturedParticle extends ParticleItem {
+            constructor() {
+                super(texture);
+            }
+        }
+        const emitter = createEmitter({ ClassType: TexturedParticle, initialSize: 2 });
+        emitter.start();
+        emitter.burst(3);
+        expect(particlesOf(emitter).every((particle) => particle.texture === texture)).toBe(true);
+
+        emitter.simulate(1100);
+        emitter.burst(3);
+        expect(particlesOf(emitter).every((particle) => particle.texture === texture)).toBe(true);
+        emitter.destroy();
+    });
+
+    it("stops spawning at the budget", () => {
+        const poolManager = new ParticlePoolManager({ budget: 5 });
+        const first = createEmitter({ poolManager });
+        const second = createEmitter({ poolManager });
+        first.start();
+        second.start();
+        first.burst(3);
+        second.burst(3);
+        expect(first.children).toHaveLength(3);
+        expect(second.children).toHaveLength(2);
+        expect(poolManager.remainingBudget).toBe(0);
+
+        first.destroy();
+        second.destroy();
+        poolManager.destroy();
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { ParticleRandom } from "../src";
+import type { ParticleEmitter } from "../src";
+import { createEmitter, spawnOptions, updateOptions } from "./helpers";
+
+const seededOptions = {
+    spawnOptions: spawnOptions({ position: { x: [0, 100], y: [0, 100], velocityX: [-50, 50] }, lifespan: [0.5, 1] }),
+    updateOptions: updateOptions({ bursts: [{ time: 0, count: [3, 6], interval: 100, repeat: -1 }] }),
+};
+
+const snapshot = (emitter: ParticleEmitter) => emitter.children.map((particle) => [particle.x, particle.y]);
+
+const run = (emitter: ParticleEmitter) => {
+    emitter.start();
+    emitter.simulate(500);
+    return snapshot(emitter);
+};
+
+describe("ParticleRandom", () => {
+    it("repeats the sequence of a seed", () => {
+        const a = new ParticleRandom(42);
+        const b = new ParticleRandom(42);
+        const values = [a.next(), a.next(), a.next()];
+        expect([b.next(), b.next(), b.next()]).toEqual(values);
+
+        a.reset();
+        expect(a.next()).toBe(values[0]);
+    });
+});
+
+describe("seeded emitters", () => {
+    it("reproduce the same particles", () => {
+        const first = createEmitter({ ...seededOptions, seed: 1234 });
+        const second = createEmitter({ ...seededOptions, seed: 1234 });
+        const particles = run(first);
+        expect(particles.length).toBeGreaterThan(0);
+        expect(run(second)).toEqual(particles);
+
+        first.reset();
+        expect(run(first)).toEqual(particles);
+        first.destroy();
+        second.destroy();
+    });
+
+    it("leave a shared generator to its owner on reset", () => {
+        const random = new ParticleRandom(1234);
+        const emitter = createEmitter({ ...seededOptions, random });
+        const particles = run(emitter);
+
+        emitter.reset();
+        expect(run(emitter)).not.toEqual(particles);
+
+        emitter.reset();
+        random.reset();
+        expect(run(emitter)).toEqual(particles);
+        emitter.destroy();
+    });
+});
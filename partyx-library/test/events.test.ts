@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { ParticleEmitter } from "../src";
+import { createEmitter, updateOptions } from "./helpers";
+
+const record = (emitter: ParticleEmitter) => {
+    const events: string[] = [];
+    emitter.on("emitterStarted", () => events.push("emitterStarted"));
+    emitter.on("spawnDurationEnded", () => events.push("spawnDurationEnded"));
+    emitter.on("emitterComplete", () => events.push("emitterComplete"));
+    return events;
+};
+
+describe("scheduled bursts", () => {
+    it("fire at their time and repeat at their interval", () => {
+        const emitter = createEmitter({
+            initialSize: 20,
+            updateOptions: updateOptions({
+                bursts: [
+                    { time: 0, count: 5 },
+                    { time: 100, count: 2, interval: 50, repeat: 2 },
+                ],
+            }),
+        });
+        let spawned = 0;
+        emitter.on("particleSpawned", () => spawned++);
+        emitter.start();
+
+        emitter.simulate(50);
+        expect(spawned).toBe(5);
+        emitter.simulate(100);
+        expect(spawned).toBe(9);
+        emitter.simulate(200);
+        expect(spawned).toBe(11);
+        emitter.destroy();
+    });
+
+    it("are skipped by their probability", () => {
+        const emitter = createEmitter({
+            updateOptions: updateOptions({ bursts: [{ time: 0, count: 5, probability: 0 }] }),
+        });
+        emitter.start();
+        emitter.simulate(100);
+        expect(emitter.children).toHaveLength(0);
+        emitter.destroy();
+    });
+
+    it("fire directly through burst()", () => {
+        const emitter = createEmitter();
+        emitter.start();
+        expect(emitter.burst(4)).toBe(4);
+        expect(emitter.children).toHaveLength(4);
+        emitter.destroy();
+    });
+});
+
+describe("emitter events", () => {
+    it("complete once the bursts fired and the particles died", () => {
+        const emitter = createEmitter({
+            updateOptions: updateOptions({ bursts: [{ time: 0, count: 3, interval: 200, repeat: 1 }] }),
+        });
+        const events = record(emitter);
+        emitter.start();
+
+        emitter.simulate(1100);
+        expect(events).toEqual(["emitterStarted"]);
+        emitter.simulate(200);
+        expect(events).toEqual(["emitterStarted", "emitterComplete"]);
+        emitter.simulate(1000);
+        expect(events).toEqual(["emitterStarted", "emitterComplete"]);
+        emitter.destroy();
+    });
+
+    it("end the spawn duration before completing", () => {
+        const emitter = createEmitter({
+            updateOptions: updateOptions({ spawnRate: { value: 20 }, spawnDuration: 500 }),
+        });
+        const events = record(emitter);
+        emitter.start(true);
+
+        emitter.simulate(600);
+        expect(events).toEqual(["emitterStarted", "spawnDurationEnded"]);
+        expect(emitter.children.length).toBeGreaterThan(0);
+        emitter.simulate(1100);
+        expect(events).toEqual(["emitterStarted", "spawnDurationEnded", "emitterComplete"]);
+        emitter.destroy();
+    });
+});
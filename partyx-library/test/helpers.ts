@@ -0,0 +1,31 @@
+import { ParticleEmitter, ParticleItem } from "../src";
+import type { ParticleEmitterOptions, ParticleSpawnOptions, ParticleUpdateOptions } from "../src";
+
+/** Spawn options shared by the specs: particles standing still for one second */
+export const spawnOptions = (overrides: Partial<ParticleSpawnOptions> = {}): ParticleSpawnOptions => ({
+    position: { x: 0, y: 0 },
+    lifespan: 1,
+    ...overrides,
+});
+
+/** Update options that only spawn through bursts */
+export const updateOptions = (overrides: Partial<ParticleUpdateOptions> = {}): ParticleUpdateOptions => ({
+    spawnRate: { value: 0 },
+    interval: 16,
+    ...overrides,
+});
+
+/** Live particles of an emitter */
+export const particlesOf = (emitter: ParticleEmitter) => emitter.children as ParticleItem[];
+
+/** Creates an emitter driven by hand through `simulate()` */
+export function createEmitter(options: Partial<ParticleEmitterOptions> = {}): ParticleEmitter {
+    return new ParticleEmitter({
+        ClassType: ParticleItem,
+        initialSize: 10,
+        spawnOptions: spawnOptions(),
+        updateOptions: updateOptions(),
+        autoUpdate: false,
+        ...options,
+    });
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { ParticleDeathReason, ParticleItem } from "../src";
+import { createEmitter, particlesOf, spawnOptions, updateOptions } from "./helpers";
+
+const fullEmitter = (overflow?: "drop" | "oldest" | "closestToDeath" | "random") => {
+    const emitter = createEmitter({
+        maxParticles: 3,
+        seed: 3,
+        spawnOptions: spawnOptions({ lifespan: [1, 5] }),
+        updateOptions: updateOptions({ overflow }),
+    });
+    emitter.start();
+    emitter.burst(3);
+    return emitter;
+};
+
+describe("overflow policy", () => {
+    it("drops new particles by default", () => {
+        const emitter = fullEmitter();
+        const particles = [...particlesOf(emitter)];
+        emitter.burst(2);
+        expect(particlesOf(emitter)).toEqual(particles);
+        expect(emitter.droppedCount).toBe(2);
+        emitter.destroy();
+    });
+
+    it("recycles the oldest particle", () => {
+        const emitter = fullEmitter("oldest");
+        const [oldest] = particlesOf(emitter);
+        const deaths: [ParticleItem, ParticleDeathReason][] = [];
+        emitter.on("particleDied", (particle, reason) => deaths.push([particle, reason]));
+
+        emitter.burst(1);
+        expect(deaths).toEqual([[oldest, "overflow"]]);
+        expect(emitter.children).toHaveLength(3);
+        expect(emitter.droppedCount).toBe(0);
+        emitter.destroy();
+    });
+
+    it("recycles the particle closest to death", () => {
+        const emitter = fullEmitter("closestToDeath");
+        const closest = particlesOf(emitter).reduce((a, b) => (a.lifespan <= b.lifespan ? a : b));
+        let died: ParticleItem | undefined;
+        emitter.on("particleDied", (particle) => (died = particle));
+
+        emitter.burst(1);
+        expect(died).toBe(closest);
+        emitter.destroy();
+    });
+
+    it("recycles a random particle", () => {
+        const emitter = fullEmitter("random");
+        const particles = [...particlesOf(emitter)];
+        let died: ParticleItem | undefined;
+        emitter.on("particleDied", (particle) => (died = particle));
+
+        emitter.burst(1);
+        expect(particles).toContain(died);
+        expect(emitter.children).toHaveLength(3);
+        emitter.destroy();
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { Texture } from "pixi.js";
+import { AnimatedParticleItem } from "../src";
+import { createEmitter, particlesOf, spawnOptions } from "./helpers";
+
+describe("ParticleItem.reconfigure", () => {
+    const first = [new Texture(), new Texture()];
+    const second = [new Texture(), new Texture(), new Texture()];
+
+    it("restarts the animation of live particles", () => {
+        const emitter = createEmitter({
+            ClassType: AnimatedParticleItem,
+            spawnOptions: spawnOptions({ animation: { frameRate: 10, imageSources: first } }),
+        });
+        emitter.start();
+        emitter.burst(2);
+
+        emitter.updateConfig({ spawnOptions: { animation: { frameRate: 10, imageSources: second } } }, "all");
+        const particle = emitter.children[0] as AnimatedParticleItem;
+        expect(particle.frames).toEqual(second);
+        expect(particle.texture).toBe(second[0]);
+        emitter.destroy();
+    });
+
+    it("re-applies the texture of plain particles when the animation changes", () => {
+        const texture = new Texture();
+        const emitter = createEmitter({ spawnOptions: spawnOptions({ texture }) });
+        emitter.start();
+        emitter.burst(1);
+        particlesOf(emitter)[0].texture = Texture.EMPTY;
+
+        emitter.updateConfig({ spawnOptions: { animation: { frameRate: 10, imageSources: first } } }, "all");
+        expect(particlesOf(emitter)[0].texture).toBe(texture);
+        emitter.destroy();
+    });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { Texture } from "pixi.js";
+import { createEmitter, particlesOf, spawnOptions } from "./helpers";
+// After the entry point, which loads the emitter and particle modules in order
+import { pickTexture } from "../src/ParticleItem";
+
+describe("texture variants", () => {
+    const a = new Texture();
+    const b = new Texture();
+
+    it("count variants without a weight as 1", () => {
+        const textures = [{ texture: a }, { texture: b, weight: 3 }];
+        expect(pickTexture(textures, 0.2)).toBe(a);
+        expect(pickTexture(textures, 0.3)).toBe(b);
+    });
+
+    it("are picked independently from the color list", () => {
+        const emitter = createEmitter({
+            initialSize: 200,
+            seed: 5,
+            spawnOptions: spawnOptions({ textures: [a, b], color: [0xff0000, 0x00ff00] }),
+        });
+        emitter.start();
+        emitter.burst(200);
+
+        const pairs = new Set(particlesOf(emitter).map((particle) => `${particle.tint}-${particle.texture === a}`));
+        expect(pairs.size).toBe(4);
+        emitter.destroy();
+    });
+});
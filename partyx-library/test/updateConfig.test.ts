@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { Rectangle } from "pixi.js";
+import { ParticleItem, ParticlePool } from "../src";
+import { createEmitter, spawnOptions } from "./helpers";
+
+describe("ParticleEmitter.updateConfig", () => {
+    it("shrinks a private pool when maxParticles is lowered", () => {
+        const emitter = createEmitter({ initialSize: 20, maxParticles: 50 });
+        emitter.start();
+        emitter.burst(5);
+
+        emitter.updateConfig({ maxParticles: 10 });
+        expect(emitter.pool.totalUsed).toBe(5);
+        expect(emitter.pool.totalSize).toBe(10);
+
+        emitter.burst(10);
+        expect(emitter.children).toHaveLength(10);
+        emitter.destroy();
+    });
+
+    it("shrinks a private pool when initialSize is lowered", () => {
+        const emitter = createEmitter({ initialSize: 20 });
+        emitter.updateConfig({ initialSize: 5 });
+        expect(emitter.pool.totalSize).toBe(5);
+
+        emitter.updateConfig({ initialSize: 8 });
+        expect(emitter.pool.totalSize).toBe(8);
+        emitter.destroy();
+    });
+
+    it("keeps a per-emitter limit on a shared pool", () => {
+        const pool = new ParticlePool(ParticleItem, 0);
+        const first = createEmitter({ pool });
+        const second = createEmitter({ pool });
+        first.start();
+        second.start();
+
+        first.updateConfig({ maxParticles: 2 });
+        first.burst(5);
+        second.burst(5);
+        expect(first.children).toHaveLength(2);
+        expect(second.children).toHaveLength(5);
+        expect(pool.maxPoolSize).toBe(Infinity);
+        expect(first.toJSON().maxParticles).toBe(2);
+
+        first.destroy();
+        second.destroy();
+    });
+
+    it("requires a lifespan when the content frame is removed", () => {
+        const emitter = createEmitter({
+            spawnOptions: spawnOptions({ lifespan: undefined }),
+            contentFrame: new Rectangle(0, 0, 100, 100),
+        });
+        expect(() => emitter.updateConfig({ contentFrame: null })).toThrow();
+        expect(() => emitter.updateConfig({ contentFrame: null, spawnOptions: { lifespan: 1 } })).not.toThrow();
+        emitter.destroy();
+    });
+});